@@ -0,0 +1,168 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getGeocodingCache, FileGeocodingCache } from '@/lib/services/geocodingCache';
+
+/**
+ * Compare in constant time; hashing first makes the lengths equal without revealing the token's
+ */
+function sameSecret(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Open the persistent cache after checking the admin token, or the error response to send.
+ * Requests need `Authorization: Bearer <GEOCODING_CACHE_ADMIN_TOKEN>`; without the token set the route is off.
+ */
+function openCache(request: NextRequest): { cache: FileGeocodingCache } | { response: NextResponse } {
+  const token = process.env.GEOCODING_CACHE_ADMIN_TOKEN;
+  if (!token) {
+    return {
+      response: NextResponse.json(
+        { error: 'The geocoding cache admin route is disabled (set GEOCODING_CACHE_ADMIN_TOKEN)' },
+        { status: 403 }
+      ),
+    };
+  }
+  if (!sameSecret(request.headers.get('authorization') ?? '', `Bearer ${token}`)) {
+    return { response: NextResponse.json({ error: 'Missing or invalid admin token' }, { status: 401 }) };
+  }
+
+  let cache: FileGeocodingCache | null;
+  try {
+    cache = getGeocodingCache();
+  } catch (error) {
+    return { response: NextResponse.json({ error: (error as Error).message }, { status: 500 }) };
+  }
+  if (!cache) {
+    return {
+      response: NextResponse.json(
+        { error: 'The persistent geocoding cache is disabled (GEOCODING_CACHE_FILE=off)' },
+        { status: 404 }
+      ),
+    };
+  }
+  return { cache };
+}
+
+/**
+ * Inspect the cache: statistics plus the most recent entries (?provider, ?key, ?expired=true, ?limit, ?offset).
+ * ?export=true downloads every live entry as JSON, in the format POST imports.
+ */
+export async function GET(request: NextRequest) {
+  const opened = openCache(request);
+  if ('response' in opened) return opened.response;
+  const { cache } = opened;
+  const params = request.nextUrl.searchParams;
+
+  try {
+    if (params.get('export') === 'true') {
+      const entries = await cache.exportEntries();
+      return new NextResponse(JSON.stringify({ exportedAt: new Date().toISOString(), entries }), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="geocoding-cache-${new Date().toISOString().slice(0, 10)}.json"`,
+        },
+      });
+    }
+
+    const limit = Number(params.get('limit') ?? 100);
+    const offset = Number(params.get('offset') ?? 0);
+    if (!Number.isInteger(limit) || limit < 0 || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'limit and offset must be non-negative integers' },
+        { status: 400 }
+      );
+    }
+
+    const [stats, page] = await Promise.all([
+      cache.stats(),
+      cache.list({
+        provider: params.get('provider') || undefined,
+        key: params.get('key') || undefined,
+        expiredOnly: params.get('expired') === 'true',
+        limit,
+        offset,
+      }),
+    ]);
+    return NextResponse.json({ success: true, stats, total: page.total, entries: page.entries });
+  } catch (error) {
+    console.error('Geocoding cache read error:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to read the geocoding cache' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Import entries exported by GET ?export=true (the whole export, or just its entries array).
+ * Entries whose key is not the `provider:lng,lat` key of their own provider and coordinates are
+ * skipped, as are entries older than the cached ones unless ?overwrite=true.
+ */
+export async function POST(request: NextRequest) {
+  const opened = openCache(request);
+  if ('response' in opened) return opened.response;
+  const { cache } = opened;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be a geocoding cache export (JSON)' },
+      { status: 400 }
+    );
+  }
+  const entries = Array.isArray(body) ? body : body?.entries;
+  if (!Array.isArray(entries)) {
+    return NextResponse.json(
+      { error: 'Request body must be a geocoding cache export or an array of entries' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await cache.importEntries(entries, { overwrite: request.nextUrl.searchParams.get('overwrite') === 'true' });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Geocoding cache import error:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to import into the geocoding cache' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Purge entries by ?provider, ?key or ?expired=true. Emptying the whole cache needs ?all=true.
+ */
+export async function DELETE(request: NextRequest) {
+  const opened = openCache(request);
+  if ('response' in opened) return opened.response;
+  const { cache } = opened;
+  const params = request.nextUrl.searchParams;
+
+  const filter = {
+    provider: params.get('provider') || undefined,
+    key: params.get('key') || undefined,
+    expiredOnly: params.get('expired') === 'true',
+  };
+  if (!filter.provider && !filter.key && !filter.expiredOnly && params.get('all') !== 'true') {
+    return NextResponse.json(
+      { error: 'Specify provider, key or expired=true, or all=true to empty the cache' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const removed = await cache.purge(filter);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('Geocoding cache purge error:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to purge the geocoding cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { batchReverseGeocode, getGeocoder, reverseGeocode } from '@/lib/services/geocodingService';
+import { registerGeocodingCache } from '@/lib/services/geocodingCache';
+import { GEOCODE_BATCH_SIZE } from '@/lib/services/geocodingClient';
+
+export const maxDuration = 60;
+
+// Requests per client and minute (a batch counts once; the queue paces its provider requests)
+const RATE_LIMIT_PER_MINUTE = 30;
+const RATE_WINDOW_MS = 60 * 1000;
+
+const requestsByClient = new Map<string, { windowStart: number; count: number }>();
+
+registerGeocodingCache();
+
+/**
+ * Count a request against its client's window, returning the milliseconds to wait when over the limit
+ */
+function rateLimited(request: NextRequest): number | null {
+  const client = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+  const now = Date.now();
+  if (requestsByClient.size > 1000) {
+    requestsByClient.forEach((window, key) => {
+      if (now - window.windowStart >= RATE_WINDOW_MS) requestsByClient.delete(key);
+    });
+  }
+
+  const window = requestsByClient.get(client);
+  if (!window || now - window.windowStart >= RATE_WINDOW_MS) {
+    requestsByClient.set(client, { windowStart: now, count: 1 });
+    return null;
+  }
+  window.count++;
+  return window.count > RATE_LIMIT_PER_MINUTE ? window.windowStart + RATE_WINDOW_MS - now : null;
+}
+
+function tooManyRequests(waitMs: number) {
+  return NextResponse.json(
+    { error: `Too many geocoding requests; at most ${RATE_LIMIT_PER_MINUTE} a minute` },
+    { status: 429, headers: { 'Retry-After': String(Math.ceil(waitMs / 1000)) } }
+  );
+}
+
+function isPoint(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    isFinite(value[0]) && isFinite(value[1]) && Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+}
+
+/**
+ * Reverse geocode one point with the configured provider, through the cache and the request queue.
+ * Used to check a provider setup, e.g. against the local stand-in (scripts/geocoder-stand-in.js).
+ */
+export async function GET(request: NextRequest) {
+  const waitMs = rateLimited(request);
+  if (waitMs !== null) {
+    return tooManyRequests(waitMs);
+  }
+
+  const lng = Number(request.nextUrl.searchParams.get('lng'));
+  const lat = Number(request.nextUrl.searchParams.get('lat'));
+  if (!request.nextUrl.searchParams.get('lng') || !request.nextUrl.searchParams.get('lat') || !isFinite(lng) || !isFinite(lat) || Math.abs(lng) > 180 || Math.abs(lat) > 90) {
+    return NextResponse.json(
+      { error: 'lng and lat query parameters are required (WGS84 degrees)' },
+      { status: 400 }
+    );
+  }
+
+  let provider: string | undefined;
+  try {
+    provider = getGeocoder().name;
+    const result = await reverseGeocode(lng, lat);
+    // reverseGeocode logs the provider error and answers 'Geocoding failed'
+    if (result.address === 'Geocoding failed') {
+      return NextResponse.json({ error: 'Geocoding failed; see the server log', provider }, { status: 502 });
+    }
+    return NextResponse.json({ success: true, provider, result });
+  } catch (error) {
+    console.error('Geocode error:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Geocoding failed', provider },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Reverse geocode a batch of [lng, lat] points for the browser (tap addresses on the map), through the
+ * cache and the request queue. Failed lookups are answered 'Geocoding failed' in place.
+ */
+export async function POST(request: NextRequest) {
+  const waitMs = rateLimited(request);
+  if (waitMs !== null) {
+    return tooManyRequests(waitMs);
+  }
+
+  let points: unknown;
+  try {
+    ({ points } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (!Array.isArray(points) || points.length === 0 || points.length > GEOCODE_BATCH_SIZE || !points.every(isPoint)) {
+    return NextResponse.json(
+      { error: `points must be 1 to ${GEOCODE_BATCH_SIZE} [lng, lat] pairs (WGS84 degrees)` },
+      { status: 400 }
+    );
+  }
+
+  let provider: string | undefined;
+  try {
+    provider = getGeocoder().name;
+    const results = await batchReverseGeocode(points);
+    return NextResponse.json({ success: true, provider, results });
+  } catch (error) {
+    console.error('Geocode error:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Geocoding failed', provider },
+      { status: 500 }
+    );
+  }
+}
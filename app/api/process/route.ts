@@ -1,9 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SewerAsset, InspectionRecord, LateralInspection, DefectRecord, ProcessedData, TapInspection } from '@/lib/types';
-import { calculateLateralPosition, calculateLateralStub } from '@/lib/utils/lateralCalculator';
-import { reverseGeocode } from '@/lib/services/geocodingService';
-import { matchInspectionsToAssets } from '@/lib/parsers/mdbParser';
+import { SewerAsset, InspectionRecord, LateralInspection, DefectRecord, ProcessedData, TapInspection, LateralSurveyRecord, Parcel, AddressPoint } from '@/lib/types';
+import {
+  calculateLateralPosition,
+  calculateLateralStub,
+  calculateLateralPolyline,
+  calculateLengthScale,
+  calculateLineSection,
+  DEFAULT_SIDE_OFFSET_METERS,
+  DEFAULT_STUB_LENGTH_METERS,
+  DEFAULT_STUB_SIDE,
+  LengthScale,
+  StubSide,
+} from '@/lib/utils/lateralCalculator';
+import { geocodingQueueStats, reverseGeocode } from '@/lib/services/geocodingService';
+import { registerGeocodingCache } from '@/lib/services/geocodingCache';
+import { buildAddressPointIndex, geocodeFromAddressPoints } from '@/lib/services/geocoders/addressPoints';
+import { matchInspectionsToAssets, pairContinuousDefects } from '@/lib/parsers/mdbParser';
+import { getLateralBends, linkLateralSurveys } from '@/lib/parsers/lacpParser';
+import { DistanceUnit, distanceInBothUnits, distanceToMeters, isUnitOverride, resolveInspectionUnits, UnitOverride } from '@/lib/utils/units';
 import { validateCoordinates } from '@/lib/utils/coordinateValidation';
+import { looksProjected } from '@/lib/utils/projection';
+import { buildManholeIndex, orientAsset, orientInspection, surveyReachedFarManhole } from '@/lib/utils/surveyDirection';
+import { assetReferencePoint, mergedAssetPath } from '@/lib/utils/linePath';
+import { buildParcelIndex, extendStubToPropertyLine, PropertyLineSplit, splitAtPropertyLine } from '@/lib/utils/propertyLine';
+import { joinParcel, parcelJoinProperties } from '@/lib/utils/parcelJoin';
+import { pointPipeBearing } from '@/lib/utils/pointOrientation';
+import {
+  consolidateTaps,
+  DEFAULT_TAP_CLOCK_TOLERANCE_HOURS,
+  DEFAULT_TAP_DISTANCE_TOLERANCE_METERS,
+  TapCandidate,
+  TapGroup,
+  tapGroupProperties,
+  tapGroupsByItem,
+  tapGroupOrder,
+  tapLinePosition,
+} from '@/lib/utils/tapConsolidation';
 
 // Note: Vercel body size limits:
 // - Pro/Enterprise plan: 50MB (configured)
@@ -11,15 +43,50 @@ import { validateCoordinates } from '@/lib/utils/coordinateValidation';
 // Increase timeout for processing (Next.js default is 10s, we need more for geocoding)
 export const maxDuration = 60; // 60 seconds
 
+// Geocoding stops this long after the request came in, leaving time to respond within maxDuration;
+// laterals still waiting for an address get 'Address not found'
+const GEOCODING_DEADLINE_MS = 45 * 1000;
+
+/**
+ * Reverse geocode through the geocoding queue, which times out, retries and rate limits each request
+ */
+async function geocodeAddress(coordinates: [number, number]): Promise<{ address: string; addressDetails: any }> {
+  try {
+    const geocodingResult = await reverseGeocode(coordinates[0], coordinates[1]);
+    return { address: geocodingResult.address, addressDetails: geocodingResult.details };
+  } catch (geocodeError) {
+    console.warn('Geocoding failed for lateral:', geocodeError);
+    // Continue without address
+    return { address: 'Address not found', addressDetails: {} };
+  }
+}
+
+// Geocoded addresses are kept on disk across restarts (GEOCODING_CACHE_FILE)
+registerGeocodingCache();
+
 export async function POST(request: NextRequest) {
+  const receivedAt = Date.now();
   try {
     const body = await request.json();
-    const { assets, inspections, defects, taps, lateralLayerName } = body as {
+    const { assets, inspections, defects, lateralSurveys, taps, lateralLayerName, stubLength, sideOffset, defaultSide, units, scaleToGisLength, scaleTolerance, parcels, addressPoints, dedupeTaps, dedupeDistanceTolerance, dedupeClockTolerance } = body as {
       assets: SewerAsset[];
       inspections: InspectionRecord[];
       defects?: DefectRecord[];
+      lateralSurveys?: LateralSurveyRecord[]; // LACP lateral inspections
+
       taps?: TapInspection[];
       lateralLayerName?: string;
+      stubLength?: number; // Lateral stub length in meters (project bundle setting), default 10 ft
+      sideOffset?: number; // Offset in meters of left/right lateral points from the mainline, default 2 m
+      defaultSide?: StubSide; // Stub side for taps at 12 or 6 o'clock, default right
+      units?: UnitOverride; // Distance unit of the inspections: 'auto' reads each IsImperial header
+      scaleToGisLength?: boolean; // Rescale distances by GIS length / Length_Surveyed for completed surveys
+      scaleTolerance?: number; // Allowed length disagreement as a fraction (default 0.1), larger ratios are flagged
+      parcels?: Parcel[]; // Parcel polygons (WGS84): laterals are extended to the property line and split public/private
+      addressPoints?: AddressPoint[]; // Address points (WGS84): laterals and taps are geocoded offline against them
+      dedupeTaps?: boolean; // One lateral per tap across repeat inspections of a pipe, from the most recent one
+      dedupeDistanceTolerance?: number; // Meters along the pipe within which taps are the same (default 1)
+      dedupeClockTolerance?: number; // Clock hours within which taps are the same (default 1)
     };
 
     if (!assets || !Array.isArray(assets)) {
@@ -29,6 +96,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Turf distance math below assumes WGS84 [lng, lat]. The upload routes reproject every layer,
+    // so coordinates that still look projected were never uploaded with their coordinate system
+    if (looksProjected(assets)) {
+      return NextResponse.json(
+        { error: 'Asset coordinates look projected. Re-upload the asset layer with its coordinate system.' },
+        { status: 400 }
+      );
+    }
+    // Point assets carry their pipe direction from the upload (orientPointAssets)
+
     if (!inspections || !Array.isArray(inspections)) {
       return NextResponse.json(
         { error: 'Inspections array is required' },
@@ -36,8 +113,161 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (stubLength != null && (typeof stubLength !== 'number' || !isFinite(stubLength) || stubLength <= 0)) {
+      return NextResponse.json(
+        { error: 'stubLength must be a positive number of meters' },
+        { status: 400 }
+      );
+    }
+
+    if (sideOffset != null && (typeof sideOffset !== 'number' || !isFinite(sideOffset) || sideOffset < 0)) {
+      return NextResponse.json(
+        { error: 'sideOffset must be a non-negative number of meters' },
+        { status: 400 }
+      );
+    }
+
+    if (defaultSide != null && defaultSide !== 'left' && defaultSide !== 'right') {
+      return NextResponse.json(
+        { error: 'defaultSide must be "left" or "right"' },
+        { status: 400 }
+      );
+    }
+
+    // Geometry rules for this run, recorded on every lateral
+    const parameters = {
+      stubLengthMeters: stubLength ?? DEFAULT_STUB_LENGTH_METERS,
+      sideOffsetMeters: sideOffset ?? DEFAULT_SIDE_OFFSET_METERS,
+      defaultSide: defaultSide ?? DEFAULT_STUB_SIDE,
+    };
+
+    if (parcels != null && !Array.isArray(parcels)) {
+      return NextResponse.json(
+        { error: 'parcels must be an array of parcel polygons' },
+        { status: 400 }
+      );
+    }
+    const parcelIndex = parcels && parcels.length > 0 ? buildParcelIndex(parcels) : null;
+    let propertyLineCount = 0;
+
+    // Public/private segments of a lateral split at the parcel boundary, as LateralInspection fields
+    const propertyLineFields = (split: PropertyLineSplit | null) => {
+      if (!parcelIndex) return { fields: {}, properties: {} };
+      if (!split) return { fields: {}, properties: { propertyLineFound: false } };
+      propertyLineCount++;
+      const toCoordinates = (line: number[][]) =>
+        line.map(p => validateCoordinates(p as [number, number])).filter((p): p is [number, number] => p !== null);
+      const propertyLinePoint = split.propertyLinePoint ? validateCoordinates(split.propertyLinePoint as [number, number]) : null;
+      return {
+        fields: {
+          publicLine: split.publicLine.length >= 2 ? toCoordinates(split.publicLine) : undefined,
+          privateLine: toCoordinates(split.privateLine),
+          propertyLinePoint: propertyLinePoint ?? undefined,
+        },
+        properties: {
+          propertyLineFound: true,
+          publicLengthMeters: Math.round(split.publicLengthMeters * 1000) / 1000,
+          mainInParcel: split.insideParcel,
+        },
+      };
+    };
+
+    // Parcel the lateral serves (APN, owner, site address, land use), joined at its endpoint or stub
+    let parcelJoinCount = 0;
+    const parcelJoinFields = (
+      endpoint: [number, number],
+      stub: [[number, number], [number, number]] | undefined,
+      split: PropertyLineSplit | null
+    ) => {
+      if (!parcelIndex) return {};
+      const join = joinParcel(parcelIndex, endpoint, { stub, crossedParcel: split?.parcel });
+      if (join) parcelJoinCount++;
+      return parcelJoinProperties(join);
+    };
+
+    if (addressPoints != null && !Array.isArray(addressPoints)) {
+      return NextResponse.json(
+        { error: 'addressPoints must be an array of address points' },
+        { status: 400 }
+      );
+    }
+    const addressIndex = addressPoints && addressPoints.length > 0 ? buildAddressPointIndex(addressPoints) : null;
+    let addressPointMatchCount = 0;
+
+    // Nearest address point on the lateral's side of the main when an address layer was given, otherwise the geocoder
+    const lateralAddress = async (
+      at: [number, number],
+      main: SewerAsset | undefined,
+      toward: [number, number] | undefined
+    ): Promise<{ address: string; addressDetails: any }> => {
+      if (!addressIndex) return geocodeAddress(at);
+      const result = geocodeFromAddressPoints(addressIndex, at, { main, toward });
+      if (result.details.addressPointId) addressPointMatchCount++;
+      return { address: result.address, addressDetails: result.details };
+    };
+
+    // Lookups run side by side (the geocoding queue paces the provider) and are filled in before responding
+    const addressLookups: Promise<void>[] = [];
+    const awaitingAddress = new Set<LateralInspection>();
+    const fillAddress = (
+      lateral: LateralInspection,
+      at: [number, number],
+      main: SewerAsset | undefined,
+      toward: [number, number] | undefined
+    ) => {
+      awaitingAddress.add(lateral);
+      addressLookups.push(lateralAddress(at, main, toward).then(({ address, addressDetails }) => {
+        if (!awaitingAddress.delete(lateral)) return; // Past the deadline, already answered
+        lateral.address = address;
+        lateral.addressDetails = addressDetails;
+      }));
+    };
+
+    if (units != null && !isUnitOverride(units)) {
+      return NextResponse.json(
+        { error: 'units must be "auto", "feet" or "meters"' },
+        { status: 400 }
+      );
+    }
+    const unitsOverride: UnitOverride = units ?? 'auto';
+
+    if (scaleTolerance != null && (typeof scaleTolerance !== 'number' || !isFinite(scaleTolerance) || scaleTolerance < 0)) {
+      return NextResponse.json(
+        { error: 'scaleTolerance must be a non-negative number (fraction of the pipe length, e.g. 0.1 for 10%)' },
+        { status: 400 }
+      );
+    }
+
+    if (dedupeDistanceTolerance != null && (typeof dedupeDistanceTolerance !== 'number' || !isFinite(dedupeDistanceTolerance) || dedupeDistanceTolerance < 0)) {
+      return NextResponse.json(
+        { error: 'dedupeDistanceTolerance must be a non-negative number of meters' },
+        { status: 400 }
+      );
+    }
+
+    if (dedupeClockTolerance != null && (typeof dedupeClockTolerance !== 'number' || !isFinite(dedupeClockTolerance) || dedupeClockTolerance < 0 || dedupeClockTolerance > 6)) {
+      return NextResponse.json(
+        { error: 'dedupeClockTolerance must be a number of clock hours between 0 and 6' },
+        { status: 400 }
+      );
+    }
+    const tapTolerance = {
+      distanceMeters: dedupeDistanceTolerance ?? DEFAULT_TAP_DISTANCE_TOLERANCE_METERS,
+      clockHours: dedupeClockTolerance ?? DEFAULT_TAP_CLOCK_TOLERANCE_HOURS,
+    };
+
     // Match inspections to assets
     const matchedInspections = matchInspectionsToAssets(inspections, assets);
+    // Manhole points, used to tell which end of each pipe the camera started from
+    const manholeIndex = buildManholeIndex(assets);
+    const inspectionsById = new Map<string, InspectionRecord>();
+    for (const inspection of inspections) {
+      if (inspection.inspectionId) {
+        inspectionsById.set(String(inspection.inspectionId).trim(), inspection);
+      }
+    }
+    let reversedCount = 0;
+    let imperialCount = 0;
     const laterals: LateralInspection[] = [];
     const processedDefects: DefectRecord[] = [];
     let processedCount = 0;
@@ -70,6 +300,86 @@ export async function POST(request: NextRequest) {
       console.log(`Organized ${defects.length} defects: ${defectsByInspectionId.size} by inspection ID, ${defectsByPipeSegRef.size} by pipe segment reference`);
     }
 
+    // Continuous defects (S##/F## row pairs), placed along the mainline with the inspection that reaches them first
+    const continuousDefects = pairContinuousDefects(defects || []);
+    const continuousByStart = new Map(continuousDefects.map(c => [c.startDefectId, c]));
+
+    // Observations of one inspection: those linked by inspection ID, plus those that only name the pipe
+    const defectsFor = (inspection: InspectionRecord): DefectRecord[] => {
+      const id = String(inspection.inspectionId ?? '').trim();
+      const pipeRef = String(inspection.pipeSegmentReference ?? '').trim();
+      return [
+        ...(id ? defectsByInspectionId.get(id) || [] : []),
+        ...(pipeRef ? defectsByPipeSegRef.get(pipeRef) || [] : []).filter(d => !d.inspectionId),
+      ];
+    };
+    // A pipe-linked defect is shared by repeat inspections of its pipe; it is output once
+    const placedDefectIds = new Set<string>();
+
+    // Length_Surveyed correction: scale factor per inspection (1 when the mode is off or the survey was abandoned)
+    const scaledInspections = new Set<string>();
+    const flaggedInspections = new Set<string>();
+    const lengthScaleFor = (inspection: InspectionRecord | undefined, asset: SewerAsset, unit: DistanceUnit): LengthScale | null => {
+      if (!scaleToGisLength || !inspection) return null;
+      const id = String(inspection.inspectionId ?? '').trim();
+      const conditionCodes = defectsFor(inspection).map(d => d.defectCode);
+      const scale = calculateLengthScale(
+        asset,
+        inspection.lengthSurveyed,
+        unit,
+        surveyReachedFarManhole(inspection, conditionCodes),
+        scaleTolerance ?? 0.1
+      );
+      const key = id || String(inspection.pipeSegmentReference ?? '');
+      if (scale.applied) scaledInspections.add(key);
+      if (scale.outsideTolerance && !flaggedInspections.has(key)) {
+        flaggedInspections.add(key);
+        console.warn(`Inspection ${key}: GIS length ${scale.gisLengthMeters?.toFixed(2)} m vs surveyed ${scale.surveyedLengthMeters?.toFixed(2)} m is outside tolerance, distances left unscaled`);
+      }
+      return scale;
+    };
+    const scaleProperties = (scale: LengthScale | null) => ({
+      distanceScaleFactor: scale?.factor ?? 1,
+      distanceScaled: scale?.applied ?? false,
+      distanceScaleFlagged: scale?.outsideTolerance ?? false,
+      ...(scale
+        ? {
+            gisLengthMeters: scale.gisLengthMeters != null ? Math.round(scale.gisLengthMeters * 1000) / 1000 : null,
+            surveyedLengthMeters: scale.surveyedLengthMeters != null ? Math.round(scale.surveyedLengthMeters * 1000) / 1000 : null,
+            distanceScaleNote: scale.reason,
+          }
+        : {}),
+    });
+
+    // Repeat inspections of a pipe: each tap becomes one lateral, drawn from its most recent observation that places
+    let tapGroupByInspection = new Map<InspectionRecord, TapGroup<InspectionRecord>>();
+    const placedTapGroups = new Set<TapGroup<unknown>>();
+    let repeatObservationCount = 0;
+    if (dedupeTaps) {
+      const candidates: TapCandidate<InspectionRecord>[] = [];
+      for (const asset of assets) {
+        const fid = asset.properties?.FID || asset.properties?.fid || asset.properties?.Fid;
+        const assetKeyStr = String(fid ? String(fid).trim() :
+                                   (asset.properties?.id || asset.properties?.assetId || asset.properties?.ASSET_ID ||
+                                    `asset-${assets.indexOf(asset)}`)).trim();
+        for (const inspection of matchedInspections.get(assetKeyStr) || []) {
+          if (!inspection.tapDistance || inspection.clockPosition == null) continue;
+          // Compare taps in the GIS line's frame, in meters, after any Length_Surveyed correction
+          const { unit } = resolveInspectionUnits(inspection, unitsOverride);
+          const distance = distanceToMeters(inspection.tapDistance * (lengthScaleFor(inspection, asset, unit)?.factor ?? 1), unit);
+          const { reversed } = orientInspection(inspection, asset, manholeIndex);
+          candidates.push({
+            item: inspection,
+            assetId: assetKeyStr,
+            ...tapLinePosition(asset, reversed, distance, inspection.clockPosition),
+            inspectionId: inspection.inspectionId != null ? String(inspection.inspectionId).trim() : undefined,
+            inspectionDate: inspection.inspectionDate,
+          });
+        }
+      }
+      tapGroupByInspection = tapGroupsByItem(consolidateTaps(candidates, tapTolerance));
+    }
+
     // Process each asset with its inspections
     for (const asset of assets) {
       // Primary: Use FID from GeoJSON as the asset key (FID should match Pipe Segment Reference)
@@ -90,55 +400,97 @@ export async function POST(request: NextRequest) {
                         (asset.properties?.id || asset.properties?.assetId || assetKeyStr);
       console.log(`Processing ${assetInspections.length} inspections for asset: ${displayId}`);
       
-      for (const inspection of assetInspections) {
-        // Find defects associated with this inspection
-        const inspectionDefects: DefectRecord[] = [];
-        const inspectionId = inspection.properties?.Inspection_ID || inspection.properties?.InspectionID || 
-                            inspection.properties?.inspection_id || inspection.properties?.['Inspection ID'];
-        
-        if (inspectionId) {
-          const id = String(inspectionId).trim();
-          const defectsById = defectsByInspectionId.get(id) || defectsByInspectionId.get(id.toLowerCase()) || [];
-          inspectionDefects.push(...defectsById);
+      for (const inspection of tapGroupOrder(assetInspections, tapGroupByInspection)) {
+        // Measure distances from the manhole the camera started at
+        const orientation = orientInspection(inspection, asset, manholeIndex);
+        const surveyAsset = orientAsset(asset, orientation);
+        if (orientation.reversed) {
+          reversedCount++;
         }
-        
-        // Also try pipe segment reference
-        if (inspection.pipeSegmentReference) {
-          const ref = String(inspection.pipeSegmentReference).trim();
-          const defectsByRef = defectsByPipeSegRef.get(ref) || defectsByPipeSegRef.get(ref.toLowerCase()) || [];
-          // Avoid duplicates
-          for (const defect of defectsByRef) {
-            if (!inspectionDefects.find(d => d.id === defect.id)) {
-              inspectionDefects.push(defect);
-            }
-          }
+        // Distances are recorded in the inspection's units (IsImperial header unless overridden)
+        const { unit, source: unitsSource } = resolveInspectionUnits(inspection, unitsOverride);
+        if (unit === 'feet') {
+          imperialCount++;
         }
+        // Optional Length_Surveyed correction, applied to every distance along this pipe
+        const scale = lengthScaleFor(inspection, asset, unit);
+        const distanceScale = scale?.factor ?? 1;
+
+        // Find defects associated with this inspection
+        const inspectionDefects = defectsFor(inspection);
         
         // Process defects: calculate positions if they have distance/clock position
         for (const defect of inspectionDefects) {
+          if (placedDefectIds.has(defect.id)) continue;
+          placedDefectIds.add(defect.id);
           if (defect.distance !== undefined && defect.clockPosition !== undefined && defect.clockPosition >= 0) {
             try {
               const defectCoordinates = calculateLateralPosition(
-                asset,
-                defect.distance,
-                defect.clockPosition
+                surveyAsset,
+                defect.distance * distanceScale,
+                defect.clockPosition,
+                unit,
+                parameters.sideOffsetMeters
               ) as [number, number];
               
-              defect.coordinates = defectCoordinates;
-              processedDefects.push(defect);
+              const defectDistance = distanceInBothUnits(defect.distance, unit);
+              processedDefects.push({
+                ...defect,
+                coordinates: defectCoordinates,
+                properties: {
+                  ...defect.properties,
+                  distanceUnits: unit,
+                  distanceFeet: defectDistance.feet,
+                  distanceMeters: defectDistance.meters,
+                  distanceScaleFactor: distanceScale,
+                },
+              });
               defectCount++;
             } catch (error) {
               console.warn(`Error calculating defect position for defect ${defect.id}:`, error);
               // Still add defect without coordinates
-              processedDefects.push(defect);
+              processedDefects.push({ ...defect, properties: { ...defect.properties, distanceUnits: unit } });
               defectCount++;
             }
           } else {
             // Defect without position - still add it but use asset center or lateral position
-            processedDefects.push(defect);
+            processedDefects.push({ ...defect, properties: { ...defect.properties, distanceUnits: unit } });
             defectCount++;
           }
         }
+
+        // Continuous defects run along the mainline between their start and finish distances
+        for (const defect of inspectionDefects) {
+          const continuous = continuousByStart.get(defect.id);
+          if (!continuous || continuous.line) continue;
+          try {
+            const line = calculateLineSection(
+              surveyAsset,
+              continuous.startDistance * distanceScale,
+              continuous.endDistance * distanceScale,
+              unit
+            )
+              .map(p => validateCoordinates(p as [number, number]))
+              .filter((p): p is [number, number] => p !== null);
+            if (line.length < 2) continue;
+
+            const start = distanceInBothUnits(continuous.startDistance, unit);
+            const end = distanceInBothUnits(continuous.endDistance, unit);
+            continuous.line = line;
+            continuous.properties = {
+              ...continuous.properties,
+              distanceUnits: unit,
+              startDistanceFeet: start.feet,
+              startDistanceMeters: start.meters,
+              endDistanceFeet: end.feet,
+              endDistanceMeters: end.meters,
+              lengthMeters: Math.round(Math.abs(end.meters - start.meters) * 1000) / 1000,
+              distanceScaleFactor: distanceScale,
+            };
+          } catch (error) {
+            console.warn(`Error placing continuous defect ${continuous.id}:`, error);
+          }
+        }
         
         if (
           !inspection.tapDistance ||
@@ -150,16 +502,27 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // An older observation of a tap already drawn from a more recent inspection (defects above are kept)
+        const tapGroup = tapGroupByInspection.get(inspection);
+        if (tapGroup && placedTapGroups.has(tapGroup)) {
+          repeatObservationCount++;
+          continue;
+        }
+
         try {
           // Calculate lateral stub line (3ft perpendicular to mainline)
           let stubLine: [[number, number], [number, number]] | undefined;
           let connectionPoint: [number, number] | undefined;
+          let propertyLine: PropertyLineSplit | null = null;
           
           try {
             const stubResult = calculateLateralStub(
-              asset,
-              inspection.tapDistance,
-              inspection.clockPosition
+              surveyAsset,
+              inspection.tapDistance * distanceScale,
+              inspection.clockPosition,
+              parameters.stubLengthMeters,
+              unit,
+              parameters.defaultSide
             );
             
             // Validate connection point
@@ -176,6 +539,10 @@ export async function POST(request: NextRequest) {
             
             if (validatedStart && validatedEnd) {
               stubLine = [validatedStart, validatedEnd];
+              // Carry on past the stub to the property line when a parcel layer was given
+              if (parcelIndex) {
+                propertyLine = extendStubToPropertyLine(stubLine, parcelIndex, parameters.stubLengthMeters);
+              }
             } else {
               console.warn(`Invalid stub line coordinates for lateral`);
             }
@@ -186,9 +553,11 @@ export async function POST(request: NextRequest) {
           
           // Calculate lateral position (for backward compatibility and coordinates field)
           const coordinates = calculateLateralPosition(
-            asset,
-            inspection.tapDistance,
-            inspection.clockPosition
+            surveyAsset,
+            inspection.tapDistance * distanceScale,
+            inspection.clockPosition,
+            unit,
+            parameters.sideOffsetMeters
           ) as [number, number];
           
           // Validate coordinates are in WGS84 [lng, lat] format using shared validation function
@@ -201,20 +570,8 @@ export async function POST(request: NextRequest) {
           
           // Get asset reference point for creating line (for backward compatibility)
           let assetCoordinates: [number, number] | undefined;
-          let rawAssetCoords: [number, number] | null = null;
-          
-          if (asset.geometry.type === 'Point') {
-            rawAssetCoords = asset.geometry.coordinates as [number, number];
-          } else if (asset.geometry.type === 'LineString') {
-            if (asset.geometry.coordinates.length > 0) {
-              rawAssetCoords = asset.geometry.coordinates[0] as [number, number];
-            }
-          } else if (asset.geometry.type === 'MultiLineString') {
-            const firstLine = asset.geometry.coordinates[0];
-            if (firstLine && firstLine.length > 0) {
-              rawAssetCoords = firstLine[0] as [number, number];
-            }
-          }
+          // First vertex of the line; MultiLineString parts are chained in connection order
+          const rawAssetCoords = assetReferencePoint(asset);
           
           if (rawAssetCoords) {
             // Validate asset coordinates using shared validation function
@@ -226,23 +583,8 @@ export async function POST(request: NextRequest) {
             }
           }
 
-          // Reverse geocode to get address (with timeout to avoid hanging)
-          let address = 'Address not found';
-          let addressDetails = {};
-          
-          try {
-            const geocodingResult = await Promise.race([
-              reverseGeocode(validatedCoordinates[0], validatedCoordinates[1]),
-              new Promise<{ address: string; details: any }>((_, reject) => 
-                setTimeout(() => reject(new Error('Geocoding timeout')), 5000)
-              )
-            ]);
-            address = geocodingResult.address;
-            addressDetails = geocodingResult.details;
-          } catch (geocodeError) {
-            console.warn('Geocoding failed for lateral:', geocodeError);
-            // Continue without address
-          }
+          const tapDistances = distanceInBothUnits(inspection.tapDistance, unit);
+          const { fields: propertyLineGeometry, properties: propertyLineProperties } = propertyLineFields(propertyLine);
 
           const lateral: LateralInspection = {
             id: `lateral-${assetKeyStr}-${inspection.tapDistance}-${inspection.clockPosition}-${processedCount}`,
@@ -250,21 +592,34 @@ export async function POST(request: NextRequest) {
             assetCoordinates,
             connectionPoint,
             stubLine,
+            ...propertyLineGeometry,
             assetId: assetKeyStr,
             tapDistance: inspection.tapDistance,
             clockPosition: inspection.clockPosition,
-            address,
-            addressDetails,
             inspectionDate: inspection.inspectionDate,
             properties: {
               ...inspection,
               assetId: assetKeyStr,
               pipeSegmentReference: inspection.pipeSegmentReference,
               defectCount: inspectionDefects.length,
+              surveyReversed: orientation.reversed,
+              orientedBy: orientation.orientedBy,
+              units: unit,
+              unitsSource,
+              tapDistanceFeet: tapDistances.feet,
+              tapDistanceMeters: tapDistances.meters,
+              ...scaleProperties(scale),
+              ...parameters,
+              ...propertyLineProperties,
+              ...parcelJoinFields(validatedCoordinates, stubLine, propertyLine),
+              ...(tapGroup ? tapGroupProperties(tapGroup) : {}),
             },
           };
 
           laterals.push(lateral);
+          if (tapGroup) placedTapGroups.add(tapGroup);
+          // Reverse geocode to get address
+          fillAddress(lateral, validatedCoordinates, surveyAsset, stubLine?.[1]);
           processedCount++;
         } catch (error) {
           skippedCount++;
@@ -274,15 +629,175 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Draw surveyed laterals (LACP) from the mainline tap along the surveyed length
+    const surveyedTapIds = new Set<string>();
+    let lacpCount = 0;
+    if (lateralSurveys && lateralSurveys.length > 0) {
+      const linkedSurveys = linkLateralSurveys(lateralSurveys, inspections, defects || [], undefined, unitsOverride);
+
+      for (const survey of linkedSurveys) {
+        const assetIdStr = survey.pipeSegmentReference ? String(survey.pipeSegmentReference).trim() : '';
+        const asset = assets.find(a => {
+          const assetFid = a.properties?.FID || a.properties?.fid || a.properties?.Fid;
+          return assetFid && String(assetFid).trim() === assetIdStr;
+        });
+
+        if (!asset || survey.mainlineDistance == null) {
+          skippedCount++;
+          console.warn(`LACP survey ${survey.inspectionId} could not be linked to a mainline asset and tap`);
+          continue;
+        }
+
+        // LACP distances follow the survey's own IsImperial header unless overridden
+        const { unit: surveyUnit } = resolveInspectionUnits(survey, unitsOverride);
+        const tapDistance = survey.mainlineDistance;
+        const tapDistances = distanceInBothUnits(tapDistance, surveyUnit);
+        const clockPosition = survey.clockPosition ?? 12;
+        // Fall back to a 10 ft stub when the survey length is missing
+        const lateralLength = survey.lengthSurveyed != null ? distanceToMeters(survey.lengthSurveyed, surveyUnit) : 3.048;
+
+        // The tap distance comes from the mainline survey, so orient the pipe to that inspection
+        const mainInspection = survey.mainInspectionId ? inspectionsById.get(String(survey.mainInspectionId).trim()) : undefined;
+        const orientation = mainInspection
+          ? orientInspection(mainInspection, asset, manholeIndex)
+          : { reversed: false, orientedBy: 'default' as const };
+        // The mainline distance is scaled with the mainline inspection; the lateral length is not
+        const scale = lengthScaleFor(mainInspection, asset, resolveInspectionUnits(mainInspection, unitsOverride).unit);
+
+        try {
+          const { connectionPoint: rawConnection, line } = calculateLateralPolyline(
+            orientAsset(asset, orientation),
+            distanceToMeters(tapDistance, surveyUnit) * (scale?.factor ?? 1),
+            clockPosition,
+            lateralLength,
+            getLateralBends(survey, surveyUnit),
+            parameters.defaultSide
+          );
+
+          const lateralLine = line
+            .map(p => validateCoordinates(p as [number, number]))
+            .filter((p): p is [number, number] => p !== null);
+          const connectionPoint = validateCoordinates(rawConnection as [number, number]) ?? undefined;
+          if (lateralLine.length < 2) {
+            console.warn(`Invalid lateral line for LACP survey ${survey.inspectionId}`);
+            skippedCount++;
+            continue;
+          }
+          const endPoint = lateralLine[lateralLine.length - 1];
+          // The surveyed path is split where it crosses into the parcel
+          const lateralSplit = parcelIndex ? splitAtPropertyLine(lateralLine, parcelIndex) : null;
+          const { fields: propertyLineGeometry, properties: propertyLineProperties } = propertyLineFields(lateralSplit);
+
+          const lateral: LateralInspection = {
+            id: `lateral-lacp-${assetIdStr}-${survey.inspectionId}`,
+            coordinates: endPoint,
+            connectionPoint,
+            lateralLine,
+            ...propertyLineGeometry,
+            assetId: assetIdStr,
+            tapDistance,
+            clockPosition,
+            inspectionDate: survey.inspectionDate,
+            properties: {
+              source: 'lacp',
+              inspectionId: survey.inspectionId,
+              lateralSegmentReference: survey.lateralSegmentReference,
+              mainInspectionId: survey.mainInspectionId,
+              pipeSegmentReference: survey.pipeSegmentReference,
+              tapDefectId: survey.tapDefectId,
+              lengthSurveyed: survey.lengthSurveyed,
+              lateralLengthMeters: lateralLength,
+              lateralLengthFeet: distanceInBothUnits(lateralLength, 'meters').feet,
+              units: surveyUnit,
+              tapDistanceFeet: tapDistances.feet,
+              tapDistanceMeters: tapDistances.meters,
+              surveyReversed: orientation.reversed,
+              orientedBy: orientation.orientedBy,
+              ...scaleProperties(scale),
+              ...parameters,
+              ...propertyLineProperties,
+              ...parcelJoinFields(endPoint, [lateralLine[0], lateralLine[1]], lateralSplit),
+              accessPoint: survey.accessPoint,
+              observationCount: survey.observations.length,
+              observations: survey.observations
+                .map(o => `${o.defectCode ?? ''}${o.distance != null ? `@${o.distance}` : ''}`)
+                .join(', '),
+            },
+          };
+          laterals.push(lateral);
+          fillAddress(lateral, endPoint, asset, endPoint);
+
+          if (survey.tapDefectId) {
+            surveyedTapIds.add(`tap-${survey.tapDefectId}`);
+          }
+          lacpCount++;
+          processedCount++;
+        } catch (error) {
+          skippedCount++;
+          console.error(`Error drawing LACP lateral ${survey.inspectionId}:`, error);
+        }
+      }
+
+      console.log(`Drew ${lacpCount} of ${lateralSurveys.length} LACP laterals`);
+    }
+
     // Convert taps to laterals if provided
     if (taps && taps.length > 0 && lateralLayerName) {
       console.log(`Converting ${taps.length} taps to laterals with layer name: ${lateralLayerName}`);
-      
-      for (let i = 0; i < taps.length; i++) {
-        const tap = taps[i];
+
+      // Repeat inspections: one lateral per tap, from its most recent observation that places
+      let tapGroupByTap = new Map<TapInspection, TapGroup<TapInspection>>();
+      const surveyedRepeatTaps = new Set<TapInspection>();
+      if (dedupeTaps) {
+        const candidates: TapCandidate<TapInspection>[] = [];
+        for (const tap of taps) {
+          const assetIdStr = tap.assetId ? String(tap.assetId).trim() : '';
+          const asset = assetIdStr ? assets.find(a => {
+            const assetFid = a.properties?.FID || a.properties?.fid || a.properties?.Fid;
+            return assetFid && String(assetFid).trim() === assetIdStr;
+          }) : undefined;
+          if (!asset) continue;
+          const tapInspection = tap.inspectionId ? inspectionsById.get(String(tap.inspectionId).trim()) : undefined;
+          const { unit } = resolveInspectionUnits(tapInspection, unitsOverride);
+          const distance = distanceToMeters(tap.distance * (lengthScaleFor(tapInspection, asset, unit)?.factor ?? 1), unit);
+          const reversed = tapInspection ? orientInspection(tapInspection, asset, manholeIndex).reversed : false;
+          candidates.push({
+            item: tap,
+            assetId: assetIdStr,
+            ...tapLinePosition(asset, reversed, distance, tap.clockPosition),
+            inspectionId: tap.inspectionId != null ? String(tap.inspectionId).trim() : undefined,
+            inspectionDate: tap.inspectionDate ?? tapInspection?.inspectionDate,
+          });
+        }
+        const groups = consolidateTaps(candidates, tapTolerance).filter(group => {
+          // A tap surveyed by LACP in any inspection is already drawn from the survey
+          if (group.members.some(member => surveyedTapIds.has(member.item.id))) {
+            group.members.forEach(member => surveyedRepeatTaps.add(member.item));
+            return false;
+          }
+          return true;
+        });
+        tapGroupByTap = tapGroupsByItem(groups);
+      }
+
+      const tapIndex = new Map(taps.map((tap, i) => [tap, i]));
+      for (const tap of tapGroupOrder(taps, tapGroupByTap)) {
+        const i = tapIndex.get(tap)!;
+
+        // Taps with a surveyed lateral were already drawn in full from the LACP data
+        if (surveyedTapIds.has(tap.id)) {
+          continue;
+        }
+
+        // An older observation of a tap drawn from a more recent inspection
+        const tapGroup = tapGroupByTap.get(tap);
+        if (surveyedRepeatTaps.has(tap) || (tapGroup && placedTapGroups.has(tapGroup))) {
+          repeatObservationCount++;
+          continue;
+        }
         
         // Validate and fix coordinates using shared validation function
-        const validatedCoordinates = validateCoordinates(tap.coordinates);
+        let validatedCoordinates = validateCoordinates(tap.coordinates);
         if (!validatedCoordinates) {
           console.warn(`Invalid coordinates for tap lateral: ${tap.coordinates}`);
           continue;
@@ -292,6 +807,14 @@ export async function POST(request: NextRequest) {
         let assetCoordinates: [number, number] | undefined;
         let stubLine: [[number, number], [number, number]] | undefined;
         let connectionPoint: [number, number] | undefined;
+        let surveyReversed: boolean | undefined;
+        // Tap distances come straight from the defect, in the tap inspection's units
+        const tapInspection = tap.inspectionId ? inspectionsById.get(String(tap.inspectionId).trim()) : undefined;
+        const { unit, source: unitsSource } = resolveInspectionUnits(tapInspection, unitsOverride);
+        const tapDistances = distanceInBothUnits(tap.distance, unit);
+        let scale: LengthScale | null = null;
+        let propertyLine: PropertyLineSplit | null = null;
+        let tapAsset: SewerAsset | undefined;
         
         if (tap.assetId) {
           const assetIdStr = String(tap.assetId).trim();
@@ -301,12 +824,19 @@ export async function POST(request: NextRequest) {
           });
           
           if (asset) {
-            // Calculate stub line for tap-based lateral
+            tapAsset = asset;
+            // Calculate stub line for tap-based lateral, measured from the manhole the camera started at
+            const orientation = tapInspection ? orientInspection(tapInspection, asset, manholeIndex) : null;
+            surveyReversed = orientation?.reversed;
+            scale = lengthScaleFor(tapInspection, asset, unit);
             try {
               const stubResult = calculateLateralStub(
-                asset,
-                tap.distance,
-                tap.clockPosition
+                orientation ? orientAsset(asset, orientation) : asset,
+                tap.distance * (scale?.factor ?? 1),
+                tap.clockPosition,
+                parameters.stubLengthMeters,
+                unit,
+                parameters.defaultSide
               );
               
               // Validate connection point
@@ -321,26 +851,27 @@ export async function POST(request: NextRequest) {
               
               if (validatedStart && validatedEnd) {
                 stubLine = [validatedStart, validatedEnd];
+                if (parcelIndex) {
+                  propertyLine = extendStubToPropertyLine(stubLine, parcelIndex, parameters.stubLengthMeters);
+                }
+              }
+
+              // The map placed the tap at the unscaled distance; move it with the stub
+              if (scale?.applied) {
+                validatedCoordinates = validateCoordinates(calculateLateralPosition(
+                  orientation ? orientAsset(asset, orientation) : asset,
+                  tap.distance * scale.factor,
+                  tap.clockPosition,
+                  unit,
+                  parameters.sideOffsetMeters
+                ) as [number, number]) ?? validatedCoordinates;
               }
             } catch (stubError) {
               console.warn(`Error calculating stub line for tap lateral:`, stubError);
             }
             
             // Get asset reference point (for backward compatibility)
-            let rawAssetCoords: [number, number] | null = null;
-            
-            if (asset.geometry.type === 'Point') {
-              rawAssetCoords = asset.geometry.coordinates as [number, number];
-            } else if (asset.geometry.type === 'LineString') {
-              if (asset.geometry.coordinates.length > 0) {
-                rawAssetCoords = asset.geometry.coordinates[0] as [number, number];
-              }
-            } else if (asset.geometry.type === 'MultiLineString') {
-              const firstLine = asset.geometry.coordinates[0];
-              if (firstLine && firstLine.length > 0) {
-                rawAssetCoords = firstLine[0] as [number, number];
-              }
-            }
+            const rawAssetCoords = assetReferencePoint(asset);
             
             if (rawAssetCoords) {
               // Validate asset coordinates using shared validation function
@@ -354,56 +885,109 @@ export async function POST(request: NextRequest) {
           }
         }
         
+        const { fields: propertyLineGeometry, properties: propertyLineProperties } = propertyLineFields(propertyLine);
+        // The map geocoded the tap where it drew it; with an address layer, look it up again at the final position
+        const { address, addressDetails } = addressIndex
+          ? await lateralAddress(validatedCoordinates, tapAsset, stubLine?.[1])
+          : { address: tap.address, addressDetails: tap.addressDetails };
         const lateral: LateralInspection = {
           id: `lateral-tap-${lateralLayerName}-${i}`,
           coordinates: validatedCoordinates,
           assetCoordinates,
           connectionPoint,
           stubLine,
+          ...propertyLineGeometry,
           assetId: tap.assetId,
           tapDistance: tap.distance,
           clockPosition: tap.clockPosition,
-          address: tap.address,
-          addressDetails: tap.addressDetails,
+          address,
+          addressDetails,
           inspectionDate: tap.inspectionDate,
           properties: {
             layerName: lateralLayerName,
-            pipeSegmentReference: tap.address, // Use address as lateral segment reference
+            pipeSegmentReference: address, // Use address as lateral segment reference
             defectCode: tap.defectCode,
             inspectionId: tap.inspectionId,
             originalPipeSegmentReference: tap.pipeSegmentReference, // Keep original for reference
             source: 'tap',
+            surveyReversed,
+            units: unit,
+            unitsSource,
+            tapDistanceFeet: tapDistances.feet,
+            tapDistanceMeters: tapDistances.meters,
             ...tap.properties,
+            ...scaleProperties(scale),
+            ...parameters,
+            ...propertyLineProperties,
+            ...parcelJoinFields(validatedCoordinates, stubLine, propertyLine),
+            ...(tapGroup ? tapGroupProperties(tapGroup) : {}),
           },
         };
         
         laterals.push(lateral);
+        if (tapGroup) placedTapGroups.add(tapGroup);
         processedCount++;
       }
       
       console.log(`Converted ${taps.length} taps to laterals`);
     }
 
-    console.log(`Processed ${processedCount} laterals, ${defectCount} defects, skipped ${skippedCount}`);
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.all(addressLookups),
+      new Promise<void>((resolve) => {
+        deadlineTimer = setTimeout(resolve, Math.max(GEOCODING_DEADLINE_MS - (Date.now() - receivedAt), 0));
+      }),
+    ]);
+    clearTimeout(deadlineTimer);
+    const geocodingTimedOutCount = awaitingAddress.size;
+    if (geocodingTimedOutCount > 0) {
+      console.warn(`Geocoding deadline passed with ${geocodingTimedOutCount} laterals still waiting; left as 'Address not found'`);
+      awaitingAddress.forEach((lateral) => {
+        lateral.address = 'Address not found';
+        lateral.addressDetails = {};
+      });
+      awaitingAddress.clear();
+    }
+    if (!addressIndex && addressLookups.length > 0) {
+      console.log(`Geocoded ${addressLookups.length - geocodingTimedOutCount} of ${addressLookups.length} laterals:`, geocodingQueueStats());
+    }
+
+    console.log(`Processed ${processedCount} laterals, ${defectCount} defects, skipped ${skippedCount} (${reversedCount} inspections ran against the line direction)`);
 
     const processedData: ProcessedData = {
       assets,
       inspections,
       laterals,
       defects: processedDefects,
+      continuousDefects,
     };
 
     return NextResponse.json({
       success: true,
       data: processedData,
+      parameters,
       stats: {
         assetsCount: assets.length,
         inspectionsCount: inspections.length,
         lateralsCount: laterals.length,
         defectsCount: defectCount,
+        continuousDefectsCount: continuousDefects.filter(c => c.line).length,
         processedCount,
         skippedCount,
         tapBasedLateralsCount: taps && taps.length > 0 ? taps.length : 0,
+        lacpLateralsCount: lacpCount,
+        reversedInspectionsCount: reversedCount,
+        imperialInspectionsCount: imperialCount,
+        scaledInspectionsCount: scaledInspections.size,
+        scaleFlaggedInspectionsCount: flaggedInspections.size,
+        propertyLineLateralsCount: propertyLineCount,
+        parcelJoinedLateralsCount: parcelIndex ? parcelJoinCount : undefined,
+        unchainedLineAssetsCount: assets.filter(a => mergedAssetPath(a)?.chained === false).length,
+        repeatTapObservationsCount: repeatObservationCount,
+        orientedPointAssetsCount: assets.filter(a => a.geometry.type === 'Point' && pointPipeBearing(a) != null).length,
+        addressPointMatchesCount: addressIndex ? addressPointMatchCount : undefined,
+        geocodingTimedOutCount,
       },
     });
   } catch (error) {
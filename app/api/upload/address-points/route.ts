@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { handleLayerUpload } from '@/lib/parsers/layerUpload';
+import { parseAddressPoints } from '@/lib/parsers/addressPointParser';
+
+// Note: Vercel body size limits:
+// - Pro/Enterprise plan: 50MB (configured)
+// These limits cannot be configured and apply to the entire request body.
+export const maxDuration = 30;
+
+/**
+ * Address-point layer (GeoJSON or zipped Shapefile), used to geocode laterals and taps offline
+ */
+export async function POST(request: NextRequest) {
+  return handleLayerUpload(request, {
+    label: 'Address point layer',
+    responseKey: 'addressPoints',
+    emptyMessage: 'No address points found. Make sure the layer contains Point features with an address, or number and street name, column.',
+    parse: (collection) => {
+      const { addressPoints, fields } = parseAddressPoints(collection);
+      return { features: addressPoints, fields: { fields } };
+    },
+  });
+}
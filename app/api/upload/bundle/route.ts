@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  applyDefaultUnits,
+  mergeBundleDatabases,
+  readBundleAssets,
+  readBundleDatabase,
+  readProjectBundle,
+  stubLengthMeters,
+  BundleInspectionData,
+  ProjectBundle,
+} from '@/lib/parsers/projectBundle';
+import { assetsToWGS84, detectSourceCRS, SourceCRS } from '@/lib/utils/projection';
+import { isRotationConvention, orientPointAssets } from '@/lib/utils/pointOrientation';
+import { SewerAsset } from '@/lib/types';
+
+// Note: Vercel body size limits:
+// - Pro/Enterprise plan: 50MB (configured)
+// These limits cannot be configured and apply to the entire request body.
+export const runtime = 'nodejs'; // mdb-reader, sql.js and mdbtools need the Node runtime
+export const maxDuration = 60;
+
+/**
+ * Project bundle upload: one .zip with the asset layer, one or more PACP databases
+ * and an optional settings.json. Returns the assets and inspection records in one response.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const file = form.get('file') as File;
+    // Optional user-selected EPSG code, overrides settings.json and any CRS declared in the layer
+    const epsg = (form.get('epsg') as string | null) || null;
+    // Optional convention of point symbol rotation attributes, overrides settings.json
+    const rotation = (form.get('rotation') as string | null) || null;
+    if (rotation && !isRotationConvention(rotation)) {
+      return NextResponse.json(
+        { error: 'rotation must be "geographic" or "arithmetic"' },
+        { status: 400 }
+      );
+    }
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Check file size (limit to 48MB to account for FormData overhead)
+    const maxSize = 48 * 1024 * 1024;
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: `File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum file size is 48MB to account for upload overhead.` },
+        { status: 400 }
+      );
+    }
+
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+      return NextResponse.json(
+        { error: 'Project bundle must be a .zip file' },
+        { status: 400 }
+      );
+    }
+
+    let bundle: ProjectBundle;
+    try {
+      bundle = await readProjectBundle(Buffer.from(await file.arrayBuffer()));
+    } catch (bundleError) {
+      return NextResponse.json(
+        { error: 'Failed to read project bundle', details: (bundleError as Error).message },
+        { status: 400 }
+      );
+    }
+
+    let assets: SewerAsset[];
+    let assetLayerName: string;
+    let sourceCrs: SourceCRS | null;
+    try {
+      const layer = await readBundleAssets(bundle.assetFile);
+      assetLayerName = layer.layerName;
+      sourceCrs = detectSourceCRS({
+        epsg: epsg || bundle.settings.epsg || layer.epsg,
+        prj: layer.prj,
+        geojson: layer.geojson,
+      });
+      // Point assets get a pipe direction so their clock positions are read relative to the pipe
+      const rotationConvention = rotation || bundle.settings.rotation;
+      assets = orientPointAssets(assetsToWGS84(layer.assets, sourceCrs), {
+        rotation: isRotationConvention(rotationConvention) ? rotationConvention : null,
+      });
+    } catch (assetError) {
+      return NextResponse.json(
+        { error: `Failed to read asset layer ${bundle.assetFile.name}`, details: (assetError as Error).message },
+        { status: 400 }
+      );
+    }
+
+    if (assets.length === 0) {
+      return NextResponse.json(
+        { error: `No valid features found in asset layer ${bundle.assetFile.name}. Make sure it contains Point or LineString features.` },
+        { status: 400 }
+      );
+    }
+
+    // Databases are read one at a time to keep memory down on large bundles
+    const databases: Array<{ name: string; data: BundleInspectionData }> = [];
+    const databaseSummaries: Array<{ name: string; reader: string; count: number; defectCount: number }> = [];
+    for (const database of bundle.databases) {
+      try {
+        const { reader, ...data } = await readBundleDatabase(database);
+        applyDefaultUnits(data, bundle.settings.units);
+        databases.push({ name: database.name, data });
+        databaseSummaries.push({ name: database.name, reader, count: data.inspections.length, defectCount: data.defects.length });
+      } catch (databaseError) {
+        return NextResponse.json(
+          {
+            error: `Failed to parse inspection database ${database.name}`,
+            details: (databaseError as Error).message,
+            suggestion: 'Make sure the database is not corrupted and contains PACP_Inspections and PACP_Conditions tables.',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { inspections, defects, lateralSurveys, manholeInspections } = mergeBundleDatabases(databases);
+
+    console.log('Project bundle parsed successfully:', {
+      settingsFile: bundle.settingsFile,
+      settings: bundle.settings,
+      assetLayer: bundle.assetFile.name,
+      assetsCount: assets.length,
+      databases: databaseSummaries,
+      inspectionsCount: inspections.length,
+      defectsCount: defects.length,
+      lateralSurveysCount: lateralSurveys.length,
+      manholeInspectionsCount: manholeInspections.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      settings: { ...bundle.settings, stubLengthMeters: stubLengthMeters(bundle.settings) },
+      assets,
+      layerName: assetLayerName,
+      crs: sourceCrs ? { source: sourceCrs.source, code: sourceCrs.code, name: sourceCrs.name } : null,
+      inspections,
+      defects,
+      lateralSurveys,
+      manholeInspections,
+      databases: databaseSummaries,
+      count: inspections.length,
+      assetCount: assets.length,
+      defectCount: defects.length,
+      lateralSurveyCount: lateralSurveys.length,
+      manholeInspectionCount: manholeInspections.length,
+    });
+  } catch (error) {
+    console.error('Project bundle upload error:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to process project bundle' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { handleLayerUpload } from '@/lib/parsers/layerUpload';
+import { parseExistingLaterals } from '@/lib/parsers/existingLateralParser';
+
+// Note: Vercel body size limits:
+// - Pro/Enterprise plan: 50MB (configured)
+// These limits cannot be configured and apply to the entire request body.
+export const maxDuration = 30;
+
+/**
+ * Existing service lateral layer (GeoJSON or zipped Shapefile), used to reconcile the computed laterals
+ */
+export async function POST(request: NextRequest) {
+  return handleLayerUpload(request, {
+    label: 'Lateral layer',
+    responseKey: 'laterals',
+    emptyMessage: 'No laterals found. Make sure the layer contains Point, LineString or MultiLineString features.',
+    parse: (collection) => {
+      const { laterals, ...fields } = parseExistingLaterals(collection);
+      return { features: laterals, fields };
+    },
+  });
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { parseGeoJSON, validateGeoJSON } from '@/lib/parsers/geojsonParser';
+import { parseShapefileZip } from '@/lib/parsers/shapefileParser';
+import { parseKml, parseKmz } from '@/lib/parsers/kmlParser';
+import { geoPackageCrsHints, listGeoPackageLayers, readGeoPackageLayer } from '@/lib/parsers/geopackageParser';
+import { assetsToWGS84, detectSourceCRS, SourceCRS } from '@/lib/utils/projection';
+import { isRotationConvention, orientPointAssets, RotationConvention } from '@/lib/utils/pointOrientation';
+import { SewerAsset } from '@/lib/types';
 
 // Note: Vercel body size limits:
 // - Pro/Enterprise plan: 50MB (configured)
@@ -10,6 +16,18 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    // Optional user-selected EPSG code, overrides any CRS declared in the file
+    const epsg = (formData.get('epsg') as string | null) || null;
+    // Optional convention of point symbol rotation attributes (geographic or arithmetic degrees)
+    const rotationValue = (formData.get('rotation') as string | null) || null;
+
+    if (rotationValue && !isRotationConvention(rotationValue)) {
+      return NextResponse.json(
+        { error: 'rotation must be "geographic" or "arithmetic"' },
+        { status: 400 }
+      );
+    }
+    const rotation = rotationValue as RotationConvention | null;
 
     if (!file) {
       return NextResponse.json(
@@ -30,9 +48,19 @@ export async function POST(request: NextRequest) {
 
     // Check file extension
     const fileName = file.name.toLowerCase();
+    if (fileName.endsWith('.zip')) {
+      return handleShapefileZip(file, formData.get('layer') as string | null, epsg, rotation);
+    }
+    if (fileName.endsWith('.kml') || fileName.endsWith('.kmz')) {
+      return handleKml(file, rotation);
+    }
+    if (fileName.endsWith('.gpkg')) {
+      return handleGeoPackage(file, formData.get('layer') as string | null, epsg, rotation);
+    }
+
     if (!fileName.endsWith('.geojson') && !fileName.endsWith('.json')) {
       return NextResponse.json(
-        { error: `File must be a GeoJSON file (.geojson or .json). Received: ${file.name}` },
+        { error: `File must be a GeoJSON file (.geojson or .json), a zipped Shapefile (.zip), KML/KMZ, or a GeoPackage (.gpkg). Received: ${file.name}` },
         { status: 400 }
       );
     }
@@ -62,8 +90,10 @@ export async function POST(request: NextRequest) {
     }
 
     let assets;
+    let geojson;
     try {
-      assets = parseGeoJSON(text);
+      geojson = JSON.parse(text);
+      assets = parseGeoJSON(geojson);
     } catch (parseError) {
       console.error('GeoJSON parse error:', parseError);
       return NextResponse.json(
@@ -79,10 +109,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let sourceCrs: SourceCRS | null;
+    try {
+      sourceCrs = detectSourceCRS({ epsg, geojson });
+      // Point assets get a pipe direction so their clock positions are read relative to the pipe
+      assets = orientPointAssets(assetsToWGS84(assets, sourceCrs), { rotation });
+    } catch (crsError) {
+      return NextResponse.json(
+        { error: (crsError as Error).message },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       assets,
       count: assets.length,
+      crs: sourceCrs ? { source: sourceCrs.source, code: sourceCrs.code, name: sourceCrs.name } : null,
     });
   } catch (error) {
     console.error('GeoJSON upload error:', error);
@@ -94,3 +137,134 @@ export async function POST(request: NextRequest) {
   }
 }
 
+
+async function handleShapefileZip(file: File, layerName: string | null, epsg: string | null, rotation: RotationConvention | null) {
+  let layer;
+  let sourceCrs: SourceCRS | null;
+  try {
+    const bytes = Buffer.from(await file.arrayBuffer());
+    layer = await parseShapefileZip(bytes, { layerName: layerName || undefined });
+    sourceCrs = detectSourceCRS({ epsg, prj: layer.prj });
+    layer.assets = orientPointAssets(assetsToWGS84(layer.assets, sourceCrs), { rotation });
+  } catch (parseError) {
+    console.error('Shapefile parse error:', parseError);
+    return NextResponse.json(
+      { error: `Failed to parse Shapefile: ${(parseError as Error).message}` },
+      { status: 400 }
+    );
+  }
+
+  if (layer.assets.length === 0) {
+    return NextResponse.json(
+      { error: `No valid features found in Shapefile "${layer.name}". Make sure it contains Point or PolyLine features.` },
+      { status: 400 }
+    );
+  }
+
+  console.log(`Parsed Shapefile "${layer.name}": ${layer.assets.length} assets (DBF encoding: ${layer.encoding})`);
+
+  return NextResponse.json({
+    success: true,
+    assets: layer.assets,
+    count: layer.assets.length,
+    layerName: layer.name,
+    encoding: layer.encoding,
+    crs: sourceCrs ? { source: sourceCrs.source, code: sourceCrs.code, name: sourceCrs.name } : null,
+  });
+}
+
+async function handleKml(file: File, rotation: RotationConvention | null) {
+  let assets: SewerAsset[];
+  try {
+    assets = file.name.toLowerCase().endsWith('.kmz')
+      ? await parseKmz(Buffer.from(await file.arrayBuffer()))
+      : parseKml(await file.text());
+    assets = orientPointAssets(assets, { rotation });
+  } catch (parseError) {
+    console.error('KML parse error:', parseError);
+    return NextResponse.json(
+      { error: `Failed to parse KML/KMZ: ${(parseError as Error).message}` },
+      { status: 400 }
+    );
+  }
+
+  if (assets.length === 0) {
+    return NextResponse.json(
+      { error: 'No valid features found in KML. Make sure it contains Placemarks with Point or LineString geometry.' },
+      { status: 400 }
+    );
+  }
+
+  // KML is always WGS84 longitude/latitude
+  return NextResponse.json({
+    success: true,
+    assets,
+    count: assets.length,
+    crs: null,
+  });
+}
+
+async function handleGeoPackage(file: File, layerName: string | null, epsg: string | null, rotation: RotationConvention | null) {
+  const bytes = Buffer.from(await file.arrayBuffer());
+
+  // Without a chosen layer, list the feature tables so the user can pick the gravity mains
+  if (!layerName) {
+    let layers;
+    try {
+      layers = await listGeoPackageLayers(bytes);
+    } catch (parseError) {
+      console.error('GeoPackage parse error:', parseError);
+      return NextResponse.json(
+        { error: `Failed to read GeoPackage: ${(parseError as Error).message}` },
+        { status: 400 }
+      );
+    }
+
+    if (layers.length === 0) {
+      return NextResponse.json(
+        { error: 'GeoPackage has no feature tables.' },
+        { status: 400 }
+      );
+    }
+    if (layers.length > 1) {
+      return NextResponse.json({
+        success: true,
+        needsLayer: true,
+        layers,
+      });
+    }
+    layerName = layers[0].tableName;
+  }
+
+  let result;
+  let sourceCrs: SourceCRS | null;
+  try {
+    result = await readGeoPackageLayer(bytes, layerName);
+    // Reproject using the table's srs_id
+    const hints = geoPackageCrsHints(result.srs);
+    sourceCrs = detectSourceCRS({ epsg: epsg || hints.epsg, prj: hints.prj });
+    result.assets = orientPointAssets(assetsToWGS84(result.assets, sourceCrs), { rotation });
+  } catch (parseError) {
+    console.error('GeoPackage parse error:', parseError);
+    return NextResponse.json(
+      { error: `Failed to read GeoPackage layer: ${(parseError as Error).message}` },
+      { status: 400 }
+    );
+  }
+
+  if (result.assets.length === 0) {
+    return NextResponse.json(
+      { error: `No valid features found in GeoPackage layer "${result.layer.tableName}". Make sure it contains Point or LineString features.` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    assets: result.assets,
+    count: result.assets.length,
+    layerName: result.layer.tableName,
+    srsId: result.layer.srsId,
+    crs: sourceCrs ? { source: sourceCrs.source, code: sourceCrs.code, name: sourceCrs.name } : null,
+  });
+}
@@ -5,6 +5,7 @@ import { tmpdir } from 'os';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { TableInfo } from '@/lib/types';
+import { parseMDBFile } from '@/lib/parsers/mdbParser';
 
 const execAsync = promisify(exec);
 
@@ -40,20 +41,48 @@ function parseCSVLine(line: string): string[] {
   return result;
 }
 
+/**
+ * Classify a table's columns into inspection- and defect-related fields
+ */
+function describeTable(
+  tableName: string,
+  headers: string[],
+  rowCount: number,
+  sampleRow?: Record<string, any>
+): TableInfo {
+  // Identify inspection and defect fields
+  const inspectionPatterns = [
+    /pipe|segment|ref|tap|distance|clock|position|inspection|asset|fid|station/i,
+  ];
+  const defectPatterns = [
+    /defect|code|grade|severity|condition|damage|break|crack|root|infiltration/i,
+  ];
+  
+  const inspectionFields = headers.filter(h => 
+    inspectionPatterns.some(pattern => pattern.test(h))
+  );
+  const defectFields = headers.filter(h => 
+    defectPatterns.some(pattern => pattern.test(h))
+  );
+  
+  return {
+    name: tableName,
+    columnCount: headers.length,
+    rowCount,
+    columns: headers.slice(0, 20), // First 20 columns
+    sampleRow,
+    inspectionFields,
+    defectFields,
+  };
+}
+
 async function analyzeTable(mdbPath: string, tableName: string): Promise<TableInfo> {
   try {
     const { stdout } = await execAsync(`mdb-export -H "${mdbPath}" "${tableName}"`);
     const lines = stdout.trim().split('\n');
     
     if (lines.length < 1) {
-      return {
-        name: tableName,
-        columnCount: 0,
-        rowCount: 0,
-        columns: [],
-        inspectionFields: [],
-        defectFields: [],
-      };
+      return describeTable(tableName, [], 0);
     }
     
     const headers = parseCSVLine(lines[0]);
@@ -71,39 +100,26 @@ async function analyzeTable(mdbPath: string, tableName: string): Promise<TableIn
       });
     }
     
-    // Identify inspection and defect fields
-    const inspectionPatterns = [
-      /pipe|segment|ref|tap|distance|clock|position|inspection|asset|fid|station/i,
-    ];
-    const defectPatterns = [
-      /defect|code|grade|severity|condition|damage|break|crack|root|infiltration/i,
-    ];
-    
-    const inspectionFields = headers.filter(h => 
-      inspectionPatterns.some(pattern => pattern.test(h))
-    );
-    const defectFields = headers.filter(h => 
-      defectPatterns.some(pattern => pattern.test(h))
-    );
-    
-    return {
-      name: tableName,
-      columnCount: headers.length,
-      rowCount: dataRows.length,
-      columns: headers.slice(0, 20), // First 20 columns
-      sampleRow,
-      inspectionFields,
-      defectFields,
-    };
+    return describeTable(tableName, headers, dataRows.length, sampleRow);
   } catch (error) {
-    return {
-      name: tableName,
-      columnCount: 0,
-      rowCount: 0,
-      columns: [],
-      inspectionFields: [],
-      defectFields: [],
-    };
+    return describeTable(tableName, [], 0);
+  }
+}
+
+/**
+ * Analyze every table in-process; only the schema and first row of each table are read
+ */
+async function analyzeTablesInProcess(buffer: Buffer): Promise<TableInfo[]> {
+  const tables = await parseMDBFile(buffer, { rowLimit: 1 });
+  return tables.map((table) => describeTable(table.name, table.columns, table.rowCount, table.rows[0]));
+}
+
+async function hasMdbTools(): Promise<boolean> {
+  try {
+    await execAsync('which mdb-tables');
+    return true;
+  } catch {
+    return false;
   }
 }
 
@@ -145,29 +161,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Save file to temp directory
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
-    tempFilePath = join(tmpdir(), `mdb-diagnose-${Date.now()}-${Math.random().toString(36).substring(7)}.mdb`);
-    await writeFile(tempFilePath, buffer);
 
-    // List all tables
-    const tables = await listTables(tempFilePath);
-    
-    if (tables.length === 0) {
+    // Analyze each table in-process; fall back to mdbtools only if it is installed
+    let tableInfos: TableInfo[];
+    try {
+      tableInfos = await analyzeTablesInProcess(buffer);
+    } catch (readerError) {
+      if (!(await hasMdbTools())) {
+        throw readerError;
+      }
+      console.warn('In-process MDB reader failed, falling back to mdbtools:', (readerError as Error).message);
+
+      // Save file to temp directory
+      tempFilePath = join(tmpdir(), `mdb-diagnose-${Date.now()}-${Math.random().toString(36).substring(7)}.mdb`);
+      await writeFile(tempFilePath, buffer);
+
+      // List all tables
+      const tables = await listTables(tempFilePath);
+      tableInfos = [];
+      for (const tableName of tables) {
+        const info = await analyzeTable(tempFilePath, tableName);
+        tableInfos.push(info);
+      }
+    }
+
+    if (tableInfos.length === 0) {
       return NextResponse.json(
         { error: 'No tables found in MDB file' },
         { status: 400 }
       );
     }
 
-    // Analyze each table
-    const tableInfos: TableInfo[] = [];
-    for (const tableName of tables) {
-      const info = await analyzeTable(tempFilePath, tableName);
-      tableInfos.push(info);
-    }
-
     // Calculate scores for each table
     const scoredTables = tableInfos.map(table => {
       let score = 0;
@@ -196,7 +222,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       tables: scoredTables,
-      totalTables: tables.length,
+      totalTables: tableInfos.length,
       recommendedTable: scoredTables[0]?.name,
       candidateTables: scoredTables.slice(0, 3).map(t => t.name),
     });
@@ -212,7 +238,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       { 
         error: (error as Error).message || 'Failed to diagnose MDB file',
-        suggestion: 'Make sure mdbtools is installed: brew install mdbtools (macOS) or sudo apt-get install mdbtools (Linux)',
+        suggestion: 'Make sure the file is a valid Access database. Installing mdbtools (brew install mdbtools / sudo apt-get install mdbtools) enables a fallback reader.',
       },
       { status: 500 }
     );
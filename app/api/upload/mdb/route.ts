@@ -1,80 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { extractInspectionData, extractDefectData } from '@/lib/parsers/mdbParser';
-import { InspectionRecord, DefectRecord } from '@/lib/types';
-import { writeFile, unlink, mkdtemp } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
-import { execFile } from 'child_process';
-import { promisify } from 'util';
-import Papa from 'papaparse';
-
-const execFileAsync = promisify(execFile);
+import { detectPacpFields, headersLookBroken, readPacpTables } from '@/lib/parsers/pacpDatabase';
+import { extractLateralSurveyData } from '@/lib/parsers/lacpParser';
+import { extractManholeInspectionData } from '@/lib/parsers/macpParser';
+import { applyColumnMapping, isExcelWorkbook, isSpreadsheetFile, parseSpreadsheet, suggestColumnMapping } from '@/lib/parsers/spreadsheetParser';
+import { InspectionRecord, DefectRecord, ColumnMapping } from '@/lib/types';
 
 // Note: Vercel body size limits:
 // - Pro/Enterprise plan: 50MB (configured)
 // These limits cannot be configured and apply to the entire request body.
 export const runtime = 'nodejs'; // IMPORTANT: needs Node runtime (not edge)
 
-function runMdbExport(mdbPath: string, table: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    execFile(
-      'mdb-export',
-      [
-        // ✅ DO NOT use -H (it hides headers)
-        '-D',
-        '%Y-%m-%d %H:%M:%S',
-        mdbPath,
-        table,
-      ],
-      { maxBuffer: 50 * 1024 * 1024 },
-      (err, stdout, stderr) => {
-        if (err) {
-          reject(new Error(stderr || err.message));
-          return;
-        }
-        resolve(stdout);
-      }
-    );
-  });
-}
-
-function parseCsv(csv: string) {
-  const parsed = Papa.parse<Record<string, any>>(csv, {
-    header: true,
-    skipEmptyLines: true,
-    dynamicTyping: true,
-  });
-
-  if (parsed.errors?.length) {
-    // Don't hard fail on minor parse warnings; but do fail if no data
-    // console.warn(parsed.errors);
-  }
-
-  return parsed.data;
-}
-
-function normalizeKey(s: string) {
-  return (s || '').toLowerCase().replace(/[^a-z0-9]/g, '');
-}
-
-function pickField(columns: string[], candidates: string[]) {
-  const normCols = columns.map((c) => ({ c, n: normalizeKey(c) }));
-  for (const cand of candidates) {
-    const nCand = normalizeKey(cand);
-    const hit = normCols.find((x) => x.n === nCand);
-    if (hit) return hit.c;
-  }
-  return null;
-}
-
 export async function POST(req: NextRequest) {
-  let tempDir: string | null = null;
-  let mdbPath: string | null = null;
-
   try {
     const form = await req.formData();
     const file = form.get('file') as File;
     const jsonData = form.get('jsonData') as string; // Alternative: pre-parsed JSON
+    const columnMappingJson = form.get('columnMapping') as string | null; // CSV: chosen columns
 
     if (!file && !jsonData) {
       return NextResponse.json(
@@ -128,112 +70,109 @@ export async function POST(req: NextRequest) {
           { status: 400 }
         );
       }
+    } else if (file && isExcelWorkbook(file.name)) {
+      return NextResponse.json(
+        { error: 'Excel workbooks are not supported; save the sheet as CSV and upload that' },
+        { status: 400 }
+      );
+    } else if (file && isSpreadsheetFile(file.name)) {
+      // Handle CSV tap logs
+      let sheet: ReturnType<typeof parseSpreadsheet>;
+      try {
+        sheet = parseSpreadsheet(Buffer.from(await file.arrayBuffer()));
+      } catch (sheetError) {
+        return NextResponse.json(
+          { error: 'Failed to read spreadsheet', details: (sheetError as Error).message },
+          { status: 400 }
+        );
+      }
+
+      if (sheet.rows.length === 0) {
+        return NextResponse.json(
+          { error: 'Spreadsheet has no data rows' },
+          { status: 400 }
+        );
+      }
+
+      // First pass: no mapping yet, return the columns so the user can assign them
+      if (!columnMappingJson) {
+        return NextResponse.json({
+          success: true,
+          needsMapping: true,
+          columns: sheet.columns,
+          sampleRows: sheet.rows.slice(0, 5),
+          suggestedMapping: suggestColumnMapping(sheet.columns),
+          rowCount: sheet.rows.length,
+        });
+      }
+
+      let mapping: ColumnMapping;
+      try {
+        mapping = JSON.parse(columnMappingJson);
+      } catch (error) {
+        return NextResponse.json(
+          { error: 'Invalid column mapping: ' + (error as Error).message },
+          { status: 400 }
+        );
+      }
+
+      const unknownColumns = Object.values(mapping).filter((column) => column && !sheet.columns.includes(column));
+      if (unknownColumns.length > 0) {
+        return NextResponse.json(
+          { error: `Column mapping refers to columns not in the spreadsheet: ${unknownColumns.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const units = form.get('units');
+        ({ inspections, defects } = applyColumnMapping(sheet.rows, mapping, {
+          units: units === 'feet' || units === 'meters' ? units : undefined,
+        }));
+      } catch (mappingError) {
+        return NextResponse.json(
+          { error: (mappingError as Error).message },
+          { status: 400 }
+        );
+      }
+      rawInspections = inspections.map((inspection) => inspection.raw ?? {});
+      rawConditions = sheet.rows;
+      inspectionColumns = rawInspections.length ? Object.keys(rawInspections[0]) : [];
+      conditionColumns = sheet.columns;
     } else if (file) {
       // Handle MDB file
       if (!file.name.toLowerCase().endsWith('.mdb') && !file.name.toLowerCase().endsWith('.accdb')) {
         return NextResponse.json(
-          { error: 'File must be an MDB or ACCDB file' },
+          { error: 'File must be an MDB, ACCDB, or CSV file' },
           { status: 400 }
         );
       }
 
-      // Write upload to a temp file
       const bytes = Buffer.from(await file.arrayBuffer());
-      tempDir = await mkdtemp(join(tmpdir(), 'mdb-'));
-      mdbPath = join(tempDir, file.name);
-      await writeFile(mdbPath, bytes);
 
       try {
-        // Export the two tables we need (headers included)
-        const inspectionsCsv = await runMdbExport(mdbPath, 'PACP_Inspections');
-        rawInspections = parseCsv(inspectionsCsv);
-        
+        const tablesRead = await readPacpTables(bytes, file.name);
+        rawInspections = tablesRead.rawInspections;
+        rawConditions = tablesRead.rawConditions;
         inspectionColumns = rawInspections.length ? Object.keys(rawInspections[0]) : [];
-        
-        // Try to export PACP_Conditions, but don't fail if it doesn't exist
-        try {
-          const conditionsCsv = await runMdbExport(mdbPath, 'PACP_Conditions');
-          rawConditions = parseCsv(conditionsCsv);
-          conditionColumns = rawConditions.length ? Object.keys(rawConditions[0]) : [];
-        } catch (conditionsError) {
-          console.warn('Could not export PACP_Conditions table:', (conditionsError as Error).message);
-          rawConditions = [];
-          conditionColumns = [];
-        }
+        conditionColumns = rawConditions.length ? Object.keys(rawConditions[0]) : [];
 
         // HARD GUARD: if "columns" look like values, fail early
-        // Column names that look like data values (not field names)
-        const looksBroken =
-          inspectionColumns.length > 0 &&
-          inspectionColumns.some((k) => {
-            // Check if column name looks like a data value rather than a field name
-            // Data values often: are pure numbers, contain dates/slashes in wrong places, 
-            // are very long without spaces, or don't start with letters/underscores
-            return (
-              /^\d+$/.test(k) || // Pure numbers
-              (k.includes('/') && !k.includes(' ')) || // Dates without context
-              (k.length > 50 && !k.includes(' ')) || // Very long single words
-              (!/^[A-Za-z_]/.test(k) && !k.includes(' ')) // Doesn't start with letter/underscore and no spaces
-            );
-          });
+        const looksBroken = headersLookBroken(inspectionColumns);
 
         if (looksBroken) {
           return NextResponse.json(
             {
               error:
-                'MDB extraction still looks broken (headers look like values). Confirm mdbtools installed and mdb-export is being used.',
+                'MDB extraction still looks broken (headers look like values). The database may be corrupted or use an unsupported format.',
               inspectionColumns: inspectionColumns.slice(0, 10),
             },
             { status: 500 }
           );
         }
 
-        // Find key fields (names vary across exports)
-        const inspectionIdField = pickField(inspectionColumns, [
-          'InspectionID',
-          'Inspection_Id',
-          'Inspection ID',
-          'InspecID',
-          'Inspec_Id',
-        ]);
-
-        const pipeRefField = pickField(inspectionColumns, [
-          'Pipe_Segment_Reference',
-          'Pipe Segment Reference',
-          'PipeSegmentReference',
-          'PipeID',
-          'Pipe Id',
-          'SegmentReference',
-        ]);
-
-        const conditionInspectionIdField = pickField(conditionColumns, [
-          'InspectionID',
-          'Inspection_Id',
-          'Inspection ID',
-          'InspecID',
-        ]);
-
-        const distanceField = pickField(conditionColumns, [
-          'Distance',
-          'Dist',
-          'Distance_Along_Pipe',
-          'Distance Along Pipe',
-        ]);
-
-        const codeField = pickField(conditionColumns, [
-          'PACP_Code',
-          'PACP Code',
-          'Code',
-          'DefectCode',
-          'ConditionCode',
-        ]);
-
-        const gradeField = pickField(conditionColumns, [
-          'Grade',
-          'Severity',
-          'PACP_Grade',
-          'PACP Grade',
-        ]);
+        const { inspectionIdField, pipeRefField, conditionInspectionIdField, distanceField, codeField, gradeField } =
+          detectPacpFields(inspectionColumns, conditionColumns);
 
         // Process raw data into structured format using existing extractors
         // Pass detected field names to extractor
@@ -248,11 +187,16 @@ export async function POST(req: NextRequest) {
           codeField,
           gradeField,
         });
+        const lateralSurveys = extractLateralSurveyData(tablesRead.rawLacpInspections, tablesRead.rawLacpConditions);
+        const manholeInspections = extractManholeInspectionData(tablesRead.rawMacpInspections, tablesRead.rawMacpConditions);
 
         console.log('MDB parsed successfully:', {
+          reader: tablesRead.reader,
           inspectionsCount: inspections.length,
           conditionsCount: rawConditions.length,
           defectsCount: defects.length,
+          lateralSurveysCount: lateralSurveys.length,
+          manholeInspectionsCount: manholeInspections.length,
           inspectionColumns: inspectionColumns.slice(0, 10),
           conditionColumns: conditionColumns.slice(0, 10),
           fields: {
@@ -269,6 +213,8 @@ export async function POST(req: NextRequest) {
           success: true,
           inspections,
           defects,
+          lateralSurveys,
+          manholeInspections,
           rawInspections,
           rawConditions,
           inspectionColumns,
@@ -283,25 +229,14 @@ export async function POST(req: NextRequest) {
           },
           count: inspections.length,
           defectCount: defects.length,
+          lateralSurveyCount: lateralSurveys.length,
+          manholeInspectionCount: manholeInspections.length,
           sampleInspection: rawInspections[0] ?? null,
           sampleCondition: rawConditions[0] ?? null,
+          reader: tablesRead.reader,
         });
       } catch (exportError) {
         const errorMessage = (exportError as Error).message || 'Failed to parse MDB file';
-        
-        // Check if mdb-tools is available
-        try {
-          await execFileAsync('which', ['mdb-export']);
-        } catch {
-          return NextResponse.json(
-            {
-              error: 'MDB parsing requires mdbtools. Please install it first.',
-              suggestion: 'On macOS: brew install mdbtools\nOn Linux: sudo apt-get install mdbtools',
-              details: errorMessage,
-            },
-            { status: 500 }
-          );
-        }
 
         return NextResponse.json(
           {
@@ -311,19 +246,6 @@ export async function POST(req: NextRequest) {
           },
           { status: 500 }
         );
-      } finally {
-        // Clean up temp files
-        if (mdbPath) {
-          try {
-            await unlink(mdbPath);
-          } catch {}
-        }
-        if (tempDir) {
-          try {
-            const fs = await import('fs/promises');
-            await fs.rmdir(tempDir, { recursive: true });
-          } catch {}
-        }
       }
     }
 
@@ -340,19 +262,6 @@ export async function POST(req: NextRequest) {
       defectCount: defects.length,
     });
   } catch (error) {
-    // Clean up temp files if they exist
-    if (mdbPath) {
-      try {
-        await unlink(mdbPath);
-      } catch {}
-    }
-    if (tempDir) {
-      try {
-        const fs = await import('fs/promises');
-        await fs.rmdir(tempDir, { recursive: true });
-      } catch {}
-    }
-
     console.error('MDB upload error:', error);
     return NextResponse.json(
       { error: (error as Error).message || 'Failed to process MDB file' },
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { handleLayerUpload } from '@/lib/parsers/layerUpload';
+import { parseParcels } from '@/lib/parsers/parcelParser';
+
+// Note: Vercel body size limits:
+// - Pro/Enterprise plan: 50MB (configured)
+// These limits cannot be configured and apply to the entire request body.
+export const maxDuration = 30;
+
+/**
+ * Parcel polygon layer (GeoJSON or zipped Shapefile), used to split laterals at the property line
+ * and to attach each lateral's APN, owner, site address and land use
+ */
+export async function POST(request: NextRequest) {
+  return handleLayerUpload(request, {
+    label: 'Parcel layer',
+    responseKey: 'parcels',
+    emptyMessage: 'No parcel polygons found. Make sure the layer contains Polygon or MultiPolygon features.',
+    parse: (collection) => {
+      const { parcels, ...fields } = parseParcels(collection);
+      return { features: parcels, fields };
+    },
+  });
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractInspectionData, extractDefectData } from '@/lib/parsers/mdbParser';
+import { parsePacpXml } from '@/lib/parsers/pacpXmlParser';
+
+export const runtime = 'nodejs';
+
+/**
+ * NASSCO PACP XML exchange file upload.
+ * Returns the same shape as /api/upload/mdb so the rest of the pipeline is unchanged.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const file = form.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Check file size (limit to 48MB to account for FormData overhead)
+    const maxSize = 48 * 1024 * 1024;
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: `File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum file size is 48MB to account for upload overhead.` },
+        { status: 400 }
+      );
+    }
+
+    if (!file.name.toLowerCase().endsWith('.xml')) {
+      return NextResponse.json(
+        { error: 'File must be a PACP XML file' },
+        { status: 400 }
+      );
+    }
+
+    let rawInspections: Record<string, any>[];
+    let rawConditions: Record<string, any>[];
+    try {
+      ({ rawInspections, rawConditions } = parsePacpXml(await file.text()));
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Failed to parse XML file', details: (parseError as Error).message },
+        { status: 400 }
+      );
+    }
+
+    if (rawInspections.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'No PACP inspections found in XML file',
+          suggestion: 'Inspection elements need an InspectionID and Pipe_Segment_Reference.',
+        },
+        { status: 400 }
+      );
+    }
+
+    const inspections = extractInspectionData(rawInspections);
+    const defects = extractDefectData(rawConditions);
+    const inspectionColumns = Object.keys(rawInspections[0]);
+    const conditionColumns = rawConditions.length ? Object.keys(rawConditions[0]) : [];
+
+    console.log('PACP XML parsed successfully:', {
+      inspectionsCount: inspections.length,
+      conditionsCount: rawConditions.length,
+      defectsCount: defects.length,
+      inspectionColumns: inspectionColumns.slice(0, 10),
+      conditionColumns: conditionColumns.slice(0, 10),
+    });
+
+    return NextResponse.json({
+      success: true,
+      inspections,
+      defects,
+      rawInspections,
+      rawConditions,
+      inspectionColumns,
+      conditionColumns,
+      count: inspections.length,
+      defectCount: defects.length,
+      sampleInspection: rawInspections[0] ?? null,
+      sampleCondition: rawConditions[0] ?? null,
+      reader: 'xml',
+    });
+  } catch (error) {
+    console.error('PACP XML upload error:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to process XML file' },
+      { status: 500 }
+    );
+  }
+}
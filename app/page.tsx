@@ -1,16 +1,57 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import FileUpload from '@/components/FileUpload';
 import MapView from '@/components/MapView';
 import LateralInspectionList from '@/components/LateralInspectionList';
-import { SewerAsset, InspectionRecord, LateralInspection, DefectRecord, TapInspection } from '@/lib/types';
-import { exportLateralsAsGeoJSON, validateGeoJSONExport, lateralsToGeoJSON, diagnoseGeoJSON } from '@/lib/utils/exportUtils';
+import ColumnMappingDialog from '@/components/ColumnMappingDialog';
+import { SewerAsset, InspectionRecord, LateralInspection, DefectRecord, TapInspection, LateralSurveyRecord, ManholeInspection, ColumnMapping, Parcel, ContinuousDefect, ExistingLateral, AddressPoint } from '@/lib/types';
+import { continuousDefectRowIds, exportDefectsAsGeoJSON, exportReconciliationChanges, exportReconciliationReport, exportLateralsAsGeoJSON, exportLateralSegmentsAsGeoJSON, exportManholesAsGeoJSON, validateGeoJSONExport, lateralsToGeoJSON, diagnoseGeoJSON } from '@/lib/utils/exportUtils';
+import { locateManholes } from '@/lib/parsers/macpParser';
+import { parcelForProcessing } from '@/lib/parsers/parcelParser';
+import { addressPointForProcessing } from '@/lib/parsers/addressPointParser';
+import { CRS_REGISTRY } from '@/lib/utils/crsRegistry';
+import { DistanceUnit, UnitOverride } from '@/lib/utils/units';
+import { RotationConvention } from '@/lib/utils/pointOrientation';
+import { DEFAULT_CONFIRM_TOLERANCE_METERS, DEFAULT_MATCH_RADIUS_METERS, reconcileLaterals } from '@/lib/utils/lateralReconciliation';
+import { DEFAULT_SIDE_OFFSET_METERS, DEFAULT_STUB_LENGTH_METERS, DEFAULT_STUB_SIDE, StubSide } from '@/lib/utils/lateralCalculator';
 
 export default function Home() {
   const [assets, setAssets] = useState<SewerAsset[]>([]);
   const [inspections, setInspections] = useState<InspectionRecord[]>([]);
   const [defects, setDefects] = useState<DefectRecord[]>([]);
+  const [continuousDefects, setContinuousDefects] = useState<ContinuousDefect[]>([]);
+  const [lateralSurveys, setLateralSurveys] = useState<LateralSurveyRecord[]>([]);
+  const [manholeInspections, setManholeInspections] = useState<ManholeInspection[]>([]);
+  // Parcel polygons: laterals are extended to the property line and split into public/private segments
+  const [parcels, setParcels] = useState<Parcel[]>([]);
+  const [existingLaterals, setExistingLaterals] = useState<ExistingLateral[]>([]);
+  // Address points: laterals and taps are geocoded against them instead of the online geocoder
+  const [addressPoints, setAddressPoints] = useState<AddressPoint[]>([]);
+  const [confirmToleranceInput, setConfirmToleranceInput] = useState<string>(String(DEFAULT_CONFIRM_TOLERANCE_METERS));
+  const [matchRadiusInput, setMatchRadiusInput] = useState<string>(String(DEFAULT_MATCH_RADIUS_METERS));
+  // CSV upload waiting for the user to assign columns
+  const [pendingSpreadsheet, setPendingSpreadsheet] = useState<{
+    file: File;
+    columns: string[];
+    sampleRows: Record<string, any>[];
+    rowCount: number;
+    suggestedMapping: ColumnMapping;
+  } | null>(null);
+  const [isImportingSpreadsheet, setIsImportingSpreadsheet] = useState(false);
+  // GeoPackage upload with several feature tables, waiting for the user to pick the gravity main layer
+  const [pendingGeoPackage, setPendingGeoPackage] = useState<{
+    file: File;
+    layers: Array<{ tableName: string; identifier?: string; geometryType: string; srsId: number; featureCount: number }>;
+  } | null>(null);
+  const [selectedGeoPackageLayer, setSelectedGeoPackageLayer] = useState<string>('');
+  // settings.json from the last project bundle (layer name, stub length, units)
+  const [projectSettings, setProjectSettings] = useState<{
+    layerName?: string;
+    stubLength?: number;
+    units?: 'feet' | 'meters';
+    stubLengthMeters?: number;
+  } | null>(null);
   const [laterals, setLaterals] = useState<LateralInspection[]>([]);
   const [taps, setTaps] = useState<TapInspection[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -20,13 +61,41 @@ export default function Home() {
   const [showNameDialog, setShowNameDialog] = useState<boolean>(false);
   const [lateralLayerName, setLateralLayerName] = useState<string>('');
   const [pendingProcess, setPendingProcess] = useState<boolean>(false);
+  // EPSG code chosen by the user; empty means detect from the GeoJSON crs member or .prj file
+  const [assetEpsg, setAssetEpsg] = useState<string>('');
+  // Convention of point symbol rotation attributes (Rotation, Angle); empty ignores them
+  const [pointRotation, setPointRotation] = useState<'' | RotationConvention>('');
+  // Distance unit of the inspections; 'auto' reads each inspection's IsImperial header
+  const [distanceUnits, setDistanceUnits] = useState<UnitOverride>('auto');
+  // Length_Surveyed correction: stretch distances to the GIS pipe length; tolerance in percent
+  const [scaleToGisLength, setScaleToGisLength] = useState<boolean>(false);
+  const [scaleTolerancePercent, setScaleTolerancePercent] = useState<string>('10');
+  const [dedupeTaps, setDedupeTaps] = useState<boolean>(true);
+  const [dedupeDistanceInput, setDedupeDistanceInput] = useState<string>('1');
+  const [dedupeClockInput, setDedupeClockInput] = useState<string>('1');
+  // Lateral geometry settings for the next run (meters); a project bundle fills in the stub length
+  const [stubLengthInput, setStubLengthInput] = useState<string>(String(DEFAULT_STUB_LENGTH_METERS));
+  const [sideOffsetInput, setSideOffsetInput] = useState<string>(String(DEFAULT_SIDE_OFFSET_METERS));
+  const [defaultSide, setDefaultSide] = useState<StubSide>(DEFAULT_STUB_SIDE);
   const [processingStats, setProcessingStats] = useState<{
     assetsCount?: number;
     inspectionsCount?: number;
     lateralsCount?: number;
     defectsCount?: number;
+    continuousDefectsCount?: number;
     processedCount?: number;
     skippedCount?: number;
+    reversedInspectionsCount?: number;
+    imperialInspectionsCount?: number;
+    scaledInspectionsCount?: number;
+    scaleFlaggedInspectionsCount?: number;
+    propertyLineLateralsCount?: number;
+    unchainedLineAssetsCount?: number;
+    orientedPointAssetsCount?: number;
+    repeatTapObservationsCount?: number;
+    addressPointMatchesCount?: number;
+    parcelJoinedLateralsCount?: number;
+    geocodingTimedOutCount?: number;
   } | null>(null);
   const [validationResults, setValidationResults] = useState<{
     isValid: boolean;
@@ -43,7 +112,7 @@ export default function Home() {
     };
   } | null>(null);
 
-  const handleGeoJSONUpload = async (file: File) => {
+  const handleGeoJSONUpload = async (file: File, layer?: string) => {
     // Validate file before upload
     if (!file) {
       throw new Error('No file selected');
@@ -59,6 +128,15 @@ export default function Home() {
 
     const formData = new FormData();
     formData.append('file', file);
+    if (assetEpsg.trim()) {
+      formData.append('epsg', assetEpsg.trim());
+    }
+    if (pointRotation) {
+      formData.append('rotation', pointRotation);
+    }
+    if (layer) {
+      formData.append('layer', layer);
+    }
 
     try {
       const response = await fetch('/api/upload/geojson', {
@@ -118,8 +196,19 @@ export default function Home() {
         throw new Error(`Failed to parse server response. The server may have returned an error page.`);
       }
       
+      if (data.needsLayer) {
+        setPendingGeoPackage({ file, layers: data.layers || [] });
+        // Pre-select the first line layer (usually the gravity mains)
+        const lineLayer = (data.layers || []).find((l: { geometryType: string }) => l.geometryType.includes('LINE'));
+        setSelectedGeoPackageLayer(lineLayer?.tableName || data.layers?.[0]?.tableName || '');
+        return data;
+      }
+
       setAssets(data.assets);
       setError(null);
+      if (data.crs) {
+        console.log(`Assets reprojected to WGS84 from ${data.crs.code || data.crs.name} (${data.crs.source})`);
+      }
       return data;
     } catch (err) {
       if (err instanceof TypeError && err.message.includes('fetch')) {
@@ -129,7 +218,7 @@ export default function Home() {
     }
   };
 
-  const handleMDBUpload = async (file: File) => {
+  const handleMDBUpload = async (file: File, columnMapping?: { mapping: ColumnMapping; units: DistanceUnit | null }) => {
     // Check file size - Vercel Pro plan has a 50MB limit for request body
     // FormData encoding adds overhead, so we limit files to 48MB to account for this
     const maxSize = 48 * 1024 * 1024; // 48MB (accounts for FormData overhead, Vercel limit is 50MB total)
@@ -138,6 +227,7 @@ export default function Home() {
     }
     
     const formData = new FormData();
+    let uploadUrl = '/api/upload/mdb';
     
     if (file.name.toLowerCase().endsWith('.json')) {
       // If it's already JSON (converted from MDB)
@@ -147,12 +237,27 @@ export default function Home() {
     } else if (file.name.toLowerCase().endsWith('.mdb') || file.name.toLowerCase().endsWith('.accdb')) {
       // Direct MDB file upload
       formData.append('file', file);
+    } else if (file.name.toLowerCase().endsWith('.csv')) {
+      // Spreadsheet tap log: first upload returns the columns, second upload carries the mapping
+      formData.append('file', file);
+      if (columnMapping) {
+        formData.append('columnMapping', JSON.stringify(columnMapping.mapping));
+        if (columnMapping.units) {
+          formData.append('units', columnMapping.units);
+        }
+      }
+    } else if (file.name.toLowerCase().endsWith('.xml')) {
+      // NASSCO PACP XML exchange file
+      formData.append('file', file);
+      uploadUrl = '/api/upload/xml';
     } else {
-      throw new Error('File must be an MDB, ACCDB, or JSON file');
+      throw new Error(/\.xlsx?$/i.test(file.name)
+        ? 'Excel workbooks are not supported; save the sheet as CSV and upload that'
+        : 'File must be an MDB, ACCDB, XML, CSV, or JSON file');
     }
 
     try {
-      const response = await fetch('/api/upload/mdb', {
+      const response = await fetch(uploadUrl, {
         method: 'POST',
         body: formData,
       });
@@ -208,8 +313,23 @@ export default function Home() {
         }
         throw new Error(`Failed to parse server response. The server may have returned an error page.`);
       }
+
+      if (data.needsMapping) {
+        setPendingSpreadsheet({
+          file,
+          columns: data.columns || [],
+          sampleRows: data.sampleRows || [],
+          rowCount: data.rowCount || 0,
+          suggestedMapping: data.suggestedMapping,
+        });
+        return data;
+      }
+
       setInspections(data.inspections || []);
       setDefects(data.defects || []);
+      setContinuousDefects([]);
+      setLateralSurveys(data.lateralSurveys || []);
+      setManholeInspections(data.manholeInspections || []);
       
       if (data.inspections && data.inspections.length === 0) {
         let errorMsg = 'No inspections extracted from MDB file. ';
@@ -240,6 +360,8 @@ export default function Home() {
         defectCount: data.defectCount,
         inspectionsCount: data.inspections?.length || 0,
         defectsCount: data.defects?.length || 0,
+        lateralSurveysCount: data.lateralSurveys?.length || 0,
+        manholeInspectionsCount: data.manholeInspections?.length || 0,
         inspectionColumns: data.inspectionColumns?.slice(0, 10),
         fields: data.fields,
       });
@@ -253,6 +375,205 @@ export default function Home() {
     }
   };
 
+  const handleParcelUpload = async (file: File) => {
+    const maxSize = 48 * 1024 * 1024; // 48MB (accounts for FormData overhead, Vercel limit is 50MB total)
+    if (file.size > maxSize) {
+      throw new Error(`File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum file size is 48MB to account for upload overhead.`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (assetEpsg.trim()) {
+      formData.append('epsg', assetEpsg.trim());
+    }
+
+    try {
+      const response = await fetch('/api/upload/parcels', {
+        method: 'POST',
+        body: formData,
+      });
+
+      // Read as text first to handle both JSON and HTML error pages
+      const responseText = await response.text();
+      let data;
+      try {
+        data = JSON.parse(responseText);
+      } catch {
+        throw new Error(`Upload failed: ${response.status} ${response.statusText}. ${responseText.substring(0, 200)}`);
+      }
+      if (!response.ok) {
+        throw new Error(data?.error || `Upload failed: ${response.statusText}`);
+      }
+
+      setParcels(data.parcels || []);
+      setError(data.apnField ? null : 'Parcel layer has no recognised APN column (APN, AIN, PIN, PARCEL_ID...). Segments will be split without an APN.');
+      return data;
+    } catch (err) {
+      if (err instanceof TypeError && err.message.includes('fetch')) {
+        throw new Error('Network error. Please check your connection and try again.');
+      }
+      throw err;
+    }
+  };
+
+  const handleAddressPointUpload = async (file: File) => {
+    const maxSize = 48 * 1024 * 1024; // 48MB (accounts for FormData overhead, Vercel limit is 50MB total)
+    if (file.size > maxSize) {
+      throw new Error(`File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum file size is 48MB to account for upload overhead.`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (assetEpsg.trim()) {
+      formData.append('epsg', assetEpsg.trim());
+    }
+
+    try {
+      const response = await fetch('/api/upload/address-points', {
+        method: 'POST',
+        body: formData,
+      });
+
+      // Read as text first to handle both JSON and HTML error pages
+      const responseText = await response.text();
+      let data;
+      try {
+        data = JSON.parse(responseText);
+      } catch {
+        throw new Error(`Upload failed: ${response.status} ${response.statusText}. ${responseText.substring(0, 200)}`);
+      }
+      if (!response.ok) {
+        throw new Error(data?.error || `Upload failed: ${response.statusText}`);
+      }
+
+      setAddressPoints(data.addressPoints || []);
+      setError(null);
+      return data;
+    } catch (err) {
+      if (err instanceof TypeError && err.message.includes('fetch')) {
+        throw new Error('Network error. Please check your connection and try again.');
+      }
+      throw err;
+    }
+  };
+
+  const handleExistingLateralUpload = async (file: File) => {
+    const maxSize = 48 * 1024 * 1024; // 48MB (accounts for FormData overhead, Vercel limit is 50MB total)
+    if (file.size > maxSize) {
+      throw new Error(`File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum file size is 48MB to account for upload overhead.`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (assetEpsg.trim()) {
+      formData.append('epsg', assetEpsg.trim());
+    }
+
+    try {
+      const response = await fetch('/api/upload/existing-laterals', {
+        method: 'POST',
+        body: formData,
+      });
+
+      // Read as text first to handle both JSON and HTML error pages
+      const responseText = await response.text();
+      let data;
+      try {
+        data = JSON.parse(responseText);
+      } catch {
+        throw new Error(`Upload failed: ${response.status} ${response.statusText}. ${responseText.substring(0, 200)}`);
+      }
+      if (!response.ok) {
+        throw new Error(data?.error || `Upload failed: ${response.statusText}`);
+      }
+
+      setExistingLaterals(data.laterals || []);
+      setError(null);
+      return data;
+    } catch (err) {
+      if (err instanceof TypeError && err.message.includes('fetch')) {
+        throw new Error('Network error. Please check your connection and try again.');
+      }
+      throw err;
+    }
+  };
+
+  const handleBundleUpload = async (file: File) => {
+    const maxSize = 48 * 1024 * 1024; // 48MB (accounts for FormData overhead, Vercel limit is 50MB total)
+    if (file.size > maxSize) {
+      throw new Error(`File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum file size is 48MB to account for upload overhead.`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (assetEpsg.trim()) {
+      formData.append('epsg', assetEpsg.trim());
+    }
+    if (pointRotation) {
+      formData.append('rotation', pointRotation);
+    }
+
+    try {
+      const response = await fetch('/api/upload/bundle', {
+        method: 'POST',
+        body: formData,
+      });
+
+      // Read as text first to handle both JSON and HTML error pages
+      const responseText = await response.text();
+      let data;
+      try {
+        data = JSON.parse(responseText);
+      } catch {
+        if (response.status === 413) {
+          throw new Error(`Bundle is too large for upload (${(file.size / 1024 / 1024).toFixed(2)}MB). Please reduce file size to under 48MB.`);
+        }
+        throw new Error(`Upload failed: ${response.status} ${response.statusText}. ${responseText.substring(0, 200)}`);
+      }
+      if (!response.ok) {
+        throw new Error([data?.error, data?.details].filter(Boolean).join(': ') || `Upload failed: ${response.statusText}`);
+      }
+
+      // Fill everything the two separate uploads would; taps are derived from the defects by MapView
+      setAssets(data.assets || []);
+      setInspections(data.inspections || []);
+      setDefects(data.defects || []);
+      setContinuousDefects([]);
+      setLateralSurveys(data.lateralSurveys || []);
+      setManholeInspections(data.manholeInspections || []);
+      setProjectSettings(data.settings || null);
+      setLateralLayerName(data.settings?.layerName || '');
+      if (data.settings?.stubLengthMeters != null) {
+        setStubLengthInput(String(Math.round(data.settings.stubLengthMeters * 1000) / 1000));
+      }
+      setLaterals([]);
+      setProcessingStats(null);
+
+      if (data.inspections && data.inspections.length === 0) {
+        setError('No inspections extracted from the bundle databases. Check that they contain PACP_Inspections and PACP_Conditions tables.');
+      } else {
+        setError(null);
+      }
+      if (data.crs) {
+        console.log(`Assets reprojected to WGS84 from ${data.crs.code || data.crs.name} (${data.crs.source})`);
+      }
+      console.log('Project bundle upload result:', {
+        assetCount: data.assetCount,
+        databases: data.databases,
+        inspectionsCount: data.inspections?.length || 0,
+        defectsCount: data.defects?.length || 0,
+        settings: data.settings,
+      });
+
+      return data;
+    } catch (err) {
+      if (err instanceof TypeError && err.message.includes('fetch')) {
+        throw new Error('Network error. Please check your connection and try again.');
+      }
+      throw err;
+    }
+  };
+
   const handleProcess = async () => {
     if (assets.length === 0) {
       setError('Please upload a GeoJSON file first');
@@ -264,8 +585,8 @@ export default function Home() {
       return;
     }
 
-    // If taps exist, show name dialog first
-    if (taps.length > 0) {
+    // If taps exist, show name dialog first (a project bundle may already name the layer)
+    if (taps.length > 0 && !projectSettings?.layerName) {
       setShowNameDialog(true);
       setPendingProcess(true);
       return;
@@ -296,8 +617,21 @@ export default function Home() {
           assets,
           inspections,
           defects,
+          lateralSurveys: lateralSurveys.length > 0 ? lateralSurveys : undefined,
           taps: taps.length > 0 ? taps : undefined,
           lateralLayerName: taps.length > 0 && lateralLayerName ? lateralLayerName : undefined,
+          stubLength: stubLengthInput.trim() !== '' ? Number(stubLengthInput) : undefined,
+          sideOffset: sideOffsetInput.trim() !== '' ? Number(sideOffsetInput) : undefined,
+          defaultSide,
+          units: distanceUnits,
+          scaleToGisLength,
+          scaleTolerance: scaleToGisLength && scaleTolerancePercent.trim() !== '' ? Number(scaleTolerancePercent) / 100 : undefined,
+          // Only the geometry and join fields; the layers' other attributes stay on the client
+          parcels: parcels.length > 0 ? parcels.map(parcelForProcessing) : undefined,
+          addressPoints: addressPoints.length > 0 ? addressPoints.map(addressPointForProcessing) : undefined,
+          dedupeTaps,
+          dedupeDistanceTolerance: dedupeTaps && dedupeDistanceInput.trim() !== '' ? Number(dedupeDistanceInput) : undefined,
+          dedupeClockTolerance: dedupeTaps && dedupeClockInput.trim() !== '' ? Number(dedupeClockInput) : undefined,
         }),
         signal: controller.signal,
       });
@@ -356,6 +690,7 @@ export default function Home() {
       }
       setLaterals(data.data.laterals);
       setDefects(data.data.defects || []);
+      setContinuousDefects(data.data.continuousDefects || []);
       setProcessingStats(data.stats || null);
       
       if (data.stats && data.stats.lateralsCount === 0) {
@@ -365,8 +700,8 @@ export default function Home() {
         setError(null);
       }
       
-      // Clear the layer name after successful processing
-      setLateralLayerName('');
+      // Clear the layer name after successful processing (back to the bundle's name, if any)
+      setLateralLayerName(projectSettings?.layerName || '');
     } catch (err) {
       if (err instanceof Error && err.name === 'AbortError') {
         setError('Processing timed out. Try processing a smaller dataset or check your Mapbox API token.');
@@ -383,6 +718,31 @@ export default function Home() {
     setTaps(newTaps);
   };
 
+  const handleColumnMappingConfirm = async (mapping: ColumnMapping, units: DistanceUnit | null) => {
+    if (!pendingSpreadsheet) return;
+    setIsImportingSpreadsheet(true);
+    try {
+      const data = await handleMDBUpload(pendingSpreadsheet.file, { mapping, units });
+      console.log('Spreadsheet inspections imported:', data.count, 'inspections,', data.defectCount, 'defects');
+      setPendingSpreadsheet(null);
+    } catch (err) {
+      setError('Failed to import spreadsheet: ' + (err as Error).message);
+    } finally {
+      setIsImportingSpreadsheet(false);
+    }
+  };
+
+  const handleGeoPackageLayerConfirm = async () => {
+    if (!pendingGeoPackage || !selectedGeoPackageLayer) return;
+    try {
+      const data = await handleGeoJSONUpload(pendingGeoPackage.file, selectedGeoPackageLayer);
+      console.log('GeoPackage layer uploaded:', data.layerName, data.count, 'assets');
+      setPendingGeoPackage(null);
+    } catch (err) {
+      setError('Failed to read GeoPackage layer: ' + (err as Error).message);
+    }
+  };
+
   const handleNameDialogConfirm = () => {
     if (!lateralLayerName.trim()) {
       setError('Please enter a name for the lateral layer');
@@ -394,7 +754,7 @@ export default function Home() {
   const handleNameDialogCancel = () => {
     setShowNameDialog(false);
     setPendingProcess(false);
-    setLateralLayerName('');
+    setLateralLayerName(projectSettings?.layerName || '');
   };
 
   const handleValidate = () => {
@@ -438,6 +798,90 @@ export default function Home() {
     }
   };
 
+  // Join MACP manholes to the asset layer by manhole ID (pipe ends or manhole points)
+  const manholes = useMemo(
+    () => (manholeInspections.length > 0 ? locateManholes(manholeInspections, inspections, assets) : []),
+    [manholeInspections, inspections, assets]
+  );
+  const locatedManholeCount = manholes.filter((m) => m.coordinates).length;
+
+  const handleExportManholes = () => {
+    if (locatedManholeCount === 0) {
+      setError('No manhole inspections could be joined to the asset layer. Check that pipes carry upstream/downstream manhole IDs.');
+      return;
+    }
+    try {
+      exportManholesAsGeoJSON(manholes, 'manhole-inspections.geojson');
+      setError(null);
+      console.log(`Exported ${locatedManholeCount} manhole inspection${locatedManholeCount !== 1 ? 's' : ''} to GeoJSON`);
+    } catch (err) {
+      setError('Failed to export GeoJSON: ' + (err as Error).message);
+    }
+  };
+
+  const continuousRowIds = continuousDefectRowIds(continuousDefects);
+  const locatedDefectCount = defects.filter((d) => d.coordinates && !continuousRowIds.has(d.id)).length;
+  const continuousLineCount = continuousDefects.filter((c) => c.line && c.line.length >= 2).length;
+
+  const handleExportDefects = () => {
+    try {
+      exportDefectsAsGeoJSON(defects, continuousDefects, 'defects.geojson');
+      setError(null);
+      console.log(`Exported ${locatedDefectCount} defects and ${continuousLineCount} continuous defects to GeoJSON`);
+    } catch (err) {
+      setError('Failed to export GeoJSON: ' + (err as Error).message);
+    }
+  };
+
+  // Compare the computed laterals with the existing lateral layer, on every main that was inspected
+  const reconciliation = useMemo(() => {
+    if (existingLaterals.length === 0 || laterals.length === 0) return null;
+    const confirmTolerance = Number(confirmToleranceInput);
+    const matchRadius = Number(matchRadiusInput);
+    return reconcileLaterals(
+      laterals,
+      existingLaterals,
+      assets,
+      inspections.map((i) => i.pipeSegmentReference).filter((ref): ref is string => ref != null && String(ref).trim() !== ''),
+      {
+        confirmToleranceMeters: confirmToleranceInput.trim() !== '' && confirmTolerance >= 0 ? confirmTolerance : undefined,
+        matchRadiusMeters: matchRadiusInput.trim() !== '' && matchRadius > 0 ? matchRadius : undefined,
+      }
+    );
+  }, [laterals, existingLaterals, assets, inspections, confirmToleranceInput, matchRadiusInput]);
+
+  const handleExportReconciliation = () => {
+    if (!reconciliation) return;
+    try {
+      exportReconciliationReport(reconciliation, 'lateral-reconciliation.csv');
+      setError(null);
+    } catch (err) {
+      setError('Failed to export report: ' + (err as Error).message);
+    }
+  };
+
+  const handleExportChanges = () => {
+    if (!reconciliation) return;
+    try {
+      exportReconciliationChanges(reconciliation, 'lateral-changes.geojson');
+      setError(null);
+    } catch (err) {
+      setError('Failed to export GeoJSON: ' + (err as Error).message);
+    }
+  };
+
+  const splitLateralCount = laterals.filter((l) => l.privateLine && l.privateLine.length >= 2).length;
+
+  const handleExportSegments = () => {
+    try {
+      exportLateralSegmentsAsGeoJSON(laterals, 'lateral-segments.geojson');
+      setError(null);
+      console.log(`Exported public/private segments for ${splitLateralCount} laterals`);
+    } catch (err) {
+      setError('Failed to export GeoJSON: ' + (err as Error).message);
+    }
+  };
+
   const handleLateralSelect = (lateral: LateralInspection) => {
     setSelectedLateral(lateral);
     setSelectedDefect(null);
@@ -467,9 +911,77 @@ export default function Home() {
               <h2 className="text-xl font-semibold mb-4">Upload Files</h2>
               
               <div className="space-y-4">
+                <div>
+                  <label htmlFor="asset-crs" className="block text-sm font-medium text-gray-700 mb-1">
+                    Asset Coordinate System
+                  </label>
+                  <input
+                    id="asset-crs"
+                    type="text"
+                    list="asset-crs-options"
+                    value={assetEpsg}
+                    onChange={(e) => setAssetEpsg(e.target.value)}
+                    placeholder="Auto-detect (GeoJSON crs or .prj)"
+                    disabled={isProcessing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <datalist id="asset-crs-options">
+                    {CRS_REGISTRY.map((crs) => (
+                      <option key={crs.code} value={crs.code}>
+                        {crs.name}
+                      </option>
+                    ))}
+                  </datalist>
+                  <p className="text-xs text-gray-500 mt-1">
+                    EPSG code for projected layers (e.g. EPSG:2227 for California zone III feet). Set before uploading.
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor="point-rotation" className="block text-sm font-medium text-gray-700 mb-1">
+                    Point Symbol Rotation
+                  </label>
+                  <select
+                    id="point-rotation"
+                    value={pointRotation}
+                    onChange={(e) => setPointRotation(e.target.value as '' | RotationConvention)}
+                    disabled={isProcessing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Ignore (use Azimuth/Bearing only)</option>
+                    <option value="geographic">Geographic (clockwise from north)</option>
+                    <option value="arithmetic">Arithmetic (counter-clockwise from east)</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    How the Rotation/Angle column of point assets is measured. Set before uploading.
+                  </p>
+                </div>
+
                 <FileUpload
-                  accept=".geojson,.json"
-                  label="Sewer Assets (GeoJSON)"
+                  accept=".zip"
+                  label="Project Bundle (assets + inspections + settings)"
+                  hint="Zip with an asset layer, PACP databases and settings.json"
+                  onUpload={handleBundleUpload}
+                  onSuccess={(data) => {
+                    console.log('Project bundle uploaded:', data.assetCount, 'assets,', data.count, 'inspections');
+                  }}
+                  disabled={isProcessing}
+                />
+                {projectSettings && (
+                  <p className="text-xs text-gray-600 -mt-2">
+                    Bundle settings: {[
+                      projectSettings.layerName && `layer "${projectSettings.layerName}"`,
+                      projectSettings.stubLength != null && `stub ${projectSettings.stubLength} ${projectSettings.units || 'm'}`,
+                      projectSettings.units && `units ${projectSettings.units}`,
+                    ].filter(Boolean).join(', ') || 'defaults'}
+                  </p>
+                )}
+
+                <p className="text-xs text-gray-500 text-center">or upload the layers separately</p>
+
+                <FileUpload
+                  accept=".geojson,.json,.zip,.kml,.kmz,.gpkg"
+                  label="Sewer Assets (GeoJSON/Shapefile/KML/GeoPackage)"
                   onUpload={handleGeoJSONUpload}
                   onSuccess={(data) => {
                     console.log('GeoJSON uploaded:', data.count, 'assets');
@@ -478,8 +990,8 @@ export default function Home() {
                 />
 
                 <FileUpload
-                  accept=".mdb,.accdb,.json"
-                  label="Inspection Data (MDB/ACCDB/JSON)"
+                  accept=".mdb,.accdb,.xml,.csv,.json"
+                  label="Inspection Data (MDB/ACCDB/XML/CSV/JSON)"
                   onUpload={handleMDBUpload}
                   onSuccess={(data) => {
                     console.log('Inspections uploaded:', data.count, 'inspections');
@@ -487,6 +999,175 @@ export default function Home() {
                   disabled={isProcessing}
                 />
 
+                <FileUpload
+                  accept=".geojson,.json,.zip"
+                  label="Parcels (optional, GeoJSON/Shapefile)"
+                  hint="Extends laterals to the property line, splits them into public and private segments and attaches the parcel's APN, owner, site address and land use"
+                  onUpload={handleParcelUpload}
+                  onSuccess={(data) => {
+                    console.log('Parcels uploaded:', data.count, 'parcels, fields', { apn: data.apnField, owner: data.ownerField, situs: data.situsField, landUse: data.landUseField });
+                  }}
+                  disabled={isProcessing}
+                />
+
+                <FileUpload
+                  accept=".geojson,.json,.zip"
+                  label="Address Points (optional, GeoJSON/Shapefile)"
+                  hint="Geocodes laterals and taps offline to the nearest address on the same side of the street"
+                  onUpload={handleAddressPointUpload}
+                  onSuccess={(data) => {
+                    console.log('Address points uploaded:', data.count, 'points, fields', data.fields);
+                  }}
+                  disabled={isProcessing}
+                />
+
+                <FileUpload
+                  accept=".geojson,.json,.zip"
+                  label="Existing Laterals (optional, GeoJSON/Shapefile)"
+                  hint="Reconciles the computed laterals against your GIS lateral layer after processing"
+                  onUpload={handleExistingLateralUpload}
+                  onSuccess={(data) => {
+                    console.log('Existing laterals uploaded:', data.count, 'laterals, main field', data.mainField);
+                  }}
+                  disabled={isProcessing}
+                />
+
+                <div>
+                  <label htmlFor="distance-units" className="block text-sm font-medium text-gray-700 mb-1">
+                    Inspection Distance Units
+                  </label>
+                  <select
+                    id="distance-units"
+                    value={distanceUnits}
+                    onChange={(e) => setDistanceUnits(e.target.value as UnitOverride)}
+                    disabled={isProcessing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="auto">Auto (IsImperial header)</option>
+                    <option value="feet">Feet</option>
+                    <option value="meters">Meters</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Override when the database header is missing or wrong. Inspections without a header are read as meters.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={scaleToGisLength}
+                      onChange={(e) => setScaleToGisLength(e.target.checked)}
+                      disabled={isProcessing}
+                    />
+                    Scale distances to GIS pipe length
+                  </label>
+                  {scaleToGisLength && (
+                    <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                      <label htmlFor="scale-tolerance">Flag and skip when lengths differ by more than</label>
+                      <input
+                        id="scale-tolerance"
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={scaleTolerancePercent}
+                        onChange={(e) => setScaleTolerancePercent(e.target.value)}
+                        disabled={isProcessing}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <span>%</span>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Corrects cable counter drift using Length_Surveyed, for surveys that reached the far manhole.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={dedupeTaps}
+                      onChange={(e) => setDedupeTaps(e.target.checked)}
+                      disabled={isProcessing}
+                    />
+                    Merge taps seen by repeat inspections
+                  </label>
+                  {dedupeTaps && (
+                    <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                      <label htmlFor="dedupe-distance">Within</label>
+                      <input
+                        id="dedupe-distance"
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={dedupeDistanceInput}
+                        onChange={(e) => setDedupeDistanceInput(e.target.value)}
+                        disabled={isProcessing}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <label htmlFor="dedupe-clock">m and</label>
+                      <input
+                        id="dedupe-clock"
+                        type="number"
+                        min="0"
+                        max="6"
+                        step="0.5"
+                        value={dedupeClockInput}
+                        onChange={(e) => setDedupeClockInput(e.target.value)}
+                        disabled={isProcessing}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <span>clock hours</span>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    One lateral per tap when a pipe was televised more than once, drawn from the most recent inspection.
+                  </p>
+                </div>
+
+                <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Lateral Geometry</p>
+                  <div className="grid grid-cols-2 gap-2 text-sm text-gray-700">
+                    <label htmlFor="stub-length">Stub length (m)</label>
+                    <input
+                      id="stub-length"
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={stubLengthInput}
+                      onChange={(e) => setStubLengthInput(e.target.value)}
+                      disabled={isProcessing}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <label htmlFor="side-offset">Side offset (m)</label>
+                    <input
+                      id="side-offset"
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={sideOffsetInput}
+                      onChange={(e) => setSideOffsetInput(e.target.value)}
+                      disabled={isProcessing}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <label htmlFor="default-side">12/6 o&apos;clock side</label>
+                    <select
+                      id="default-side"
+                      value={defaultSide}
+                      onChange={(e) => setDefaultSide(e.target.value as StubSide)}
+                      disabled={isProcessing}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="right">Right</option>
+                      <option value="left">Left</option>
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Taps at 12 or 6 o&apos;clock have no left/right, so their stub goes to this side. The values are stored on each lateral.
+                  </p>
+                </div>
+
                 <button
                   onClick={handleProcess}
                   disabled={isProcessing || assets.length === 0}
@@ -516,6 +1197,89 @@ export default function Home() {
                     </button>
                   </>
                 )}
+
+                {splitLateralCount > 0 && (
+                  <button
+                    onClick={handleExportSegments}
+                    className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors mt-2"
+                  >
+                    Export Public/Private Segments ({splitLateralCount} laterals)
+                  </button>
+                )}
+
+                {locatedManholeCount > 0 && (
+                  <button
+                    onClick={handleExportManholes}
+                    className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors mt-2"
+                  >
+                    Export Manholes ({locatedManholeCount} manholes)
+                  </button>
+                )}
+
+                {locatedDefectCount + continuousLineCount > 0 && (
+                  <button
+                    onClick={handleExportDefects}
+                    className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors mt-2"
+                  >
+                    Export Defects ({locatedDefectCount} points, {continuousLineCount} continuous)
+                  </button>
+                )}
+
+                {reconciliation && (
+                  <div className="border border-gray-200 rounded-lg p-3 mt-2 space-y-2 text-sm text-gray-700">
+                    <p className="font-medium">Reconciliation with Existing Laterals</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <label htmlFor="confirm-tolerance">
+                        Confirmed within (m)
+                        <input
+                          id="confirm-tolerance"
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={confirmToleranceInput}
+                          onChange={(e) => setConfirmToleranceInput(e.target.value)}
+                          className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </label>
+                      <label htmlFor="match-radius">
+                        Match radius (m)
+                        <input
+                          id="match-radius"
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={matchRadiusInput}
+                          onChange={(e) => setMatchRadiusInput(e.target.value)}
+                          className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </label>
+                    </div>
+                    <p>
+                      <strong>Confirmed:</strong> {reconciliation.summary.confirmed}
+                      {' · '}<strong>Moved:</strong> {reconciliation.summary.moved}
+                      {' · '}<strong>New:</strong> {reconciliation.summary.new}
+                      {' · '}<strong>Missing:</strong> {reconciliation.summary.missing}
+                    </p>
+                    {(reconciliation.summary.existingOutsideInspection > 0 || reconciliation.summary.existingWithoutMain > 0) && (
+                      <p className="text-xs text-gray-500">
+                        Not compared: {reconciliation.summary.existingOutsideInspection} existing laterals on mains that were not inspected,
+                        {' '}{reconciliation.summary.existingWithoutMain} not near any main.
+                      </p>
+                    )}
+                    <button
+                      onClick={handleExportReconciliation}
+                      className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors"
+                    >
+                      Download Reconciliation Report (CSV)
+                    </button>
+                    <button
+                      onClick={handleExportChanges}
+                      className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors"
+                    >
+                      Download Change Layer (GeoJSON)
+                    </button>
+                  </div>
+                )}
               </div>
 
               {error && (
@@ -594,6 +1358,16 @@ export default function Home() {
                 <p>
                   <strong>Defects:</strong> {defects.length}
                 </p>
+                {manholeInspections.length > 0 && (
+                  <p>
+                    <strong>Manhole Inspections (MACP):</strong> {locatedManholeCount} of {manholeInspections.length} located
+                  </p>
+                )}
+                {lateralSurveys.length > 0 && (
+                  <p>
+                    <strong>Lateral Surveys (LACP):</strong> {lateralSurveys.length}
+                  </p>
+                )}
                 {processingStats && (
                   <>
                     {processingStats.processedCount !== undefined && (
@@ -606,11 +1380,71 @@ export default function Home() {
                         <strong>Defects Processed:</strong> {processingStats.defectsCount}
                       </p>
                     )}
+                    {processingStats.continuousDefectsCount !== undefined && processingStats.continuousDefectsCount > 0 && (
+                      <p>
+                        <strong>Continuous defects (S/F pairs):</strong> {processingStats.continuousDefectsCount}
+                      </p>
+                    )}
                     {processingStats.skippedCount !== undefined && processingStats.skippedCount > 0 && (
                       <p className="text-orange-600">
                         <strong>Skipped:</strong> {processingStats.skippedCount}
                       </p>
                     )}
+                    {processingStats.reversedInspectionsCount !== undefined && processingStats.reversedInspectionsCount > 0 && (
+                      <p>
+                        <strong>Measured from line end:</strong> {processingStats.reversedInspectionsCount} inspections
+                      </p>
+                    )}
+                    {processingStats.imperialInspectionsCount !== undefined && processingStats.imperialInspectionsCount > 0 && (
+                      <p>
+                        <strong>Recorded in feet:</strong> {processingStats.imperialInspectionsCount} inspections
+                      </p>
+                    )}
+                    {processingStats.scaledInspectionsCount !== undefined && processingStats.scaledInspectionsCount > 0 && (
+                      <p>
+                        <strong>Scaled to GIS length:</strong> {processingStats.scaledInspectionsCount} inspections
+                      </p>
+                    )}
+                    {processingStats.scaleFlaggedInspectionsCount !== undefined && processingStats.scaleFlaggedInspectionsCount > 0 && (
+                      <p className="text-orange-600">
+                        <strong>Length outside tolerance:</strong> {processingStats.scaleFlaggedInspectionsCount} inspections
+                      </p>
+                    )}
+                    {processingStats.propertyLineLateralsCount !== undefined && parcels.length > 0 && (
+                      <p>
+                        <strong>Split at property line:</strong> {processingStats.propertyLineLateralsCount} laterals
+                      </p>
+                    )}
+                    {processingStats.unchainedLineAssetsCount !== undefined && processingStats.unchainedLineAssetsCount > 0 && (
+                      <p className="text-orange-600">
+                        <strong>Disconnected multi-part pipes:</strong> {processingStats.unchainedLineAssetsCount} (distances measured across the gaps, see server log)
+                      </p>
+                    )}
+                    {processingStats.parcelJoinedLateralsCount !== undefined && (
+                      <p>
+                        <strong>Joined to a parcel:</strong> {processingStats.parcelJoinedLateralsCount} laterals
+                      </p>
+                    )}
+                    {processingStats.addressPointMatchesCount !== undefined && (
+                      <p>
+                        <strong>Addressed from address points:</strong> {processingStats.addressPointMatchesCount} laterals
+                      </p>
+                    )}
+                    {processingStats.orientedPointAssetsCount !== undefined && processingStats.orientedPointAssetsCount > 0 && (
+                      <p>
+                        <strong>Point assets oriented to the pipe:</strong> {processingStats.orientedPointAssetsCount}
+                      </p>
+                    )}
+                    {processingStats.repeatTapObservationsCount !== undefined && processingStats.repeatTapObservationsCount > 0 && (
+                      <p>
+                        <strong>Repeat tap observations merged:</strong> {processingStats.repeatTapObservationsCount}
+                      </p>
+                    )}
+                    {processingStats.geocodingTimedOutCount !== undefined && processingStats.geocodingTimedOutCount > 0 && (
+                      <p>
+                        <strong>Laterals left without an address (geocoding ran out of time):</strong> {processingStats.geocodingTimedOutCount}
+                      </p>
+                    )}
                   </>
                 )}
               </div>
@@ -639,9 +1473,15 @@ export default function Home() {
                   inspections={inspections}
                   laterals={laterals}
                   defects={defects}
+                  continuousDefects={continuousDefects}
+                  manholes={manholes}
                   onLateralClick={handleLateralSelect}
                   onDefectClick={handleDefectSelect}
                   onTapsChange={handleTapsChange}
+                  unitsOverride={distanceUnits}
+                  parcels={parcels}
+                  addressPoints={addressPoints}
+                  sideOffset={sideOffsetInput.trim() !== '' && Number(sideOffsetInput) >= 0 ? Number(sideOffsetInput) : undefined}
                 />
               </div>
             </div>
@@ -652,8 +1492,8 @@ export default function Home() {
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mt-6">
           <h3 className="font-semibold text-blue-900 mb-2">Instructions</h3>
           <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
-            <li>Upload a GeoJSON file containing sewer assets with <strong>FID</strong> field</li>
-            <li>Upload inspection data (MDB/ACCDB) with <strong>Pipe Segment Reference</strong> field</li>
+            <li>Upload a GeoJSON file, zipped Shapefile (.shp/.shx/.dbf/.prj) KML/KMZ or GeoPackage containing sewer assets with <strong>FID</strong> field</li>
+            <li>Upload inspection data (MDB/ACCDB or PACP XML) with <strong>Pipe Segment Reference</strong> field</li>
             <li>Click "Process Data" to match FID to Pipe Segment Reference, calculate lateral positions, and geocode addresses</li>
             <li>View results on the interactive map - click lateral points to see details</li>
             <li>Export lateral inspections as GeoJSON file for use in other applications</li>
@@ -664,6 +1504,66 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Column mapping step for CSV uploads */}
+      {pendingSpreadsheet && (
+        <ColumnMappingDialog
+          fileName={pendingSpreadsheet.file.name}
+          columns={pendingSpreadsheet.columns}
+          sampleRows={pendingSpreadsheet.sampleRows}
+          rowCount={pendingSpreadsheet.rowCount}
+          suggestedMapping={pendingSpreadsheet.suggestedMapping}
+          onConfirm={handleColumnMappingConfirm}
+          onCancel={() => setPendingSpreadsheet(null)}
+          isSubmitting={isImportingSpreadsheet}
+        />
+      )}
+
+      {/* GeoPackage layer picker */}
+      {pendingGeoPackage && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+            <h3 className="text-xl font-semibold mb-4">Choose GeoPackage Layer</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {pendingGeoPackage.file.name} has {pendingGeoPackage.layers.length} feature layers. Pick the gravity main layer to import.
+            </p>
+            <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+              {pendingGeoPackage.layers.map((layer) => (
+                <label key={layer.tableName} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="geopackage-layer"
+                    value={layer.tableName}
+                    checked={selectedGeoPackageLayer === layer.tableName}
+                    onChange={() => setSelectedGeoPackageLayer(layer.tableName)}
+                  />
+                  <span>
+                    <strong>{layer.identifier || layer.tableName}</strong>{' '}
+                    <span className="text-gray-500">
+                      ({layer.geometryType}, {layer.featureCount} features, SRS {layer.srsId})
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setPendingGeoPackage(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleGeoPackageLayerConfirm}
+                disabled={!selectedGeoPackageLayer}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                Import Layer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Name Input Dialog */}
       {showNameDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { ColumnMapping } from '@/lib/types';
+import { DistanceUnit } from '@/lib/utils/units';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  columns: string[];
+  sampleRows: Record<string, any>[];
+  rowCount: number;
+  suggestedMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping, units: DistanceUnit | null) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+const FIELDS: Array<{ key: keyof ColumnMapping; label: string; hint: string; required?: boolean }> = [
+  { key: 'pipeSegmentReference', label: 'Pipe Segment Reference', hint: 'Matches FID in the asset layer', required: true },
+  { key: 'inspectionId', label: 'Inspection ID', hint: 'Optional - defaults to one inspection per pipe' },
+  { key: 'distance', label: 'Distance', hint: 'Distance along the pipe from the start' },
+  { key: 'clockPosition', label: 'Clock Position', hint: '1-12, looking downstream' },
+  { key: 'defectCode', label: 'Defect Code', hint: 'Optional - rows are treated as taps (TB) without it' },
+];
+
+export default function ColumnMappingDialog({
+  fileName,
+  columns,
+  sampleRows,
+  rowCount,
+  suggestedMapping,
+  onConfirm,
+  onCancel,
+  isSubmitting = false,
+}: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(suggestedMapping);
+  // null leaves the inspections without an IsImperial header, so the processing units setting applies
+  const [units, setUnits] = useState<DistanceUnit | null>(null);
+
+  const previewColumns = FIELDS
+    .map((field) => mapping[field.key])
+    .filter((column): column is string => !!column);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 shadow-xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-semibold mb-2">Map Spreadsheet Columns</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Choose which column of <strong>{fileName}</strong> ({rowCount} row{rowCount !== 1 ? 's' : ''}) holds each inspection field.
+        </p>
+
+        <div className="space-y-3 mb-4">
+          {FIELDS.map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700">
+                {field.label}
+                {field.required && <span className="text-red-600"> *</span>}
+              </label>
+              <select
+                value={mapping[field.key] ?? ''}
+                onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">(not in spreadsheet)</option>
+                {columns.map((column) => (
+                  <option key={column} value={column}>
+                    {column}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700">Distance Units</label>
+          <select
+            value={units ?? ''}
+            onChange={(e) => setUnits((e.target.value || null) as DistanceUnit | null)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Not stated (use Inspection Distance Units)</option>
+            <option value="feet">Feet</option>
+            <option value="meters">Meters</option>
+          </select>
+        </div>
+
+        {previewColumns.length > 0 && sampleRows.length > 0 && (
+          <div className="mb-4 overflow-x-auto">
+            <p className="text-sm font-medium text-gray-700 mb-1">Preview</p>
+            <table className="text-xs border border-gray-200 w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {previewColumns.map((column) => (
+                    <th key={column} className="px-2 py-1 text-left border-b border-gray-200">
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sampleRows.slice(0, 3).map((row, idx) => (
+                  <tr key={idx}>
+                    {previewColumns.map((column) => (
+                      <td key={column} className="px-2 py-1 border-b border-gray-100">
+                        {row[column] != null ? String(row[column]) : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mapping, units)}
+            disabled={!mapping.pipeSegmentReference || isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
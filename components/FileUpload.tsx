@@ -9,6 +9,7 @@ interface FileUploadProps {
   onSuccess?: (data: any) => void;
   onError?: (error: string) => void;
   disabled?: boolean;
+  hint?: string; // Accepted formats shown under the drop zone; derived from `accept` when omitted
 }
 
 export default function FileUpload({
@@ -18,6 +19,7 @@ export default function FileUpload({
   onSuccess,
   onError,
   disabled = false,
+  hint,
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
@@ -176,7 +178,7 @@ export default function FileUpload({
                 Drag and drop or click to upload
               </p>
               <p className="text-xs text-gray-500 mt-1">
-                {accept.includes('json') ? 'GeoJSON' : accept.includes('mdb') ? 'MDB/ACCDB' : 'file'}
+                {hint ? hint : accept.includes('zip') ? ['GeoJSON', 'zipped Shapefile', accept.includes('kml') && 'KML/KMZ', accept.includes('gpkg') && 'GeoPackage'].filter(Boolean).join(', ') : accept.includes('mdb') ? ['MDB/ACCDB', accept.includes('xml') && 'PACP XML', accept.includes('csv') && 'CSV'].filter(Boolean).join(', ') : accept.includes('json') ? 'GeoJSON' : 'file'}
               </p>
             </div>
           )}
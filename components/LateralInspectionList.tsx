@@ -44,7 +44,7 @@ export default function LateralInspectionList({
                 </p>
                 <div className="mt-1 space-y-1">
                   <p className="text-xs text-gray-600">
-                    Distance: {lateral.tapDistance.toFixed(2)}m | Clock: {lateral.clockPosition}
+                    Distance: {lateral.tapDistance.toFixed(2)} {lateral.properties?.units === 'feet' ? 'ft' : 'm'} | Clock: {lateral.clockPosition}
                   </p>
                   {lateral.assetId && (
                     <p className="text-xs text-gray-500">Asset: {lateral.assetId}</p>
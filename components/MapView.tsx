@@ -5,22 +5,33 @@ import Map, { Marker, Source, Layer, MapRef } from 'react-map-gl';
 // Use global Map for data structures to avoid conflict with react-map-gl's Map component
 const DataMap = globalThis.Map;
 import 'mapbox-gl/dist/mapbox-gl.css';
-import { FeatureCollection, Point } from 'geojson';
-import { SewerAsset, LateralInspection, DefectRecord, InspectionRecord, TapInspection } from '@/lib/types';
-import { matchInspectionsToAssets } from '@/lib/parsers/mdbParser';
+import { FeatureCollection, Point, LineString } from 'geojson';
+import { SewerAsset, LateralInspection, DefectRecord, InspectionRecord, TapInspection, ManholeInspection, Parcel, ContinuousDefect, AddressPoint } from '@/lib/types';
+import { matchInspectionsToAssets, isTapCode } from '@/lib/parsers/mdbParser';
+import { buildManholeIndex, orientAsset, orientInspection } from '@/lib/utils/surveyDirection';
+import { assetReferencePoint } from '@/lib/utils/linePath';
 import { calculateLateralPosition } from '@/lib/utils/lateralCalculator';
-import { reverseGeocode } from '@/lib/services/geocodingService';
+import { distanceInBothUnits, resolveInspectionUnits, UnitOverride } from '@/lib/utils/units';
+import { continuousDefectRowIds } from '@/lib/utils/exportUtils';
+import { geocodeOnServer } from '@/lib/services/geocodingClient';
+import { buildAddressPointIndex, geocodeFromAddressPoints } from '@/lib/services/geocoders/addressPoints';
 
 interface MapViewProps {
   assets?: SewerAsset[];
   inspections?: InspectionRecord[];
   laterals?: LateralInspection[];
   defects?: DefectRecord[];
+  continuousDefects?: ContinuousDefect[]; // S##/F## pairs placed along the mainline
   taps?: TapInspection[];
+  manholes?: ManholeInspection[];
   onLateralClick?: (lateral: LateralInspection) => void;
   onDefectClick?: (defect: DefectRecord) => void;
   onInspectionClick?: (inspection: InspectionRecord) => void;
   onTapsChange?: (taps: TapInspection[]) => void;
+  unitsOverride?: UnitOverride; // Distance unit of the inspections, 'auto' reads each IsImperial header
+  sideOffset?: number; // Offset in meters of left/right tap points from the pipe (processing setting)
+  parcels?: Parcel[];
+  addressPoints?: AddressPoint[]; // Uploaded address layer: taps are geocoded against it instead of the geocoder
 }
 
 export default function MapView({
@@ -28,17 +39,25 @@ export default function MapView({
   inspections = [],
   laterals = [],
   defects = [],
+  continuousDefects = [],
   taps: externalTaps,
+  manholes = [],
   onLateralClick,
   onDefectClick,
   onInspectionClick,
   onTapsChange,
+  unitsOverride = 'auto',
+  sideOffset,
+  parcels = [],
+  addressPoints = [],
 }: MapViewProps) {
   const mapRef = useRef<MapRef>(null);
   const [selectedLateral, setSelectedLateral] = useState<LateralInspection | null>(null);
   const [selectedDefect, setSelectedDefect] = useState<DefectRecord | null>(null);
+  const [selectedContinuous, setSelectedContinuous] = useState<ContinuousDefect | null>(null);
   const [selectedInspection, setSelectedInspection] = useState<InspectionRecord | null>(null);
   const [selectedTap, setSelectedTap] = useState<TapInspection | null>(null);
+  const [selectedManhole, setSelectedManhole] = useState<ManholeInspection | null>(null);
   const mapboxToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || '';
   
   // Match inspections to assets and create inspection points
@@ -62,26 +81,8 @@ export default function MapView({
         const assetInspections = matchedInspections.get(assetKeyStr) || [];
         
         for (const inspection of assetInspections) {
-          // Get coordinates from asset geometry
-          let coordinates: [number, number] | null = null;
-          
-          const geometry = asset.geometry;
-          
-          if (geometry.type === 'Point') {
-            coordinates = geometry.coordinates as [number, number];
-          } else if (geometry.type === 'LineString') {
-            // Use the first point of the line
-            const coords = geometry.coordinates as [number, number][];
-            if (coords.length > 0) {
-              coordinates = coords[0];
-            }
-          } else if (geometry.type === 'MultiLineString') {
-            // Use the first point of the first line
-            const coords = geometry.coordinates as [number, number][][];
-            if (coords.length > 0 && coords[0].length > 0) {
-              coordinates = coords[0][0];
-            }
-          }
+          // Get coordinates from asset geometry (first point of the line, with MultiLineString parts chained)
+          const coordinates = assetReferencePoint(asset);
           
           if (coordinates) {
             points.push({ inspection, coordinates });
@@ -95,11 +96,6 @@ export default function MapView({
     return points;
   }, [inspections, assets]);
   
-  // Helper function to detect tap codes (TB, TF, TS)
-  const isTapCode = (code: string | null | undefined): boolean => {
-    const c = (code ?? "").trim().toUpperCase();
-    return c.startsWith("TB") || c.startsWith("TF") || c.startsWith("TS");
-  };
 
   // Calculate tap positions from defects with tap codes (TB/TF/TS)
   const tapPoints = useMemo(() => {
@@ -160,6 +156,9 @@ export default function MapView({
       });
       
       console.log("Taps joined to pipes (GeoJSON):", tapsWithPipe.length, "of", tapsWithInspection.length);
+
+      // Manhole points, used to tell which end of each pipe the camera started from
+      const manholeIndex = buildManholeIndex(assets);
       
       // Step 4: Calculate tap positions for matched taps
       for (const tapDefect of tapsWithPipe) {
@@ -169,6 +168,7 @@ export default function MapView({
         const fid = String(inspection.pipeSegmentReference ?? "").trim();
         
         // Find the matching asset
+        // Point assets carry the pipe direction set at upload, for clock positions relative to the pipe
         const asset = assets.find(a => {
           const assetFid = a.properties?.FID || a.properties?.fid || a.properties?.Fid;
           return assetFid && String(assetFid).trim() === fid;
@@ -176,24 +176,22 @@ export default function MapView({
         
         if (!asset) continue;
         
-        // Get distance and handle unit conversion
-        let distanceMeters = Number(tapDefect.distance);
-        
-        // Check if inspection uses imperial units (feet)
-        const isImperial = inspection.isImperial ?? inspection.raw?.IsImperial ?? inspection.properties?.IsImperial;
-        if (isImperial === 1 || isImperial === true) {
-          // Convert feet to meters
-          distanceMeters = distanceMeters * 0.3048;
-        }
+        // Distance is in the inspection's units (IsImperial header unless overridden)
+        const distance = Number(tapDefect.distance);
+        const { unit } = resolveInspectionUnits(inspection, unitsOverride);
         
         // Use clock position if available, otherwise default to 12 (north/top)
         const clockPosition = tapDefect.clockPosition ?? 12;
         
         try {
+          // Measure from the manhole the camera started at (flips distance and side for reversed surveys)
+          const surveyAsset = orientAsset(asset, orientInspection(inspection, asset, manholeIndex));
           const tapCoordinates = calculateLateralPosition(
-            asset,
-            distanceMeters,
-            clockPosition
+            surveyAsset,
+            distance,
+            clockPosition,
+            unit,
+            sideOffset
           ) as [number, number];
           
           taps.push({ defect: tapDefect, coordinates: tapCoordinates });
@@ -208,12 +206,16 @@ export default function MapView({
     }
     
     return taps;
-  }, [defects, assets, inspections]);
+  }, [defects, assets, inspections, unitsOverride, sideOffset]);
   
   // Geocode tap addresses when tapPoints change
   const [tapInspections, setTapInspections] = useState<TapInspection[]>([]);
   const [isGeocodingTaps, setIsGeocodingTaps] = useState(false);
   const previousTapPointsRef = useRef<string>('');
+  const addressIndex = useMemo(
+    () => (addressPoints.length > 0 ? buildAddressPointIndex(addressPoints) : null),
+    [addressPoints]
+  );
   
   useEffect(() => {
     if (tapPoints.length === 0) {
@@ -225,7 +227,7 @@ export default function MapView({
     }
     
     // Create a stable key from tapPoints to detect actual changes
-    const tapPointsKey = tapPoints.map(t => `${t.defect.id}-${t.coordinates[0]}-${t.coordinates[1]}`).join('|');
+    const tapPointsKey = `${addressIndex?.count ?? 0}|` + tapPoints.map(t => `${t.defect.id}-${t.coordinates[0]}-${t.coordinates[1]}`).join('|');
     
     // Skip if tapPoints haven't actually changed
     if (previousTapPointsRef.current === tapPointsKey) {
@@ -236,9 +238,12 @@ export default function MapView({
     
     const geocodeTaps = async () => {
       setIsGeocodingTaps(true);
-      const tapsWithAddresses: TapInspection[] = [];
       
-      for (const { defect, coordinates } of tapPoints) {
+      // Without address points, every tap is looked up on the server, which holds the provider settings,
+      // the cache and the request queue
+      const serverResults = addressIndex ? [] : await geocodeOnServer(tapPoints.map(t => t.coordinates));
+
+      const tapsWithAddresses = tapPoints.map(({ defect, coordinates }, idx): TapInspection => {
         const inspection = inspections.find(i => i.inspectionId === defect.inspectionId);
         const asset = assets.find(a => {
           const assetFid = a.properties?.FID || a.properties?.fid || a.properties?.Fid;
@@ -246,23 +251,15 @@ export default function MapView({
           return assetFid && String(assetFid).trim() === fid;
         });
         
-        let address = 'Address not found';
-        let addressDetails = {};
-        
-        try {
-          const geocodingResult = await Promise.race([
-            reverseGeocode(coordinates[0], coordinates[1]),
-            new Promise<{ address: string; details: any }>((_, reject) =>
-              setTimeout(() => reject(new Error('Geocoding timeout')), 5000)
-            )
-          ]);
-          address = geocodingResult.address;
-          addressDetails = geocodingResult.details;
-        } catch (geocodeError) {
-          console.warn('Geocoding failed for tap:', geocodeError);
-        }
+        // Offline: nearest address point on the tap's side of the pipe; otherwise the server's answer
+        const { address, details: addressDetails } = addressIndex
+          ? geocodeFromAddressPoints(addressIndex, coordinates, { main: asset })
+          : serverResults[idx];
         
-        const tapInspection: TapInspection = {
+        const { unit } = resolveInspectionUnits(inspection, unitsOverride);
+        const tapDistances = distanceInBothUnits(defect.distance ?? 0, unit);
+
+        return {
           id: `tap-${defect.id}`,
           coordinates,
           assetId: asset ? (asset.properties?.FID || asset.properties?.fid || asset.properties?.Fid || '') : '',
@@ -278,11 +275,12 @@ export default function MapView({
             ...defect.properties,
             inspectionId: defect.inspectionId,
             pipeSegmentReference: inspection?.pipeSegmentReference,
+            units: unit,
+            tapDistanceFeet: tapDistances.feet,
+            tapDistanceMeters: tapDistances.meters,
           },
         };
-        
-        tapsWithAddresses.push(tapInspection);
-      }
+      });
       
       setTapInspections(tapsWithAddresses);
       setIsGeocodingTaps(false);
@@ -294,7 +292,7 @@ export default function MapView({
     };
     
     geocodeTaps();
-  }, [tapPoints, inspections, assets]); // Removed onTapsChange from dependencies
+  }, [tapPoints, inspections, assets, addressIndex]); // Removed onTapsChange from dependencies
   
   // Use external taps if provided, otherwise use internal state
   const displayTaps = externalTaps || tapInspections;
@@ -423,11 +421,53 @@ export default function MapView({
     })),
   };
   
-  // Convert defects to GeoJSON for display
+  // Surveyed lateral paths (LACP) for display
+  const lateralLinesGeoJSON: FeatureCollection<LineString> = {
+    type: 'FeatureCollection',
+    features: laterals
+      .filter(lateral => lateral.lateralLine && lateral.lateralLine.length >= 2)
+      .map((lateral) => ({
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: lateral.lateralLine!,
+        },
+        properties: {
+          id: lateral.id,
+          address: lateral.address,
+          type: 'lateral-line',
+        },
+      })),
+  };
+  
+  // Lateral segments split at the property line: public (main to parcel boundary) and private
+  const lateralSegmentsGeoJSON: FeatureCollection<LineString> = {
+    type: 'FeatureCollection',
+    features: laterals.flatMap((lateral) =>
+      (['public', 'private'] as const)
+        .map((segment) => ({ segment, line: segment === 'public' ? lateral.publicLine : lateral.privateLine }))
+        .filter(({ line }) => line && line.length >= 2)
+        .map(({ segment, line }) => ({
+          type: 'Feature' as const,
+          geometry: {
+            type: 'LineString' as const,
+            coordinates: line!,
+          },
+          properties: {
+            id: `${lateral.id}-${segment}`,
+            segment,
+            apn: lateral.properties?.apn ?? null,
+          },
+        }))
+    ),
+  };
+
+  // Convert defects to GeoJSON for display; rows of continuous defects drawn as lines are left out
+  const continuousRowIds = continuousDefectRowIds(continuousDefects);
   const defectsGeoJSON: FeatureCollection<Point> = {
     type: 'FeatureCollection',
     features: defects
-      .filter(defect => defect.coordinates) // Only defects with coordinates
+      .filter(defect => defect.coordinates && !continuousRowIds.has(defect.id)) // Only defects with coordinates
       .map((defect) => ({
         type: 'Feature',
         geometry: {
@@ -444,6 +484,25 @@ export default function MapView({
       })),
   };
   
+  // Continuous defects as lines along the mainline
+  const placedContinuousDefects = continuousDefects.filter(c => c.line && c.line.length >= 2);
+  const continuousDefectsGeoJSON: FeatureCollection<LineString> = {
+    type: 'FeatureCollection',
+    features: placedContinuousDefects.map((continuous) => ({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: continuous.line!,
+      },
+      properties: {
+        id: continuous.id,
+        defectCode: continuous.defectCode,
+        grade: continuous.grade,
+        type: 'continuous-defect',
+      },
+    })),
+  };
+  
   // Convert inspections to GeoJSON for display
   const inspectionsGeoJSON: FeatureCollection<Point> = {
     type: 'FeatureCollection',
@@ -462,6 +521,25 @@ export default function MapView({
     })),
   };
   
+  // Manholes (MACP) that were joined to the asset layer
+  const locatedManholes = manholes.filter(manhole => manhole.coordinates);
+  const manholesGeoJSON: FeatureCollection<Point> = {
+    type: 'FeatureCollection',
+    features: locatedManholes.map((manhole) => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: manhole.coordinates!,
+      },
+      properties: {
+        id: manhole.id,
+        manholeId: manhole.manholeId,
+        observationCount: manhole.observations.length,
+        type: 'manhole',
+      },
+    })),
+  };
+  
   // Convert taps to GeoJSON for display (use displayTaps which have addresses)
   const tapsGeoJSON: FeatureCollection<Point> = {
     type: 'FeatureCollection',
@@ -526,6 +604,20 @@ export default function MapView({
         style={{ width: '100%', height: '100%' }}
         mapStyle="mapbox://styles/mapbox/streets-v12"
       >
+        {/* Parcels layer (outlines only, under everything else) */}
+        {parcels.length > 0 && (
+          <Source id="parcels" type="geojson" data={{ type: 'FeatureCollection', features: parcels }}>
+            <Layer
+              id="parcels-outline"
+              type="line"
+              paint={{
+                'line-color': '#9ca3af',
+                'line-width': 1,
+              }}
+            />
+          </Source>
+        )}
+
         {/* Assets layer */}
         {assets.length > 0 && (
           <>
@@ -557,6 +649,32 @@ export default function MapView({
         {/* Laterals layer */}
         {laterals.length > 0 && (
           <>
+            {lateralSegmentsGeoJSON.features.length > 0 && (
+              <Source id="lateral-segments" type="geojson" data={lateralSegmentsGeoJSON}>
+                <Layer
+                  id="lateral-segments"
+                  type="line"
+                  paint={{
+                    'line-color': ['match', ['get', 'segment'], 'public', '#f97316', '#a855f7'],
+                    'line-width': 3,
+                  }}
+                />
+              </Source>
+            )}
+
+            {lateralLinesGeoJSON.features.length > 0 && (
+              <Source id="lateral-lines" type="geojson" data={lateralLinesGeoJSON}>
+                <Layer
+                  id="lateral-lines"
+                  type="line"
+                  paint={{
+                    'line-color': '#ef4444',
+                    'line-width': 2,
+                  }}
+                />
+              </Source>
+            )}
+
             <Source id="laterals" type="geojson" data={lateralsGeoJSON}>
               <Layer
                 id="laterals-points"
@@ -630,6 +748,44 @@ export default function MapView({
           </>
         )}
         
+        {/* Manholes layer - MACP inspections joined to pipes by manhole ID */}
+        {locatedManholes.length > 0 && (
+          <>
+            <Source id="manholes" type="geojson" data={manholesGeoJSON}>
+              <Layer
+                id="manholes-points"
+                type="circle"
+                paint={{
+                  'circle-radius': 8,
+                  'circle-color': '#0891b2', // Cyan color for manholes
+                  'circle-stroke-width': 2,
+                  'circle-stroke-color': '#ffffff',
+                }}
+              />
+            </Source>
+            
+            {/* Manhole markers with click handlers */}
+            {locatedManholes.map((manhole) => (
+              <Marker
+                key={manhole.id}
+                longitude={manhole.coordinates![0]}
+                latitude={manhole.coordinates![1]}
+                anchor="center"
+                onClick={() => setSelectedManhole(manhole)}
+                style={{ cursor: 'pointer' }}
+              >
+                <div
+                  className={`w-4 h-4 rounded-sm border-2 border-white ${
+                    selectedManhole?.id === manhole.id
+                      ? 'bg-yellow-500'
+                      : 'bg-cyan-600'
+                  }`}
+                />
+              </Marker>
+            ))}
+          </>
+        )}
+        
         {/* Taps layer - defects with distance and clock position */}
         {displayTaps.length > 0 && (
           <>
@@ -668,6 +824,47 @@ export default function MapView({
           </>
         )}
         
+        {/* Continuous defects layer, clickable at the middle of each run */}
+        {placedContinuousDefects.length > 0 && (
+          <>
+            <Source id="continuous-defects" type="geojson" data={continuousDefectsGeoJSON}>
+              <Layer
+                id="continuous-defects"
+                type="line"
+                paint={{
+                  'line-color': '#f59e0b',
+                  'line-width': 6,
+                  'line-opacity': 0.8,
+                }}
+              />
+            </Source>
+
+            {placedContinuousDefects.map((continuous) => {
+              const middle = continuous.line![Math.floor(continuous.line!.length / 2)];
+              return (
+                <Marker
+                  key={`continuous-${continuous.id}`}
+                  longitude={middle[0]}
+                  latitude={middle[1]}
+                  anchor="center"
+                  onClick={() => {
+                    setSelectedContinuous(continuous);
+                    setSelectedDefect(null);
+                    setSelectedLateral(null);
+                  }}
+                  style={{ cursor: 'pointer' }}
+                >
+                  <div
+                    className={`w-3 h-3 border-2 border-white ${
+                      selectedContinuous?.id === continuous.id ? 'bg-yellow-500' : 'bg-amber-600'
+                    }`}
+                  />
+                </Marker>
+              );
+            })}
+          </>
+        )}
+
         {/* Defects layer - exclude defects that are already shown as taps */}
         {defects.length > 0 && defectsGeoJSON.features.length > 0 && (() => {
           // Get set of tap defect IDs to exclude from defects layer
@@ -678,7 +875,7 @@ export default function MapView({
           }).filter(Boolean));
           
           const nonTapDefects = defects.filter(defect => 
-            defect.coordinates && !tapDefectIds.has(defect.id)
+            defect.coordinates && !tapDefectIds.has(defect.id) && !continuousRowIds.has(defect.id)
           );
           
           if (nonTapDefects.length === 0) return null;
@@ -737,9 +934,15 @@ export default function MapView({
               <span className="font-medium">Address:</span>{' '}
               {selectedLateral.address || 'Not found'}
             </p>
+            {selectedLateral.addressDetails?.distanceMeters !== undefined && (
+              <p>
+                <span className="font-medium">Address Point:</span>{' '}
+                {selectedLateral.addressDetails.distanceMeters.toFixed(1)}m away
+              </p>
+            )}
             <p>
               <span className="font-medium">Tap Distance:</span>{' '}
-              {selectedLateral.tapDistance.toFixed(2)}m
+              {selectedLateral.tapDistance.toFixed(2)} {selectedLateral.properties?.units === 'feet' ? 'ft' : 'm'}
             </p>
             <p>
               <span className="font-medium">Clock Position:</span>{' '}
@@ -757,6 +960,21 @@ export default function MapView({
                 {selectedLateral.properties.pipeSegmentReference}
               </p>
             )}
+            {(selectedLateral.properties?.propertyLineFound || selectedLateral.properties?.parcelJoin) && (
+              <p>
+                <span className="font-medium">Parcel APN:</span>{' '}
+                {selectedLateral.properties.apn || 'Unknown'}
+                {selectedLateral.properties.publicLengthMeters != null &&
+                  ` (property line ${Number(selectedLateral.properties.publicLengthMeters).toFixed(1)}m from main)`}
+              </p>
+            )}
+            {selectedLateral.properties?.parcelJoin && (
+              <p>
+                <span className="font-medium">Parcel Owner:</span>{' '}
+                {selectedLateral.properties.parcelOwner || 'Unknown'}
+                {selectedLateral.properties.parcelLandUse && ` (${selectedLateral.properties.parcelLandUse})`}
+              </p>
+            )}
             {selectedLateral.properties?.defectCount !== undefined && (
               <p>
                 <span className="font-medium">Defects:</span>{' '}
@@ -847,6 +1065,12 @@ export default function MapView({
                 {selectedTap.address}
               </p>
             )}
+            {selectedTap.addressDetails?.distanceMeters !== undefined && (
+              <p>
+                <span className="font-medium">Address Point:</span>{' '}
+                {selectedTap.addressDetails.distanceMeters.toFixed(1)}m away
+              </p>
+            )}
             {selectedTap.defectCode && (
               <p>
                 <span className="font-medium">Defect Code:</span>{' '}
@@ -856,7 +1080,7 @@ export default function MapView({
             {selectedTap.distance !== undefined && (
               <p>
                 <span className="font-medium">Distance:</span>{' '}
-                {selectedTap.distance.toFixed(2)}m
+                {selectedTap.distance.toFixed(2)} {selectedTap.properties?.units === 'feet' ? 'ft' : 'm'}
               </p>
             )}
             {selectedTap.clockPosition !== undefined && (
@@ -887,6 +1111,56 @@ export default function MapView({
         </div>
       )}
       
+      {/* Info popup for manhole */}
+      {selectedManhole && (
+        <div className="absolute top-4 right-4 bg-white p-4 rounded-lg shadow-lg max-w-sm z-10">
+          <button
+            onClick={() => setSelectedManhole(null)}
+            className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
+          >
+            ×
+          </button>
+          <h3 className="font-semibold mb-2 text-cyan-700">Manhole Inspection</h3>
+          <div className="text-sm space-y-1">
+            <p>
+              <span className="font-medium">Manhole:</span>{' '}
+              {selectedManhole.manholeId}
+            </p>
+            <p>
+              <span className="font-medium">Inspection ID:</span>{' '}
+              {selectedManhole.inspectionId}
+            </p>
+            {selectedManhole.pipeSegmentReferences.length > 0 && (
+              <p>
+                <span className="font-medium">Connected Pipes:</span>{' '}
+                {selectedManhole.pipeSegmentReferences.join(', ')}
+              </p>
+            )}
+            {selectedManhole.inspectionDate && (
+              <p>
+                <span className="font-medium">Inspection Date:</span>{' '}
+                {selectedManhole.inspectionDate}
+              </p>
+            )}
+            <p>
+              <span className="font-medium">Observations:</span>{' '}
+              {selectedManhole.observations.length}
+            </p>
+            {selectedManhole.observations.length > 0 && (
+              <ul className="ml-4 list-disc max-h-32 overflow-y-auto">
+                {selectedManhole.observations.map((observation) => (
+                  <li key={observation.id} className="text-xs">
+                    {observation.defectCode}
+                    {observation.grade !== undefined && ` (grade ${observation.grade})`}
+                    {observation.defectDescription && ` - ${observation.defectDescription}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+      
       {/* Info popup for defect */}
       {selectedDefect && !selectedTap && (
         <div className="absolute top-4 right-4 bg-white p-4 rounded-lg shadow-lg max-w-sm z-10">
@@ -919,13 +1193,20 @@ export default function MapView({
             {selectedDefect.distance !== undefined && (
               <p>
                 <span className="font-medium">Distance:</span>{' '}
-                {selectedDefect.distance.toFixed(2)}m
+                {selectedDefect.distance.toFixed(2)} {selectedDefect.properties?.distanceUnits === 'feet' ? 'ft' : 'm'}
               </p>
             )}
             {selectedDefect.clockPosition !== undefined && (
               <p>
                 <span className="font-medium">Clock Position:</span>{' '}
                 {selectedDefect.clockPosition}
+                {selectedDefect.clockTo !== undefined && ` to ${selectedDefect.clockTo}`}
+              </p>
+            )}
+            {selectedDefect.continuous && (
+              <p>
+                <span className="font-medium">Continuous:</span>{' '}
+                {selectedDefect.continuous}
               </p>
             )}
             {selectedDefect.pipeSegmentReference && (
@@ -943,6 +1224,56 @@ export default function MapView({
           </div>
         </div>
       )}
+
+      {/* Info popup for continuous defect */}
+      {selectedContinuous && !selectedDefect && !selectedTap && (
+        <div className="absolute top-4 right-4 bg-white p-4 rounded-lg shadow-lg max-w-sm z-10">
+          <button
+            onClick={() => setSelectedContinuous(null)}
+            className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
+          >
+            ×
+          </button>
+          <h3 className="font-semibold mb-2">Continuous Defect</h3>
+          <div className="text-sm space-y-1">
+            {selectedContinuous.defectCode && (
+              <p>
+                <span className="font-medium">Defect Code:</span>{' '}
+                {selectedContinuous.defectCode} (S{selectedContinuous.marker}-F{selectedContinuous.marker})
+              </p>
+            )}
+            {selectedContinuous.defectDescription && (
+              <p>
+                <span className="font-medium">Description:</span>{' '}
+                {selectedContinuous.defectDescription}
+              </p>
+            )}
+            {selectedContinuous.grade !== undefined && (
+              <p>
+                <span className="font-medium">Grade:</span>{' '}
+                {String(selectedContinuous.grade)}
+              </p>
+            )}
+            <p>
+              <span className="font-medium">Distance:</span>{' '}
+              {selectedContinuous.startDistance} to {selectedContinuous.endDistance} {selectedContinuous.properties?.distanceUnits === 'feet' ? 'ft' : 'm'}
+            </p>
+            {selectedContinuous.clockFrom !== undefined && (
+              <p>
+                <span className="font-medium">Clock Range:</span>{' '}
+                {selectedContinuous.clockFrom}
+                {selectedContinuous.clockTo !== undefined && ` to ${selectedContinuous.clockTo}`}
+              </p>
+            )}
+            {selectedContinuous.inspectionId && (
+              <p>
+                <span className="font-medium">Inspection ID:</span>{' '}
+                {selectedContinuous.inspectionId}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { extractDefectData, pairContinuousDefects } from '../mdbParser';
+import { continuousDefectRowIds, defectsToGeoJSON } from '../../utils/exportUtils';
+import { DefectRecord } from '../../types';
+
+function defect(id: string, inspectionId: string, distance: number | undefined, continuous?: string, code = 'CL'): DefectRecord {
+  return { id, inspectionId, distance, continuous, defectCode: code, properties: {} };
+}
+
+describe('extractDefectData', () => {
+  it('reads S##/F## markers from the Continuous column, normalized to two digits', () => {
+    const defects = extractDefectData([
+      { InspectionID: '1', Distance: 5, PACP_Code: 'DAE', Continuous: 's1' },
+      { InspectionID: '1', Distance: 9, PACP_Code: 'DAE', Continuous: 'F01' },
+      { InspectionID: '1', Distance: 12, PACP_Code: 'TFA', Continuous: 'nope' },
+    ]);
+    expect(defects.map((d) => d.continuous)).toEqual(['S01', 'F01', undefined]);
+  });
+
+  it('does not read a column named Cont as the marker', () => {
+    const [row] = extractDefectData([{ InspectionID: '1', Distance: 5, PACP_Code: 'DAE', Cont: 'S01' }]);
+    expect(row.continuous).toBeUndefined();
+  });
+});
+
+describe('pairContinuousDefects', () => {
+  it('pairs each finish with the earliest open start of the same number and inspection', () => {
+    const pairs = pairContinuousDefects([
+      defect('s1', 'i1', 5, 'S01', 'DAE'),
+      defect('s2', 'i1', 7, 'S02'),
+      defect('other', 'i2', 1, 'F01'),
+      defect('f2', 'i1', 20, 'F02'),
+      defect('f1', 'i1', 9, 'F01'),
+    ]);
+
+    expect(pairs).toHaveLength(2);
+    expect(pairs.find((p) => p.marker === '01')).toMatchObject({
+      startDefectId: 's1',
+      finishDefectId: 'f1',
+      startDistance: 5,
+      endDistance: 9,
+      defectCode: 'DAE',
+      inspectionId: 'i1',
+    });
+    expect(pairs.find((p) => p.marker === '02')).toMatchObject({ startDefectId: 's2', finishDefectId: 'f2' });
+  });
+
+  it('leaves unfinished starts and rows without a distance unpaired', () => {
+    expect(pairContinuousDefects([defect('s', 'i1', 5, 'S01')])).toEqual([]);
+    expect(pairContinuousDefects([defect('s', 'i1', undefined, 'S01'), defect('f', 'i1', 9, 'F01')])).toEqual([]);
+  });
+});
+
+describe('defectsToGeoJSON', () => {
+  it('draws a placed pair as a line and leaves its rows out of the points', () => {
+    const rows = [
+      { ...defect('s1', 'i1', 5, 'S01'), coordinates: [-122.4, 37.8] as [number, number] },
+      { ...defect('f1', 'i1', 9, 'F01'), coordinates: [-122.3999, 37.8] as [number, number] },
+      { ...defect('s2', 'i1', 12, 'S02'), coordinates: [-122.3998, 37.8] as [number, number] },
+      { ...defect('f2', 'i1', 15, 'F02'), coordinates: [-122.3997, 37.8] as [number, number] },
+      { ...defect('tap', 'i1', 11, undefined, 'TFA'), coordinates: [-122.39985, 37.8] as [number, number] },
+    ];
+    const [placed, unplaced] = pairContinuousDefects(rows);
+    placed.line = [[-122.4, 37.8], [-122.3999, 37.8]];
+
+    expect(Array.from(continuousDefectRowIds([placed, unplaced]))).toEqual(['s1', 'f1']);
+    const features = defectsToGeoJSON(rows, [placed, unplaced]).features;
+    expect(features.map((f) => [f.geometry.type, f.properties?.id])).toEqual([
+      ['Point', 's2'],
+      ['Point', 'f2'],
+      ['Point', 'tap'],
+      ['LineString', placed.id],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import initSqlJs from 'sql.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { decodeGeoPackageGeometry, geoPackageCrsHints, listGeoPackageLayers, readGeoPackageLayer } from '../geopackageParser';
+
+/**
+ * GeoPackage geometry blob: "GP" header (little-endian flags, optional XY envelope) and a little-endian WKB body
+ */
+function gpkgGeometry(wkbType: number, positions: number[][], envelope = false): Uint8Array {
+  const dimensions = positions[0]?.length ?? 2;
+  const headerSize = 8 + (envelope ? 32 : 0);
+  const view = new DataView(new ArrayBuffer(headerSize + 9 + positions.length * dimensions * 8));
+  view.setUint8(0, 0x47);
+  view.setUint8(1, 0x50);
+  view.setUint8(3, 0x01 | (envelope ? 0x02 : 0));
+  view.setInt32(4, 2227, true);
+  let offset = headerSize;
+  view.setUint8(offset, 1);
+  view.setUint32(offset + 1, wkbType, true);
+  offset += 5;
+  if (wkbType % 1000 === 1) {
+    offset -= 4; // Points have no count
+  } else {
+    view.setUint32(offset, positions.length, true);
+  }
+  offset += 4;
+  for (const position of positions) {
+    for (const ordinate of position) {
+      view.setFloat64(offset, ordinate, true);
+      offset += 8;
+    }
+  }
+  return new Uint8Array(view.buffer, 0, offset);
+}
+
+async function geoPackage(): Promise<Uint8Array> {
+  const wasm = await readFile(join(process.cwd(), 'node_modules', 'sql.js', 'dist', 'sql-wasm.wasm'));
+  const SQL = await initSqlJs({ wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) as ArrayBuffer });
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE gpkg_spatial_ref_sys (srs_name TEXT, srs_id INTEGER PRIMARY KEY, organization TEXT, organization_coordsys_id INTEGER, definition TEXT);
+    CREATE TABLE gpkg_contents (table_name TEXT PRIMARY KEY, data_type TEXT, identifier TEXT, srs_id INTEGER);
+    CREATE TABLE gpkg_geometry_columns (table_name TEXT, column_name TEXT, geometry_type_name TEXT, srs_id INTEGER);
+    INSERT INTO gpkg_spatial_ref_sys VALUES ('NAD83 / California zone 3 (ftUS)', 2227, 'EPSG', 2227, 'PROJCS["NAD83 / California zone 3 (ftUS)"]');
+    INSERT INTO gpkg_contents VALUES ('sewer_mains', 'features', 'Sewer mains', 2227), ('basemap', 'tiles', NULL, 2227);
+    INSERT INTO gpkg_geometry_columns VALUES ('sewer_mains', 'geom', 'LINESTRING', 2227);
+    CREATE TABLE sewer_mains (fid INTEGER PRIMARY KEY, geom BLOB, FID_1 TEXT);
+  `);
+  const insert = db.prepare('INSERT INTO sewer_mains (geom, FID_1) VALUES (?, ?)');
+  insert.run([gpkgGeometry(2, [[6000000, 2100000], [6000100, 2100000]]), '001']);
+  insert.run([gpkgGeometry(1002, [[6000000, 2100100, 12.5], [6000100, 2100100, 13]], true), '002']);
+  insert.run([null, '003']);
+  insert.free();
+  const data = db.export();
+  db.close();
+  return data;
+}
+
+describe('GeoPackage layers', () => {
+  it('lists the feature tables only', async () => {
+    const layers = await listGeoPackageLayers(await geoPackage());
+    expect(layers).toEqual([
+      { tableName: 'sewer_mains', identifier: 'Sewer mains', geometryColumn: 'geom', geometryType: 'LINESTRING', srsId: 2227, featureCount: 3 },
+    ]);
+  });
+
+  it('reads features in the table CRS, dropping Z and rows without geometry', async () => {
+    const { srs, assets } = await readGeoPackageLayer(await geoPackage(), 'SEWER_MAINS');
+    expect(assets).toHaveLength(2);
+    expect(assets[1].geometry.coordinates).toEqual([[6000000, 2100100], [6000100, 2100100]]);
+    expect(assets[0].properties).toMatchObject({ FID_1: '001' });
+    expect(geoPackageCrsHints(srs)).toEqual({ epsg: '2227', prj: 'PROJCS["NAD83 / California zone 3 (ftUS)"]' });
+  });
+
+  it('rejects unknown tables and files without gpkg_contents', async () => {
+    await expect(readGeoPackageLayer(await geoPackage(), 'laterals')).rejects.toThrow(/not found/);
+    const wasm = await readFile(join(process.cwd(), 'node_modules', 'sql.js', 'dist', 'sql-wasm.wasm'));
+    const SQL = await initSqlJs({ wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) as ArrayBuffer });
+    const plain = new SQL.Database();
+    plain.run('CREATE TABLE t (x INTEGER)');
+    await expect(listGeoPackageLayers(plain.export())).rejects.toThrow(/Not a GeoPackage/);
+  });
+});
+
+describe('decodeGeoPackageGeometry', () => {
+  it('decodes points and rejects blobs without the GP header', () => {
+    expect(decodeGeoPackageGeometry(gpkgGeometry(1, [[1, 2]]))).toEqual({ type: 'Point', coordinates: [1, 2] });
+    expect(() => decodeGeoPackageGeometry(new Uint8Array(12))).toThrow(/header/);
+  });
+});
@@ -0,0 +1,57 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { parseKml, parseKmz } from '../kmlParser';
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <Folder>
+      <Placemark>
+        <name>Main 1</name>
+        <ExtendedData>
+          <SchemaData schemaUrl="#pipes"><SimpleData name="FID">001</SimpleData></SchemaData>
+          <Data name="Material"><value>VCP</value></Data>
+        </ExtendedData>
+        <LineString><coordinates>-122.4,37.8,0 -122.399,37.8,0</coordinates></LineString>
+      </Placemark>
+      <Placemark>
+        <MultiGeometry>
+          <LineString><coordinates>-122.4,37.81 -122.399,37.81</coordinates></LineString>
+          <LineString><coordinates>-122.399,37.81 -122.398,37.81</coordinates></LineString>
+        </MultiGeometry>
+      </Placemark>
+    </Folder>
+    <Placemark><Point><coordinates>-122.3,37.7</coordinates></Point></Placemark>
+    <Placemark><Polygon><outerBoundaryIs/></Polygon></Placemark>
+  </Document>
+</kml>`;
+
+describe('parseKml', () => {
+  it('reads placemarks from nested folders with their ExtendedData, dropping altitude', () => {
+    const assets = parseKml(KML);
+    expect(assets.map((a) => a.geometry.type).sort()).toEqual(['LineString', 'MultiLineString', 'Point']);
+    const line = assets.find((a) => a.geometry.type === 'LineString')!;
+    expect(line.geometry.coordinates).toEqual([[-122.4, 37.8], [-122.399, 37.8]]);
+    expect(line.properties).toMatchObject({ name: 'Main 1', FID: '001', Material: 'VCP' });
+  });
+
+  it('rejects documents without a kml root', () => {
+    expect(() => parseKml('<gpx/>')).toThrow(/missing <kml> root/);
+  });
+});
+
+describe('parseKmz', () => {
+  it('reads doc.kml from the archive', async () => {
+    const zip = new JSZip();
+    zip.file('files/icon.png', 'png');
+    zip.file('doc.kml', KML);
+    const assets = await parseKmz(await zip.generateAsync({ type: 'nodebuffer' }));
+    expect(assets).toHaveLength(3);
+  });
+
+  it('requires a .kml file in the archive', async () => {
+    const zip = new JSZip();
+    zip.file('readme.txt', 'no map here');
+    await expect(parseKmz(await zip.generateAsync({ type: 'nodebuffer' }))).rejects.toThrow(/does not contain a \.kml/);
+  });
+});
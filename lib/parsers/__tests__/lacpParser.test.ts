@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getLateralBends, linkLateralSurveys } from '../lacpParser';
+import { DefectRecord, InspectionRecord, LateralSurveyRecord } from '../../types';
+
+function survey(overrides: Partial<LateralSurveyRecord> = {}): LateralSurveyRecord {
+  return { inspectionId: 'L1', mainInspectionId: 'M1', observations: [], ...overrides };
+}
+
+function tap(id: string, distance: number): DefectRecord {
+  return { id, inspectionId: 'M1', distance, clockPosition: 3, defectCode: 'TFA', properties: {} };
+}
+
+const mainline: InspectionRecord = { inspectionId: 'M1', pipeSegmentReference: 'P1', isImperial: 0 };
+
+describe('linkLateralSurveys', () => {
+  it('matches the tap nearest the survey mainline distance, in the header units', () => {
+    // 32.8 ft is 10.0 m
+    const [linked] = linkLateralSurveys(
+      [survey({ mainlineDistance: 32.8, isImperial: 1 })],
+      [mainline],
+      [tap('t1', 5), tap('t2', 10.2)]
+    );
+    expect(linked.tapDefectId).toBe('t2');
+    expect(linked.clockPosition).toBe(3);
+    // The tap position is kept in the survey's units
+    expect(linked.mainlineDistance).toBeCloseTo(10.2 / 0.3048, 6);
+  });
+
+  it('reads every distance in the override units when one is given', () => {
+    // The survey header says meters but the mainline header says feet: only the override lines them up
+    const inputs: [LateralSurveyRecord[], InspectionRecord[], DefectRecord[]] = [
+      [survey({ mainlineDistance: 32.8, isImperial: 0 })],
+      [{ ...mainline, isImperial: 1 }],
+      [tap('t1', 32.8)],
+    ];
+    expect(linkLateralSurveys(...inputs)[0].tapDefectId).toBeUndefined();
+
+    const [linked] = linkLateralSurveys(...inputs, 1.0, 'feet');
+    expect(linked.tapDefectId).toBe('t1');
+    expect(linked.mainlineDistance).toBeCloseTo(32.8, 6);
+  });
+
+  it('counts a survey that only names its pipe as unlinked but keeps it', () => {
+    const [kept] = linkLateralSurveys(
+      [survey({ mainInspectionId: undefined, pipeSegmentReference: 'P9', mainlineDistance: 4 })],
+      [mainline],
+      []
+    );
+    expect(kept.mainInspectionId).toBeUndefined();
+    expect(kept.pipeSegmentReference).toBe('P9');
+  });
+});
+
+describe('getLateralBends', () => {
+  const bends = (overrides: Partial<LateralSurveyRecord>) => survey({
+    observations: [
+      { id: 'b1', distance: 10, defectCode: 'LR', properties: {} },
+      { id: 'b2', distance: 20, defectCode: 'LLU', properties: { Angle: 22.5 } },
+      { id: 'x', distance: 5, defectCode: 'RFB', properties: {} },
+    ],
+    ...overrides,
+  });
+
+  it('converts bend distances with the resolved unit, not the header', () => {
+    expect(getLateralBends(bends({ isImperial: 0 }), 'feet')).toEqual([
+      { distance: 3.048, angle: 45 },
+      { distance: 6.096, angle: -22.5 },
+    ]);
+  });
+
+  it('measures bends of a cleanout launch back from the mainline', () => {
+    const fromCleanout = getLateralBends(bends({ accessPoint: 'Cleanout', lengthSurveyed: 30 }), 'meters');
+    expect(fromCleanout).toEqual([
+      { distance: 10, angle: 22.5 },
+      { distance: 20, angle: -45 },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { extractManholeInspectionData, locateManholes } from '../macpParser';
+import { SewerAsset } from '../../types';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const INSPECTIONS = [
+  { InspectionID: 1, Manhole_Number: ' mh-1 ', IsImperial: 1, GPS_Latitude: '36.7', GPS_Longitude: '-121.6' },
+  { InspectionID: 2, Manhole_Number: 'MH-2', IsImperial: 0, GPS_Latitude: '0', GPS_Longitude: '0' },
+  { InspectionID: 3, Manhole_Number: 'MH-3' },
+  { InspectionID: 4, Manhole_Number: 'MH-4' },
+  { InspectionID: 5, Manhole_Number: '' },
+];
+const CONDITIONS = [
+  { InspectionID: 1, Distance: 2.5, MACP_Code: 'IR', Grade: 3 },
+  { InspectionID: 1, Distance: 4, MACP_Code: 'DS' },
+  { InspectionID: 3, Distance: 1, MACP_Code: 'MWM' },
+];
+
+const pipe = (fid: string, properties: Record<string, any> = {}): SewerAsset => ({
+  type: 'Feature',
+  geometry: { type: 'LineString', coordinates: fid === 'P1' ? [[-121.61, 36.71], [-121.6, 36.71]] : [[-121.6, 36.71], [-121.59, 36.71]] },
+  properties: { FID: fid, ...properties },
+});
+
+describe('extractManholeInspectionData', () => {
+  it('reads manholes with their observations and ignores GPS at 0,0', () => {
+    const manholes = extractManholeInspectionData(INSPECTIONS, CONDITIONS);
+    expect(manholes.map((m) => m.manholeId)).toEqual(['mh-1', 'MH-2', 'MH-3', 'MH-4']);
+    expect(manholes[0]).toMatchObject({ inspectionId: '1', isImperial: 1, coordinates: [-121.6, 36.7], locatedBy: 'gps' });
+    expect(manholes[0].observations.map((o) => o.defectCode)).toEqual(['IR', 'DS']);
+    expect(manholes[1]).toMatchObject({ coordinates: undefined, isImperial: 0, observations: [] });
+    expect(manholes[2].isImperial).toBeNull();
+  });
+});
+
+describe('locateManholes', () => {
+  it('prefers manhole points, then pipe attributes, then the PACP inspection ends', () => {
+    const manholes = extractManholeInspectionData(INSPECTIONS, CONDITIONS);
+    const assets: SewerAsset[] = [
+      { type: 'Feature', geometry: { type: 'Point', coordinates: [-121.605, 36.705] }, properties: { MH_ID: 'MH-1' } },
+      pipe('P1', { US_MH: 'mh-2', DS_MH: 'MH-3' }),
+      pipe('P2'),
+    ];
+    const inspections = [{ pipeSegmentReference: 'P2', upstreamMH: 'MH-3', downstreamMH: 'MH-4' }];
+    const [one, two, three, four] = locateManholes(manholes, inspections, assets);
+    expect(one).toMatchObject({ coordinates: [-121.605, 36.705], locatedBy: 'asset' });
+    expect(two).toMatchObject({ coordinates: [-121.61, 36.71], locatedBy: 'pipe-attribute', pipeSegmentReferences: ['P1'] });
+    expect(three).toMatchObject({ coordinates: [-121.6, 36.71], locatedBy: 'pipe-attribute', pipeSegmentReferences: ['P1', 'P2'] });
+    expect(four).toMatchObject({ coordinates: [-121.59, 36.71], locatedBy: 'inspection', pipeSegmentReferences: ['P2'] });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parsePacpXml } from '../pacpXmlParser';
+
+describe('parsePacpXml', () => {
+  it('reads nested conditions, which inherit the inspection and pipe of their header', () => {
+    const { rawInspections, rawConditions } = parsePacpXml(`<?xml version="1.0"?>
+      <PACP>
+        <Inspection ID="17">
+          <PipeSegmentReference>001</PipeSegmentReference>
+          <Direction>D</Direction>
+          <Condition><Code>TFA</Code><Distance>12.5</Distance><Clock_At_From>3</Clock_At_From></Condition>
+          <Condition><Code>MSA</Code><Distance>80</Distance></Condition>
+        </Inspection>
+      </PACP>`);
+
+    expect(rawInspections).toEqual([
+      expect.objectContaining({ InspectionID: '17', Pipe_Segment_Reference: '001', Direction: 'D' }),
+    ]);
+    expect(rawConditions).toHaveLength(2);
+    expect(rawConditions[0]).toMatchObject({ InspectionID: '17', Pipe_Segment_Reference: '001', PACP_Code: 'TFA', Distance: '12.5', Clock_At_From: '3' });
+  });
+
+  it('reads flat table rows', () => {
+    const { rawInspections, rawConditions } = parsePacpXml(`
+      <dataroot>
+        <PACP_Inspections><InspectionID>1</InspectionID><Pipe_Segment_Reference>A-1</Pipe_Segment_Reference></PACP_Inspections>
+        <PACP_Inspections><InspectionID>2</InspectionID><Pipe_Segment_Reference>A-2</Pipe_Segment_Reference></PACP_Inspections>
+        <PACP_Conditions><InspectionID>2</InspectionID><PACP_Code>TB</PACP_Code><Distance>4</Distance></PACP_Conditions>
+      </dataroot>`);
+
+    expect(rawInspections.map((row) => row.Pipe_Segment_Reference)).toEqual(['A-1', 'A-2']);
+    expect(rawConditions).toEqual([{ InspectionID: '2', PACP_Code: 'TB', Distance: '4' }]);
+  });
+});
@@ -0,0 +1,104 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { applyDefaultUnits, BundleInspectionData, mergeBundleDatabases, parseProjectSettings, readBundleAssets, readBundleDatabase, readProjectBundle, stubLengthMeters } from '../projectBundle';
+import { isPacpXml } from '../pacpXmlParser';
+
+const PIPES = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [{ type: 'Feature', geometry: { type: 'LineString', coordinates: [[-122.4, 37.8], [-122.399, 37.8]] }, properties: { FID: 'P1' } }],
+});
+
+const PACP_XML = '<PACP><Inspection ID="1"><Pipe_Segment_Reference>P1</Pipe_Segment_Reference><Condition><Code>TFA</Code><Distance>10</Distance></Condition></Inspection></PACP>';
+
+async function bundle(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, text] of Object.entries(files)) zip.file(name, text);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function database(inspectionIds: string[]): BundleInspectionData {
+  return {
+    inspections: inspectionIds.map((inspectionId) => ({ inspectionId })),
+    defects: inspectionIds.map((inspectionId) => ({ id: `d${inspectionId}`, inspectionId, properties: {} })),
+    lateralSurveys: [],
+    manholeInspections: [],
+  };
+}
+
+describe('parseProjectSettings', () => {
+  it('accepts the usual unit spellings and converts the stub length', () => {
+    const settings = parseProjectSettings('﻿{"lateralLayerName": " Laterals ", "units": "ft", "stubLength": 10, "epsg": "2227"}');
+    expect(settings).toEqual({ layerName: 'Laterals', units: 'feet', stubLength: 10, epsg: '2227' });
+    expect(stubLengthMeters(settings)).toBeCloseTo(3.048, 6);
+    expect(stubLengthMeters({})).toBeUndefined();
+  });
+
+  it('rejects unknown units and non-positive stub lengths', () => {
+    expect(() => parseProjectSettings('{"units": "yards"}')).toThrow(/Unknown units/);
+    expect(() => parseProjectSettings('{"stubLength": 0}')).toThrow(/positive number/);
+    expect(() => parseProjectSettings('[]')).toThrow(/must be an object/);
+  });
+});
+
+describe('isPacpXml', () => {
+  it('tells PACP exchange files from GIS metadata sidecars by the root element', () => {
+    expect(isPacpXml(`<?xml version="1.0"?><!-- export --><PACP/>`)).toBe(true);
+    expect(isPacpXml('<?xml version="1.0"?><metadata xml:lang="en"/>')).toBe(false);
+    expect(isPacpXml('<PAMDataset><Metadata/></PAMDataset>')).toBe(false);
+  });
+});
+
+describe('readProjectBundle', () => {
+  it('sorts the files into settings, the asset layer and databases, skipping XML sidecars', async () => {
+    const result = await readProjectBundle(await bundle({
+      'project/settings.json': '{"units": "meters"}',
+      'project/pipes.geojson': PIPES,
+      'project/pipes.shp.xml': '<metadata/>',
+      'project/notes.xml': '<metadata/>',
+      'project/inspections.xml': PACP_XML,
+      '__MACOSX/project/._pipes.geojson': 'resource fork',
+    }));
+
+    expect(result.settingsFile).toBe('project/settings.json');
+    expect(result.settings).toEqual({ units: 'meters' });
+    expect(result.assetFile).toMatchObject({ name: 'project/pipes.geojson', kind: 'geojson' });
+    expect(result.databases.map((d) => d.name)).toEqual(['project/inspections.xml']);
+
+    const { assets } = await readBundleAssets(result.assetFile);
+    expect(assets).toHaveLength(1);
+    const data = await readBundleDatabase(result.databases[0]);
+    expect(data.reader).toBe('xml');
+    expect(data.defects[0]).toMatchObject({ inspectionId: '1', defectCode: 'TFA', distance: 10 });
+  });
+
+  it('asks for assetLayer when the bundle holds several asset layers', async () => {
+    const files = { 'a.geojson': PIPES, 'b.geojson': PIPES, 'inspections.xml': PACP_XML };
+    await expect(readProjectBundle(await bundle(files))).rejects.toThrow(/assetLayer/);
+    const named = await readProjectBundle(await bundle({ ...files, 'settings.json': '{"assetLayer": "b"}' }));
+    expect(named.assetFile.name).toBe('b.geojson');
+  });
+
+  it('requires an inspection database', async () => {
+    await expect(readProjectBundle(await bundle({ 'pipes.geojson': PIPES }))).rejects.toThrow(/no inspection database/);
+  });
+});
+
+describe('mergeBundleDatabases', () => {
+  it('prefixes inspection IDs with the database name only when they collide', () => {
+    expect(mergeBundleDatabases([{ name: 'a.mdb', data: database(['1']) }, { name: 'b.mdb', data: database(['2']) }])
+      .inspections.map((i) => i.inspectionId)).toEqual(['1', '2']);
+
+    const merged = mergeBundleDatabases([{ name: 'x/2019.mdb', data: database(['1']) }, { name: '2021.accdb', data: database(['1']) }]);
+    expect(merged.inspections.map((i) => i.inspectionId)).toEqual(['2019:1', '2021:1']);
+    expect(merged.defects.map((d) => d.inspectionId)).toEqual(['2019:1', '2021:1']);
+  });
+});
+
+describe('applyDefaultUnits', () => {
+  it('fills in IsImperial only where the database left it out', () => {
+    const data = database(['1', '2']);
+    data.inspections[1].isImperial = 0;
+    applyDefaultUnits(data, 'feet');
+    expect(data.inspections.map((i) => i.isImperial)).toEqual([1, 0]);
+  });
+});
@@ -0,0 +1,141 @@
+import JSZip from 'jszip';
+import { describe, expect, it, vi } from 'vitest';
+import { cpgToEncoding, parseShapefileZip } from '../shapefileParser';
+
+type Line = number[][] | null;
+
+/**
+ * Minimal PolyLine .shp (shape type 3), one part per record; null records are written as null shapes
+ */
+function shp(lines: Line[]): Uint8Array {
+  const contents = lines.map((line) => (line ? 44 + 4 + line.length * 16 : 4));
+  const length = 100 + contents.reduce((sum, size) => sum + 8 + size, 0);
+  const view = new DataView(new ArrayBuffer(length));
+  view.setInt32(0, 9994);
+  view.setInt32(24, length / 2);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, 3, true);
+
+  let offset = 100;
+  lines.forEach((line, index) => {
+    view.setInt32(offset, index + 1);
+    view.setInt32(offset + 4, contents[index] / 2);
+    offset += 8;
+    if (!line) {
+      view.setInt32(offset, 0, true);
+      offset += 4;
+      return;
+    }
+    const xs = line.map((p) => p[0]);
+    const ys = line.map((p) => p[1]);
+    view.setInt32(offset, 3, true);
+    [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].forEach((value, i) => view.setFloat64(offset + 4 + i * 8, value, true));
+    view.setInt32(offset + 36, 1, true);
+    view.setInt32(offset + 40, line.length, true);
+    view.setInt32(offset + 44, 0, true);
+    offset += 48;
+    for (const [x, y] of line) {
+      view.setFloat64(offset, x, true);
+      view.setFloat64(offset + 8, y, true);
+      offset += 16;
+    }
+  });
+  return new Uint8Array(view.buffer);
+}
+
+/**
+ * Minimal .dbf with one character field, holding the given raw (already encoded) values
+ */
+function dbf(field: string, values: Uint8Array[]): Uint8Array {
+  const width = 20;
+  const headerLength = 32 + 32 + 1;
+  const recordLength = 1 + width;
+  const bytes = new Uint8Array(headerLength + values.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = 0x03;
+  view.setUint32(4, values.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  bytes.set(new TextEncoder().encode(field), 32);
+  bytes[32 + 11] = 'C'.charCodeAt(0);
+  bytes[32 + 16] = width;
+  bytes[64] = 0x0d;
+  values.forEach((value, index) => {
+    const start = headerLength + index * recordLength;
+    bytes.fill(0x20, start, start + recordLength);
+    bytes.set(value, start + 1);
+  });
+  bytes[bytes.length - 1] = 0x1a;
+  return bytes;
+}
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+async function zipOf(files: Record<string, Uint8Array | string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+const MAINS = shp([[[0, 0], [10, 0]], null, [[0, 5], [10, 5]]]);
+
+describe('cpgToEncoding', () => {
+  it('maps ArcGIS codepage spellings to decoder labels', () => {
+    expect(cpgToEncoding('UTF-8')).toBe('utf-8');
+    expect(cpgToEncoding('ANSI 1252')).toBe('windows-1252');
+    expect(cpgToEncoding('88591')).toBe('iso-8859-1');
+    expect(cpgToEncoding('8859_15')).toBe('iso-8859-15');
+    expect(cpgToEncoding('')).toBe('windows-1252');
+  });
+
+  it('falls back to Windows-1252 for codepages the platform cannot decode', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(cpgToEncoding('not-a-codepage')).toBe('windows-1252');
+    warn.mockRestore();
+  });
+});
+
+describe('parseShapefileZip', () => {
+  it('numbers records from 0 as FID and drops null shapes', async () => {
+    const data = await zipOf({
+      'export/mains.shp': MAINS,
+      'export/mains.shx': new Uint8Array(0),
+      'export/mains.dbf': dbf('NAME', [ascii('Main A'), ascii('Gone'), ascii('Main C')]),
+      'export/mains.prj': ' PROJCS["NAD83 / California zone 3 (ftUS)"]\n',
+    });
+    const { name, assets, prj, encoding } = await parseShapefileZip(data);
+    expect(name).toBe('mains');
+    expect(prj).toBe('PROJCS["NAD83 / California zone 3 (ftUS)"]');
+    expect(encoding).toBe('windows-1252');
+    expect(assets.map((asset) => asset.properties)).toEqual([
+      { FID: '0', id: '0', NAME: 'Main A' },
+      { FID: '2', id: '2', NAME: 'Main C' },
+    ]);
+  });
+
+  it('decodes attributes with the .cpg codepage', async () => {
+    const data = await zipOf({
+      'mains.shp': shp([[[0, 0], [1, 1]]]),
+      'mains.shx': new Uint8Array(0),
+      'mains.dbf': dbf('STREET', [Uint8Array.from([0x50, 0x65, 0xf1, 0x61])]),
+      'mains.cpg': '1252',
+    });
+    const { assets } = await parseShapefileZip(data);
+    expect(assets[0].properties.STREET).toBe('Peña');
+  });
+
+  it('picks the requested layer and reports missing parts', async () => {
+    const data = await zipOf({
+      'mains.shp': MAINS,
+      'mains.shx': new Uint8Array(0),
+      'mains.dbf': dbf('NAME', [ascii('A'), ascii('B'), ascii('C')]),
+      'laterals.shp': MAINS,
+      '__MACOSX/._laterals.dbf': new Uint8Array(4),
+    });
+    const layer = await parseShapefileZip(data, { layerName: 'MAINS' });
+    expect(layer.assets.map((asset) => asset.properties.FID)).toEqual(['0', '2']);
+    await expect(parseShapefileZip(data, { layerName: 'laterals' })).rejects.toThrow(/missing its \.dbf/);
+    await expect(parseShapefileZip(data, { layerName: 'parcels' })).rejects.toThrow(/Available layers: mains, laterals/);
+    await expect(parseShapefileZip(await zipOf({ 'readme.txt': 'no shapes' }))).rejects.toThrow(/does not contain a \.shp/);
+  });
+});
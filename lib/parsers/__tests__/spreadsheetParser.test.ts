@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { applyColumnMapping, isExcelWorkbook, isSpreadsheetFile, parseSpreadsheet, suggestColumnMapping } from '../spreadsheetParser';
+import { resolveInspectionUnits } from '../../utils/units';
+import { ColumnMapping } from '../../types';
+
+const MAPPING: ColumnMapping = {
+  pipeSegmentReference: 'Pipe',
+  inspectionId: null,
+  distance: 'Dist',
+  clockPosition: 'Clock',
+  defectCode: null,
+};
+
+describe('isSpreadsheetFile', () => {
+  it('accepts CSV and leaves Excel workbooks to be rejected', () => {
+    expect(isSpreadsheetFile('taps.CSV')).toBe(true);
+    expect(isSpreadsheetFile('taps.xlsx')).toBe(false);
+    expect(isExcelWorkbook('taps.xlsx')).toBe(true);
+    expect(isExcelWorkbook('taps.xls')).toBe(true);
+  });
+});
+
+describe('parseSpreadsheet', () => {
+  it('keeps cells as text, strips the BOM and collects columns from every row', () => {
+    const { columns, rows } = parseSpreadsheet(Buffer.from('﻿Pipe,Dist\n001,12.5\n002,3,extra\n\n'));
+    expect(columns[0]).toBe('Pipe');
+    expect(columns).toContain('Dist');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ Pipe: '001', Dist: '12.5' });
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  it('matches common header names regardless of case and separators', () => {
+    expect(suggestColumnMapping(['pipe segment reference', 'DIST', 'clock_position', 'Code'])).toEqual({
+      pipeSegmentReference: 'pipe segment reference',
+      inspectionId: null,
+      distance: 'DIST',
+      clockPosition: 'clock_position',
+      defectCode: 'Code',
+    });
+  });
+});
+
+describe('applyColumnMapping', () => {
+  const rows = [
+    { Pipe: 'P1', Dist: '10', Clock: '3' },
+    { Pipe: 'P1', Dist: '25.5', Clock: '9' },
+    { Pipe: 'P2', Dist: '4', Clock: '' },
+    { Pipe: '', Dist: '7', Clock: '12' },
+  ];
+
+  it('gives each pipe one inspection and treats rows without a code column as taps', () => {
+    const { inspections, defects } = applyColumnMapping(rows, MAPPING);
+    expect(inspections.map((i) => i.inspectionId)).toEqual(['P1', 'P2']);
+    expect(defects).toHaveLength(3);
+    expect(defects.every((d) => d.defectCode === 'TB')).toBe(true);
+    expect(defects[1]).toMatchObject({ inspectionId: 'P1', distance: 25.5 });
+  });
+
+  it('leaves the IsImperial header empty when no unit is given', () => {
+    const { inspections } = applyColumnMapping(rows, MAPPING);
+    expect(inspections[0].isImperial).toBeUndefined();
+    expect(resolveInspectionUnits(inspections[0], 'feet')).toEqual({ unit: 'feet', source: 'override' });
+    expect(resolveInspectionUnits(inspections[0]).source).toBe('default');
+  });
+
+  it('records the stated unit as the IsImperial header', () => {
+    expect(applyColumnMapping(rows, MAPPING, { units: 'feet' }).inspections[0].isImperial).toBe(1);
+    expect(applyColumnMapping(rows, MAPPING, { units: 'meters' }).inspections[0].isImperial).toBe(0);
+  });
+
+  it('requires a pipe segment reference column', () => {
+    expect(() => applyColumnMapping(rows, { ...MAPPING, pipeSegmentReference: null })).toThrow(/pipe segment reference/);
+  });
+});
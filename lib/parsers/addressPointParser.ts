@@ -0,0 +1,102 @@
+import { Feature, FeatureCollection, Point } from 'geojson';
+import { AddressPoint } from '../types';
+import { pickField, fieldValue } from '../utils/fieldNames';
+
+// Address columns seen in county/NENA address-point layers
+const FULL_ADDRESS_FIELDS = ['FULLADDR', 'FULL_ADDR', 'FULL_ADDRESS', 'FullAddress', 'ADDRESS', 'ADDR', 'SITE_ADDR', 'SITEADDR', 'SITUS', 'SITUS_ADDR', 'ADDRESS_FULL'];
+const NUMBER_FIELDS = ['ADDNUM', 'ADD_NUM', 'Add_Number', 'ADDRNUM', 'ADDR_NUM', 'HOUSENUM', 'HOUSE_NUM', 'HOUSE_NO', 'ST_NUM', 'STNUM', 'STREET_NUM', 'NUMBER'];
+const STREET_FIELDS = ['FULLNAME', 'FULL_STREET', 'FULLSTREET', 'STREET', 'STREETNAME', 'STREET_NAME', 'ST_NAME', 'STNAME', 'ROAD', 'RD_NAME'];
+const PREFIX_DIR_FIELDS = ['PREDIR', 'PRE_DIR', 'ST_PREFIX', 'St_PreDir'];
+const STREET_TYPE_FIELDS = ['STREETTYPE', 'STREET_TYPE', 'ST_TYPE', 'SUFTYPE', 'SUF_TYPE', 'POSTTYPE', 'St_PosTyp'];
+const SUFFIX_DIR_FIELDS = ['SUFDIR', 'SUF_DIR', 'POSTDIR', 'POST_DIR', 'St_PosDir'];
+const CITY_FIELDS = ['CITY', 'MUNICIPALITY', 'MUNI', 'POSTCOMM', 'Post_Comm', 'MSAG_COMM', 'COMMUNITY', 'PLACE', 'TOWN'];
+const STATE_FIELDS = ['STATE', 'STATE_ABBR', 'STATE_CODE', 'ST'];
+const ZIP_FIELDS = ['ZIP', 'ZIPCODE', 'ZIP_CODE', 'ZIP5', 'POSTCODE', 'POST_CODE', 'PostalCode'];
+
+function pointOf(feature: Feature): Point | null {
+  const geometry = feature.geometry;
+  if (geometry?.type === 'Point') return geometry;
+  if (geometry?.type === 'MultiPoint' && geometry.coordinates.length > 0) {
+    return { type: 'Point', coordinates: geometry.coordinates[0] };
+  }
+  return null;
+}
+
+/**
+ * Read an address-point layer into addresses. The street comes from the number and street-name
+ * columns when the layer has them, otherwise from the full address column (up to the first comma).
+ * Columns are detected once from the first point's attributes; points without an address are skipped.
+ */
+export function parseAddressPoints(collection: FeatureCollection): {
+  addressPoints: AddressPoint[];
+  fields: Record<string, string | null>;
+} {
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Address point layer must be a FeatureCollection');
+  }
+
+  const points = collection.features
+    .map((feature) => ({ feature, point: pointOf(feature) }))
+    .filter((entry): entry is { feature: Feature; point: Point } => entry.point !== null);
+  const columns = Object.keys(points[0]?.feature.properties || {});
+  const fields = {
+    fullAddress: pickField(columns, FULL_ADDRESS_FIELDS),
+    number: pickField(columns, NUMBER_FIELDS),
+    street: pickField(columns, STREET_FIELDS),
+    prefixDirection: pickField(columns, PREFIX_DIR_FIELDS),
+    streetType: pickField(columns, STREET_TYPE_FIELDS),
+    suffixDirection: pickField(columns, SUFFIX_DIR_FIELDS),
+    city: pickField(columns, CITY_FIELDS),
+    state: pickField(columns, STATE_FIELDS),
+    zip: pickField(columns, ZIP_FIELDS),
+  };
+
+  const addressPoints: AddressPoint[] = [];
+  points.forEach(({ feature, point }, index) => {
+    const properties = feature.properties || {};
+    const full = fieldValue(properties, fields.fullAddress);
+    const streetName = fieldValue(properties, fields.street);
+    let street = '';
+    if (streetName) {
+      street = [
+        fieldValue(properties, fields.number),
+        fieldValue(properties, fields.prefixDirection),
+        streetName,
+        fieldValue(properties, fields.streetType),
+        fieldValue(properties, fields.suffixDirection),
+      ].filter(Boolean).join(' ');
+    } else if (full) {
+      street = full.split(',')[0].trim();
+    }
+
+    const details = {
+      street,
+      city: fieldValue(properties, fields.city) ?? '',
+      state: fieldValue(properties, fields.state) ?? '',
+      zip: fieldValue(properties, fields.zip) ?? '',
+    };
+    const address = full || [details.street, details.city, details.state, details.zip].filter(Boolean).join(', ');
+    if (!address) return;
+
+    addressPoints.push({
+      type: 'Feature',
+      id: String(feature.id ?? `address-${index}`),
+      geometry: point,
+      address,
+      details: { ...details, fullAddress: address },
+      properties,
+    });
+  });
+
+  console.log(`Parsed ${addressPoints.length} address points (${collection.features.length - addressPoints.length} features without a point or an address skipped)`, fields);
+  return { addressPoints, fields };
+}
+
+/**
+ * An address point as /api/process needs it: geometry, address and details, without the layer's
+ * other attributes
+ */
+export function addressPointForProcessing(point: AddressPoint): AddressPoint {
+  const { type, id, address, details, geometry } = point;
+  return { type, id, address, details, geometry, properties: {} };
+}
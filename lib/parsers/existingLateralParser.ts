@@ -0,0 +1,43 @@
+import { Feature, FeatureCollection } from 'geojson';
+import { ExistingLateral } from '../types';
+import { pickField, fieldValue } from '../utils/fieldNames';
+
+// Lateral ID and parent main columns seen in utility lateral layers
+const ID_FIELDS = ['LATERAL_ID', 'LateralID', 'Lateral_No', 'FACILITYID', 'FacilityID', 'ASSET_ID', 'AssetID', 'GIS_ID', 'GISID', 'OBJECTID', 'FID', 'ID'];
+const MAIN_FIELDS = ['MAIN_ID', 'MainID', 'Main_FID', 'MAINFID', 'Pipe_Segment_Reference', 'PipeSegmentReference', 'Pipe_ID', 'PipeID', 'Parent_Main', 'ParentMain', 'MAIN'];
+
+/**
+ * Keep the point and line features of an existing service lateral layer, reading each one's ID and,
+ * when the layer has one, the main it hangs off. Columns are detected once from the first feature.
+ */
+export function parseExistingLaterals(collection: FeatureCollection): {
+  laterals: ExistingLateral[];
+  idField: string | null;
+  mainField: string | null;
+} {
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Lateral layer must be a FeatureCollection');
+  }
+
+  const features = collection.features.filter(
+    (feature: Feature) =>
+      feature.geometry?.type === 'Point' || feature.geometry?.type === 'LineString' || feature.geometry?.type === 'MultiLineString'
+  );
+  const columns = Object.keys(features[0]?.properties || {});
+  const idField = pickField(columns, ID_FIELDS);
+  const mainField = pickField(columns, MAIN_FIELDS);
+
+  const laterals: ExistingLateral[] = features.map((feature, index) => {
+    const properties = feature.properties || {};
+    return {
+      type: 'Feature',
+      id: fieldValue(properties, idField) || String(feature.id ?? `existing-${index}`),
+      mainId: fieldValue(properties, mainField),
+      geometry: feature.geometry as ExistingLateral['geometry'],
+      properties,
+    };
+  });
+
+  console.log(`Parsed ${laterals.length} existing laterals (${collection.features.length - features.length} other features skipped)`, { idField, mainField });
+  return { laterals, idField, mainField };
+}
@@ -0,0 +1,290 @@
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { SewerAsset } from '../types';
+import { parseGeoJSON } from './geojsonParser';
+import { findCRS } from '../utils/crsRegistry';
+
+export interface GeoPackageLayer {
+  tableName: string;
+  identifier?: string;
+  geometryColumn: string;
+  geometryType: string; // e.g. LINESTRING, MULTILINESTRING, POINT
+  srsId: number;
+  featureCount: number;
+}
+
+export interface GeoPackageSRS {
+  srsId: number;
+  organization?: string; // usually "EPSG"
+  organizationCoordsysId?: number;
+  definition?: string; // WKT
+}
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load sql.js (SQLite compiled to WebAssembly) once per server process.
+ * The .wasm file is read from node_modules because bundling moves the sql.js module away from it.
+ */
+function getSql(): Promise<SqlJsStatic> {
+  if (!sqlPromise) {
+    sqlPromise = readFile(join(process.cwd(), 'node_modules', 'sql.js', 'dist', 'sql-wasm.wasm'))
+      .then((wasm) => {
+        const wasmBinary = wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) as ArrayBuffer;
+        return initSqlJs({ wasmBinary });
+      })
+      .catch((error) => {
+        sqlPromise = null;
+        throw error;
+      });
+  }
+  return sqlPromise;
+}
+
+async function openGeoPackage(data: Buffer | Uint8Array): Promise<Database> {
+  const SQL = await getSql();
+  const db = new SQL.Database(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  const hasContents = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'gpkg_contents'");
+  if (hasContents.length === 0) {
+    db.close();
+    throw new Error('Not a GeoPackage (gpkg_contents table is missing)');
+  }
+  return db;
+}
+
+function queryRows(db: Database, sql: string, params: any[] = []): Record<string, any>[] {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const rows: Record<string, any>[] = [];
+    while (stmt.step()) {
+      rows.push(stmt.getAsObject());
+    }
+    return rows;
+  } finally {
+    stmt.free();
+  }
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * List the feature tables in a GeoPackage
+ */
+export async function listGeoPackageLayers(data: Buffer | Uint8Array): Promise<GeoPackageLayer[]> {
+  const db = await openGeoPackage(data);
+  try {
+    return readLayers(db);
+  } finally {
+    db.close();
+  }
+}
+
+function readLayers(db: Database): GeoPackageLayer[] {
+  const rows = queryRows(
+    db,
+    `SELECT c.table_name, c.identifier, c.srs_id, g.column_name, g.geometry_type_name
+     FROM gpkg_contents c
+     JOIN gpkg_geometry_columns g ON g.table_name = c.table_name
+     WHERE c.data_type = 'features'
+     ORDER BY c.table_name`
+  );
+
+  return rows.map((row) => {
+    let featureCount = 0;
+    try {
+      featureCount = Number(db.exec(`SELECT COUNT(*) FROM ${quoteIdentifier(row.table_name)}`)[0]?.values[0]?.[0] ?? 0);
+    } catch (error) {
+      console.warn(`Could not count features in ${row.table_name}:`, (error as Error).message);
+    }
+    return {
+      tableName: String(row.table_name),
+      identifier: row.identifier != null ? String(row.identifier) : undefined,
+      geometryColumn: String(row.column_name),
+      geometryType: String(row.geometry_type_name).toUpperCase(),
+      srsId: Number(row.srs_id),
+      featureCount,
+    };
+  });
+}
+
+/**
+ * Read one feature table as sewer assets, in the table's own coordinate system.
+ * Returns the table's spatial reference so the caller can reproject.
+ */
+export async function readGeoPackageLayer(
+  data: Buffer | Uint8Array,
+  tableName: string
+): Promise<{ layer: GeoPackageLayer; srs: GeoPackageSRS | null; assets: SewerAsset[] }> {
+  const db = await openGeoPackage(data);
+  try {
+    const layer = readLayers(db).find((l) => l.tableName.toLowerCase() === tableName.toLowerCase());
+    if (!layer) {
+      throw new Error(`Feature table "${tableName}" not found in GeoPackage`);
+    }
+
+    const srsRows = queryRows(
+      db,
+      'SELECT srs_id, organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?',
+      [layer.srsId]
+    );
+    const srs: GeoPackageSRS | null = srsRows[0]
+      ? {
+          srsId: Number(srsRows[0].srs_id),
+          organization: srsRows[0].organization != null ? String(srsRows[0].organization) : undefined,
+          organizationCoordsysId: srsRows[0].organization_coordsys_id != null ? Number(srsRows[0].organization_coordsys_id) : undefined,
+          definition: srsRows[0].definition != null ? String(srsRows[0].definition) : undefined,
+        }
+      : null;
+
+    const rows = queryRows(db, `SELECT * FROM ${quoteIdentifier(layer.tableName)}`);
+    const features: Feature[] = [];
+    let skipped = 0;
+
+    for (const row of rows) {
+      const { [layer.geometryColumn]: blob, ...attributes } = row;
+      const geometry = blob instanceof Uint8Array ? decodeGeoPackageGeometry(blob) : null;
+      if (!geometry) {
+        skipped++;
+        continue;
+      }
+      features.push({ type: 'Feature', geometry, properties: attributes });
+    }
+
+    console.log(`Read GeoPackage layer "${layer.tableName}": ${features.length} features, ${skipped} skipped (empty or unsupported geometry)`);
+
+    const collection: FeatureCollection = { type: 'FeatureCollection', features };
+    return { layer, srs, assets: parseGeoJSON(collection) };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Turn a table's spatial reference into detectSourceCRS inputs:
+ * the registry definition for known EPSG codes, otherwise the stored WKT
+ */
+export function geoPackageCrsHints(srs: GeoPackageSRS | null): { epsg: string | null; prj: string | null } {
+  const srsCode = srs?.organization?.toUpperCase() === 'EPSG' ? String(srs.organizationCoordsysId) : null;
+  const srsWkt = srs?.definition && srs.definition.trim().toLowerCase() !== 'undefined' ? srs.definition : null;
+  return {
+    epsg: srsCode && findCRS(srsCode) ? srsCode : null,
+    prj: srsWkt,
+  };
+}
+
+/**
+ * Decode a GeoPackage geometry blob: "GP" header (flags, srs_id, optional envelope) followed by WKB.
+ * Returns null for empty geometries and types that are not points or lines.
+ */
+export function decodeGeoPackageGeometry(blob: Uint8Array): Geometry | null {
+  if (blob.length < 8 || blob[0] !== 0x47 || blob[1] !== 0x50) {
+    throw new Error('Invalid GeoPackage geometry header');
+  }
+
+  const flags = blob[3];
+  const isEmpty = (flags >> 4) & 1;
+  const envelopeIndicator = (flags >> 1) & 0b111;
+  const envelopeSizes = [0, 32, 48, 48, 64];
+  if (envelopeIndicator >= envelopeSizes.length) {
+    throw new Error(`Invalid GeoPackage envelope indicator ${envelopeIndicator}`);
+  }
+  if (isEmpty) return null;
+
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+  const reader = new WkbReader(view, 8 + envelopeSizes[envelopeIndicator]);
+  return reader.readGeometry();
+}
+
+/**
+ * Minimal WKB reader for Point, LineString, MultiPoint and MultiLineString.
+ * Handles ISO (1000/2000/3000 offsets) and EWKB (high bit flags) Z/M dimensions; extra ordinates are dropped.
+ */
+class WkbReader {
+  constructor(private view: DataView, private offset: number) {}
+
+  readGeometry(): Geometry | null {
+    const littleEndian = this.view.getUint8(this.offset) === 1;
+    this.offset += 1;
+    let type = this.view.getUint32(this.offset, littleEndian);
+    this.offset += 4;
+
+    let dimensions = 2;
+    if (type & 0x80000000) dimensions++; // EWKB Z
+    if (type & 0x40000000) dimensions++; // EWKB M
+    if (type & 0x20000000) this.offset += 4; // EWKB SRID
+    type &= 0x0fffffff;
+    if (type >= 3000) {
+      dimensions = 4;
+      type -= 3000;
+    } else if (type >= 2000) {
+      dimensions = 3;
+      type -= 2000;
+    } else if (type >= 1000) {
+      dimensions = 3;
+      type -= 1000;
+    }
+
+    switch (type) {
+      case 1: {
+        const point = this.readPosition(dimensions, littleEndian);
+        // Empty points are encoded as NaN coordinates
+        return isNaN(point[0]) || isNaN(point[1]) ? null : { type: 'Point', coordinates: point };
+      }
+      case 2:
+        return { type: 'LineString', coordinates: this.readPositions(dimensions, littleEndian) };
+      case 4: {
+        const count = this.readCount(littleEndian);
+        const points: Position[] = [];
+        for (let i = 0; i < count; i++) {
+          const part = this.readGeometry();
+          if (part?.type === 'Point') points.push(part.coordinates);
+        }
+        // Sewer assets are single points; keep the first
+        return points.length > 0 ? { type: 'Point', coordinates: points[0] } : null;
+      }
+      case 5: {
+        const count = this.readCount(littleEndian);
+        const lines: Position[][] = [];
+        for (let i = 0; i < count; i++) {
+          const part = this.readGeometry();
+          if (part?.type === 'LineString') lines.push(part.coordinates);
+        }
+        if (lines.length === 0) return null;
+        return lines.length === 1
+          ? { type: 'LineString', coordinates: lines[0] }
+          : { type: 'MultiLineString', coordinates: lines };
+      }
+      default:
+        // Polygons, collections and curves are not sewer assets
+        return null;
+    }
+  }
+
+  private readCount(littleEndian: boolean): number {
+    const count = this.view.getUint32(this.offset, littleEndian);
+    this.offset += 4;
+    return count;
+  }
+
+  private readPosition(dimensions: number, littleEndian: boolean): Position {
+    const x = this.view.getFloat64(this.offset, littleEndian);
+    const y = this.view.getFloat64(this.offset + 8, littleEndian);
+    this.offset += 8 * dimensions;
+    return [x, y];
+  }
+
+  private readPositions(dimensions: number, littleEndian: boolean): Position[] {
+    const count = this.readCount(littleEndian);
+    const positions: Position[] = [];
+    for (let i = 0; i < count; i++) {
+      positions.push(this.readPosition(dimensions, littleEndian));
+    }
+    return positions;
+  }
+}
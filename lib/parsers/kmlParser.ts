@@ -0,0 +1,175 @@
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { SewerAsset } from '../types';
+import { parseGeoJSON } from './geojsonParser';
+
+// Elements that may repeat; always parse them as arrays so single occurrences look the same
+const REPEATED_ELEMENTS = new Set([
+  'Document',
+  'Folder',
+  'Placemark',
+  'Data',
+  'SchemaData',
+  'SimpleData',
+  'Point',
+  'LineString',
+  'MultiGeometry',
+]);
+
+const asArray = <T,>(value: T | T[] | undefined): T[] => (value == null ? [] : Array.isArray(value) ? value : [value]);
+
+/**
+ * Read the text of an element parsed with attributes (e.g. SimpleData) or without (e.g. value)
+ */
+function textOf(node: any): string | undefined {
+  if (node == null) return undefined;
+  if (typeof node === 'object') {
+    return node['#text'] != null ? String(node['#text']) : undefined;
+  }
+  return String(node);
+}
+
+/**
+ * KML coordinates: "lng,lat[,alt]" tuples separated by whitespace. Altitude is dropped.
+ */
+function parseCoordinates(text: string | undefined): Position[] {
+  if (!text) return [];
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(',').map(Number))
+    .filter((parts) => parts.length >= 2 && !isNaN(parts[0]) && !isNaN(parts[1]))
+    .map((parts) => [parts[0], parts[1]]);
+}
+
+/**
+ * Placemark geometry: Point, LineString, or a MultiGeometry of LineStrings.
+ * Polygons and other geometry types are not sewer assets and are skipped.
+ */
+function placemarkGeometry(placemark: any): Geometry | null {
+  const points = asArray(placemark.Point);
+  const lines = asArray(placemark.LineString);
+  for (const multi of asArray<any>(placemark.MultiGeometry)) {
+    points.push(...asArray(multi.Point));
+    lines.push(...asArray(multi.LineString));
+  }
+
+  const lineCoords = lines
+    .map((line: any) => parseCoordinates(textOf(line.coordinates)))
+    .filter((coords) => coords.length >= 2);
+
+  if (lineCoords.length === 1) {
+    return { type: 'LineString', coordinates: lineCoords[0] };
+  }
+  if (lineCoords.length > 1) {
+    return { type: 'MultiLineString', coordinates: lineCoords };
+  }
+
+  const pointCoords = points.map((point: any) => parseCoordinates(textOf(point.coordinates))[0]).filter(Boolean);
+  if (pointCoords.length > 0) {
+    return { type: 'Point', coordinates: pointCoords[0] };
+  }
+  return null;
+}
+
+/**
+ * Placemark attributes: name, description, and ExtendedData (<Data> and <SchemaData>/<SimpleData>)
+ */
+function placemarkProperties(placemark: any): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  const name = textOf(placemark.name);
+  if (name != null) properties.name = name;
+  const description = textOf(placemark.description);
+  if (description != null) properties.description = description;
+
+  const extendedData = placemark.ExtendedData;
+  if (extendedData) {
+    for (const data of asArray<any>(extendedData.Data)) {
+      if (data?.name) {
+        properties[data.name] = textOf(data.value) ?? null;
+      }
+    }
+    for (const schemaData of asArray<any>(extendedData.SchemaData)) {
+      for (const simpleData of asArray<any>(schemaData?.SimpleData)) {
+        if (simpleData?.name) {
+          properties[simpleData.name] = textOf(simpleData) ?? null;
+        }
+      }
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Convert a KML document to sewer assets (Placemark Points and LineStrings).
+ * KML coordinates are always WGS84 longitude/latitude, so no reprojection is needed.
+ */
+export function parseKml(kml: string): SewerAsset[] {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true, // <kml:Placemark> and <Placemark> read the same
+    parseTagValue: false, // keep FIDs such as "001" as text
+    trimValues: true,
+    isArray: (tagName) => REPEATED_ELEMENTS.has(tagName),
+  });
+
+  let document: any;
+  try {
+    document = parser.parse(kml);
+  } catch (error) {
+    throw new Error(`Invalid KML: ${(error as Error).message}`);
+  }
+  if (!document?.kml) {
+    throw new Error('Not a KML document (missing <kml> root element)');
+  }
+
+  // Placemarks can sit directly under <kml>, in <Document>, or in nested <Folder>s
+  const placemarks: any[] = [];
+  const collect = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    placemarks.push(...asArray(node.Placemark));
+    asArray(node.Document).forEach(collect);
+    asArray(node.Folder).forEach(collect);
+  };
+  collect(document.kml);
+
+  const features: Feature[] = [];
+  let skipped = 0;
+  for (const placemark of placemarks) {
+    const geometry = placemarkGeometry(placemark);
+    if (!geometry) {
+      skipped++;
+      continue;
+    }
+    features.push({
+      type: 'Feature',
+      geometry,
+      properties: placemarkProperties(placemark),
+    });
+  }
+
+  console.log(`Parsed KML: ${features.length} placemarks with point/line geometry, ${skipped} skipped`);
+
+  const collection: FeatureCollection = { type: 'FeatureCollection', features };
+  return parseGeoJSON(collection);
+}
+
+/**
+ * KMZ is a zip holding doc.kml (or another .kml at the root) plus icons/overlays
+ */
+export async function parseKmz(data: Buffer | ArrayBuffer): Promise<SewerAsset[]> {
+  const zip = await JSZip.loadAsync(data);
+  const kmlFiles = Object.values(zip.files).filter(
+    (entry) => !entry.dir && entry.name.toLowerCase().endsWith('.kml') && !entry.name.startsWith('__MACOSX/')
+  );
+  if (kmlFiles.length === 0) {
+    throw new Error('KMZ archive does not contain a .kml file');
+  }
+
+  const main = kmlFiles.find((entry) => entry.name.toLowerCase() === 'doc.kml') ?? kmlFiles[0];
+  return parseKml(await main.async('string'));
+}
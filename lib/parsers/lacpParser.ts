@@ -0,0 +1,233 @@
+import { DefectRecord, InspectionRecord, LateralSurveyRecord } from '../types';
+import { extractDefectData, isTapCode } from './mdbParser';
+import { DistanceUnit, distanceToMeters, FEET_TO_METERS, resolveInspectionUnits, UnitOverride } from '../utils/units';
+import { pickField } from '../utils/fieldNames';
+
+// Field name candidates for NASSCO LACP exports (names vary between software vendors)
+const LACP_FIELDS = {
+  inspectionId: ['InspectionID', 'Inspection_ID', 'Inspection ID', 'LACP_InspectionID'],
+  lateralRef: ['Lateral_Segment_Reference', 'Lateral Segment Reference', 'LateralSegmentReference', 'Lateral_Reference', 'Lateral_ID'],
+  mainInspectionId: ['PACP_InspectionID', 'PACP_Inspection_ID', 'Mainline_InspectionID', 'Main_InspectionID', 'Mainline_Inspection_ID'],
+  pipeRef: ['Pipe_Segment_Reference', 'Pipe Segment Reference', 'Mainline_Segment_Reference', 'Main_Pipe_Segment_Reference', 'Mainline_Reference'],
+  mainlineDistance: ['Mainline_Distance', 'Distance_Along_Main', 'Main_Distance', 'Tap_Distance', 'Distance_From_Mainline_Start'],
+  clock: ['Mainline_Clock', 'Tap_Clock', 'Clock_Position', 'Clock'],
+  lengthSurveyed: ['Length_Surveyed', 'Length Surveyed', 'Total_Length', 'Lateral_Length'],
+  isImperial: ['IsImperial', 'Is Imperial', 'Is_Imperial'],
+  accessPoint: ['Launch_Location', 'Access_Point', 'Launch_Point', 'Lateral_Access'],
+  date: ['Inspection_Date', 'Inspection Date', 'Date'],
+};
+
+const LACP_CONDITION_FIELDS = {
+  inspectionId: ['InspectionID', 'Inspection_ID', 'Inspection ID'],
+  distance: ['Distance', 'Dist', 'Distance_Along_Lateral'],
+  code: ['LACP_Code', 'LACP Code', 'Code', 'PACP_Code'],
+  grade: ['Grade', 'Severity', 'LACP_Grade'],
+};
+
+function toNumber(value: any): number | undefined {
+  if (value == null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * Build lateral survey records from LACP_Inspections and LACP_Conditions rows
+ */
+export function extractLateralSurveyData(
+  rawInspections: Record<string, any>[],
+  rawConditions: Record<string, any>[]
+): LateralSurveyRecord[] {
+  if (rawInspections.length === 0) return [];
+
+  const columns = Object.keys(rawInspections[0]);
+  const fields = Object.fromEntries(
+    Object.entries(LACP_FIELDS).map(([key, candidates]) => [key, pickField(columns, candidates)])
+  ) as Record<keyof typeof LACP_FIELDS, string | null>;
+
+  const conditionColumns = rawConditions.length ? Object.keys(rawConditions[0]) : [];
+  const observations = extractDefectData(rawConditions, {
+    inspectionIdField: pickField(conditionColumns, LACP_CONDITION_FIELDS.inspectionId),
+    distanceField: pickField(conditionColumns, LACP_CONDITION_FIELDS.distance),
+    codeField: pickField(conditionColumns, LACP_CONDITION_FIELDS.code),
+    gradeField: pickField(conditionColumns, LACP_CONDITION_FIELDS.grade),
+  });
+
+  const observationsByInspection = new Map<string, DefectRecord[]>();
+  for (const observation of observations) {
+    if (!observation.inspectionId) continue;
+    const id = observation.inspectionId;
+    if (!observationsByInspection.has(id)) {
+      observationsByInspection.set(id, []);
+    }
+    observationsByInspection.get(id)!.push(observation);
+  }
+
+  const value = (row: Record<string, any>, key: keyof typeof LACP_FIELDS) => {
+    const field = fields[key];
+    return field ? row[field] : undefined;
+  };
+
+  const surveys: LateralSurveyRecord[] = [];
+  for (const row of rawInspections) {
+    const inspectionId = value(row, 'inspectionId');
+    if (inspectionId == null) continue;
+
+    const id = String(inspectionId).trim();
+    const mainInspectionId = value(row, 'mainInspectionId');
+    const pipeRef = value(row, 'pipeRef');
+    const lateralRef = value(row, 'lateralRef');
+    const accessPoint = value(row, 'accessPoint');
+    const isImperial = value(row, 'isImperial');
+
+    surveys.push({
+      inspectionId: id,
+      lateralSegmentReference: lateralRef != null ? String(lateralRef).trim() : undefined,
+      mainInspectionId: mainInspectionId != null ? String(mainInspectionId).trim() : undefined,
+      pipeSegmentReference: pipeRef != null ? String(pipeRef).trim() : undefined,
+      mainlineDistance: toNumber(value(row, 'mainlineDistance')),
+      clockPosition: toNumber(value(row, 'clock')),
+      lengthSurveyed: toNumber(value(row, 'lengthSurveyed')),
+      isImperial: isImperial != null ? Number(isImperial) : null,
+      accessPoint: accessPoint != null ? String(accessPoint) : null,
+      inspectionDate: value(row, 'date') ?? undefined,
+      observations: (observationsByInspection.get(id) || []).sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0)),
+      raw: row,
+    });
+  }
+
+  console.log(`Extracted ${surveys.length} LACP lateral surveys with ${observations.length} observations`, { fields });
+  return surveys;
+}
+
+/**
+ * Link each LACP survey to its mainline tap.
+ * The mainline inspection is found by PACP inspection ID, falling back to pipe segment reference;
+ * the tap is the PACP tap condition (TB/TF/TS) on that inspection nearest the survey's mainline distance.
+ *
+ * @param distanceTolerance Maximum distance in meters between the LACP mainline distance and the PACP tap
+ * @param units Processing units setting; 'auto' reads the IsImperial header of each survey and inspection
+ */
+export function linkLateralSurveys(
+  surveys: LateralSurveyRecord[],
+  inspections: InspectionRecord[],
+  defects: DefectRecord[],
+  distanceTolerance: number = 1.0,
+  units: UnitOverride = 'auto'
+): LateralSurveyRecord[] {
+  const inspectionsById = new Map<string, InspectionRecord>();
+  const inspectionsByPipe = new Map<string, InspectionRecord[]>();
+  for (const inspection of inspections) {
+    if (inspection.inspectionId) {
+      inspectionsById.set(String(inspection.inspectionId).trim(), inspection);
+    }
+    if (inspection.pipeSegmentReference) {
+      const ref = String(inspection.pipeSegmentReference).trim();
+      if (!inspectionsByPipe.has(ref)) {
+        inspectionsByPipe.set(ref, []);
+      }
+      inspectionsByPipe.get(ref)!.push(inspection);
+    }
+  }
+
+  const tapsByInspection = new Map<string, DefectRecord[]>();
+  for (const defect of defects) {
+    if (!defect.inspectionId || defect.distance == null || !isTapCode(defect.defectCode)) continue;
+    const id = String(defect.inspectionId).trim();
+    if (!tapsByInspection.has(id)) {
+      tapsByInspection.set(id, []);
+    }
+    tapsByInspection.get(id)!.push(defect);
+  }
+
+  let linkedCount = 0;
+  const linked = surveys.map((survey) => {
+    // Step 1: find the mainline inspection
+    let mainInspection = survey.mainInspectionId ? inspectionsById.get(survey.mainInspectionId) : undefined;
+    let candidates: InspectionRecord[] = mainInspection ? [mainInspection] : [];
+    if (!mainInspection && survey.pipeSegmentReference) {
+      candidates = inspectionsByPipe.get(survey.pipeSegmentReference) || [];
+    }
+
+    // Step 2: find the tap nearest the LACP mainline distance, in meters
+    let bestTap: DefectRecord | undefined;
+    let bestInspection: InspectionRecord | undefined;
+    let bestOffset = Infinity;
+    const surveyUnit = resolveInspectionUnits(survey, units).unit;
+    if (survey.mainlineDistance != null) {
+      const surveyMeters = distanceToMeters(survey.mainlineDistance, surveyUnit);
+      for (const candidate of candidates) {
+        const candidateUnit = resolveInspectionUnits(candidate, units).unit;
+        for (const tap of tapsByInspection.get(String(candidate.inspectionId).trim()) || []) {
+          const offset = Math.abs(distanceToMeters(tap.distance!, candidateUnit) - surveyMeters);
+          if (offset <= distanceTolerance && offset < bestOffset) {
+            bestOffset = offset;
+            bestTap = tap;
+            bestInspection = candidate;
+          }
+        }
+      }
+    }
+
+    mainInspection = bestInspection || mainInspection || (candidates.length === 1 ? candidates[0] : undefined);
+    if (!mainInspection && !survey.pipeSegmentReference) {
+      return survey;
+    }
+
+    // Only a survey joined to a mainline inspection counts as linked; one that only names its pipe
+    // is still passed on so it can be drawn from the asset
+    if (mainInspection) linkedCount++;
+    const result: LateralSurveyRecord = {
+      ...survey,
+      mainInspectionId: mainInspection?.inspectionId ?? survey.mainInspectionId,
+      pipeSegmentReference: survey.pipeSegmentReference ?? mainInspection?.pipeSegmentReference,
+    };
+
+    if (bestTap) {
+      // The PACP tap is the authoritative mainline position; keep it in the survey's units
+      const tapMeters = distanceToMeters(bestTap.distance!, resolveInspectionUnits(mainInspection, units).unit);
+      result.mainlineDistance = surveyUnit === 'feet' ? tapMeters / FEET_TO_METERS : tapMeters;
+      result.clockPosition = survey.clockPosition ?? bestTap.clockPosition;
+      result.tapDefectId = bestTap.id;
+    }
+    return result;
+  });
+
+  console.log(`Linked ${linkedCount} of ${surveys.length} LACP surveys to mainline inspections`);
+  return linked;
+}
+
+// LACP line deviation codes: LL/LR = line left/right, LLU/LLD/LRU/LRD = left/right and up/down
+const BEND_CODE = /^L(L|R)(U|D)?$/;
+const DEFAULT_BEND_ANGLE = 45;
+
+/**
+ * Bends recorded along a lateral survey, measured from the mainline in meters.
+ * Surveys launched from a cleanout record distances from the cleanout, so those are flipped
+ * (and left/right swapped) to read from the mainline tap.
+ *
+ * @param unit The survey's distance unit, as resolved for processing
+ */
+export function getLateralBends(survey: LateralSurveyRecord, unit: DistanceUnit): Array<{ distance: number; angle: number }> {
+  const lengthMeters = survey.lengthSurveyed != null ? distanceToMeters(survey.lengthSurveyed, unit) : undefined;
+  const fromCleanout = /clean|^co\b/i.test(survey.accessPoint ?? '');
+
+  const bends: Array<{ distance: number; angle: number }> = [];
+  for (const observation of survey.observations) {
+    const match = (observation.defectCode ?? '').toUpperCase().match(BEND_CODE);
+    if (!match || observation.distance == null) continue;
+
+    const props = observation.properties || {};
+    const recordedAngle = toNumber(props.Angle ?? props.Bend_Angle ?? props.Degrees ?? props.Value_Degrees);
+    let angle = Math.abs(recordedAngle ?? DEFAULT_BEND_ANGLE) * (match[1] === 'R' ? 1 : -1);
+    let distance = distanceToMeters(observation.distance, unit);
+
+    if (fromCleanout) {
+      if (lengthMeters == null) continue;
+      distance = lengthMeters - distance;
+      angle = -angle;
+    }
+    bends.push({ distance, angle });
+  }
+
+  return bends.sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Feature, FeatureCollection, Geometry } from 'geojson';
+import { validateGeoJSON } from './geojsonParser';
+import { readShapefileZip } from './shapefileParser';
+import { detectSourceCRS, featuresToWGS84, SourceCRS } from '../utils/projection';
+
+// Check file size (limit to 48MB to account for FormData overhead)
+const MAX_UPLOAD_BYTES = 48 * 1024 * 1024;
+
+export interface FeatureLayerUpload<T extends Feature<Geometry>> {
+  label: string; // e.g. "Parcel layer", used in the error messages
+  responseKey: string; // Response member holding the parsed features
+  emptyMessage: string; // Error when the layer has no usable features
+  // Parse the layer into features and the detected field names, which are returned alongside them
+  parse: (collection: FeatureCollection) => { features: T[]; fields: Record<string, unknown> };
+}
+
+/**
+ * Shared POST handler of the reference layer uploads (parcels, address points, existing laterals):
+ * reads a GeoJSON file or zipped Shapefile, parses it, and reprojects it to WGS84 from the
+ * user-selected EPSG code, the .prj, or the GeoJSON `crs` member.
+ *
+ * Form fields: `file`, optional `epsg` (overrides any CRS declared in the file) and `layer`
+ * (the shapefile to read from a zip holding several).
+ */
+export async function handleLayerUpload<T extends Feature<Geometry>>(
+  request: NextRequest,
+  layer: FeatureLayerUpload<T>
+): Promise<NextResponse> {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const epsg = (formData.get('epsg') as string | null) || null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided. Please select a file to upload.' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum file size is 48MB to account for upload overhead.` },
+        { status: 400 }
+      );
+    }
+
+    const fileName = file.name.toLowerCase();
+    let collection: FeatureCollection;
+    let prj: string | undefined;
+
+    if (fileName.endsWith('.zip')) {
+      try {
+        const shapefile = await readShapefileZip(Buffer.from(await file.arrayBuffer()), {
+          layerName: (formData.get('layer') as string | null) || undefined,
+        });
+        collection = shapefile.collection;
+        prj = shapefile.prj;
+      } catch (parseError) {
+        return NextResponse.json(
+          { error: `Failed to parse Shapefile: ${(parseError as Error).message}` },
+          { status: 400 }
+        );
+      }
+    } else if (fileName.endsWith('.geojson') || fileName.endsWith('.json')) {
+      const text = await file.text();
+      if (!validateGeoJSON(text)) {
+        return NextResponse.json(
+          { error: 'Invalid GeoJSON format. The file must be a valid GeoJSON FeatureCollection.' },
+          { status: 400 }
+        );
+      }
+      collection = JSON.parse(text);
+    } else {
+      return NextResponse.json(
+        { error: `${layer.label} must be GeoJSON (.geojson or .json) or a zipped Shapefile (.zip). Received: ${file.name}` },
+        { status: 400 }
+      );
+    }
+
+    let features: T[];
+    let fields: Record<string, unknown>;
+    let sourceCrs: SourceCRS | null;
+    try {
+      ({ features, fields } = layer.parse(collection));
+      sourceCrs = detectSourceCRS({ epsg, prj, geojson: collection });
+      features = featuresToWGS84(features, sourceCrs);
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: (parseError as Error).message },
+        { status: 400 }
+      );
+    }
+
+    if (features.length === 0) {
+      return NextResponse.json({ error: layer.emptyMessage }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      [layer.responseKey]: features,
+      count: features.length,
+      ...fields,
+      crs: sourceCrs ? { source: sourceCrs.source, code: sourceCrs.code, name: sourceCrs.name } : null,
+    });
+  } catch (error) {
+    console.error(`${layer.label} upload error:`, error);
+    return NextResponse.json(
+      { error: (error as Error).message || `Failed to process ${layer.label.toLowerCase()}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,206 @@
+import { DefectRecord, InspectionRecord, ManholeInspection, SewerAsset } from '../types';
+import { extractDefectData } from './mdbParser';
+import { assetPathEnds } from '../utils/linePath';
+import { pickField, pickValue } from '../utils/fieldNames';
+
+// Field name candidates for NASSCO MACP exports (names vary between software vendors)
+const MACP_FIELDS = {
+  inspectionId: ['InspectionID', 'Inspection_ID', 'Inspection ID', 'MACP_InspectionID'],
+  manholeId: ['Manhole_Number', 'Manhole Number', 'ManholeNumber', 'MH_Number', 'Manhole_ID', 'ManholeID', 'MH_ID', 'Access_Point_ID'],
+  date: ['Inspection_Date', 'Inspection Date', 'Date'],
+  isImperial: ['IsImperial', 'Is Imperial', 'Is_Imperial'],
+  latitude: ['GPS_Latitude', 'Latitude', 'Lat', 'GPS_Y'],
+  longitude: ['GPS_Longitude', 'Longitude', 'Long', 'Lon', 'GPS_X'],
+};
+
+const MACP_CONDITION_FIELDS = {
+  inspectionId: ['InspectionID', 'Inspection_ID', 'Inspection ID'],
+  distance: ['Distance', 'Dist', 'Vertical_Distance'],
+  code: ['MACP_Code', 'MACP Code', 'Code', 'PACP_Code'],
+  grade: ['Grade', 'Severity', 'MACP_Grade'],
+};
+
+// Manhole ID attributes on asset layers: point features (manholes) and pipe ends
+const ASSET_MANHOLE_ID_FIELDS = ['Manhole_Number', 'ManholeNumber', 'MH_Number', 'Manhole_ID', 'ManholeID', 'MH_ID', 'MHID', 'FACILITYID', 'FacilityID'];
+const ASSET_UPSTREAM_FIELDS = ['Upstream_MH', 'UpstreamMH', 'US_MH', 'USMH', 'Up_MH', 'UpMH', 'From_MH', 'FromMH', 'FROM_NODE'];
+const ASSET_DOWNSTREAM_FIELDS = ['Downstream_MH', 'DownstreamMH', 'DS_MH', 'DSMH', 'Down_MH', 'DownMH', 'To_MH', 'ToMH', 'TO_NODE'];
+
+/**
+ * Manhole numbers are compared case-insensitively and without surrounding whitespace
+ */
+function manholeKey(value: any): string | null {
+  if (value == null || value === '') return null;
+  return String(value).trim().toUpperCase();
+}
+
+/**
+ * Build manhole inspection records from MACP_Inspections and MACP_Conditions rows.
+ * Records are not located yet; see locateManholes.
+ */
+export function extractManholeInspectionData(
+  rawInspections: Record<string, any>[],
+  rawConditions: Record<string, any>[]
+): ManholeInspection[] {
+  if (rawInspections.length === 0) return [];
+
+  const columns = Object.keys(rawInspections[0]);
+  const fields = Object.fromEntries(
+    Object.entries(MACP_FIELDS).map(([key, candidates]) => [key, pickField(columns, candidates)])
+  ) as Record<keyof typeof MACP_FIELDS, string | null>;
+
+  const conditionColumns = rawConditions.length ? Object.keys(rawConditions[0]) : [];
+  const observations = extractDefectData(rawConditions, {
+    inspectionIdField: pickField(conditionColumns, MACP_CONDITION_FIELDS.inspectionId),
+    distanceField: pickField(conditionColumns, MACP_CONDITION_FIELDS.distance),
+    codeField: pickField(conditionColumns, MACP_CONDITION_FIELDS.code),
+    gradeField: pickField(conditionColumns, MACP_CONDITION_FIELDS.grade),
+  });
+
+  const observationsByInspection = new Map<string, DefectRecord[]>();
+  for (const observation of observations) {
+    if (!observation.inspectionId) continue;
+    const id = observation.inspectionId;
+    if (!observationsByInspection.has(id)) {
+      observationsByInspection.set(id, []);
+    }
+    observationsByInspection.get(id)!.push(observation);
+  }
+
+  const value = (row: Record<string, any>, key: keyof typeof MACP_FIELDS) => {
+    const field = fields[key];
+    return field ? row[field] : undefined;
+  };
+
+  const manholes: ManholeInspection[] = [];
+  for (const row of rawInspections) {
+    const inspectionId = value(row, 'inspectionId');
+    const manholeId = value(row, 'manholeId');
+    if (inspectionId == null || manholeId == null || manholeId === '') continue;
+
+    const id = String(inspectionId).trim();
+    const isImperial = value(row, 'isImperial');
+
+    // Some MACP exports carry GPS coordinates; use them only if nothing better is found
+    const lat = parseFloat(String(value(row, 'latitude') ?? ''));
+    const lng = parseFloat(String(value(row, 'longitude') ?? ''));
+    const hasGps = !isNaN(lat) && !isNaN(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && !(lat === 0 && lng === 0);
+
+    manholes.push({
+      id: `manhole-${String(manholeId).trim()}-${id}`,
+      inspectionId: id,
+      manholeId: String(manholeId).trim(),
+      coordinates: hasGps ? [lng, lat] : undefined,
+      locatedBy: hasGps ? 'gps' : undefined,
+      pipeSegmentReferences: [],
+      inspectionDate: value(row, 'date') ?? undefined,
+      isImperial: isImperial != null ? Number(isImperial) : null,
+      observations: observationsByInspection.get(id) || [],
+      properties: { ...row },
+    });
+  }
+
+  console.log(`Extracted ${manholes.length} MACP manhole inspections with ${observations.length} observations`, { fields });
+  return manholes;
+}
+
+function lineEnds(asset: SewerAsset): { start: [number, number]; end: [number, number] } | null {
+  // MultiLineString parts are chained in connection order first
+  const ends = assetPathEnds(asset);
+  if (!ends) return null;
+  return { start: [ends.start[0], ends.start[1]], end: [ends.end[0], ends.end[1]] };
+}
+
+function assetFid(asset: SewerAsset): string | null {
+  const fid = asset.properties?.FID || asset.properties?.fid || asset.properties?.Fid;
+  return fid ? String(fid).trim() : null;
+}
+
+/**
+ * Join manhole inspections to the asset layer by manhole ID.
+ * Location, in order of preference:
+ *   1. a point asset carrying the manhole ID (manhole layer)
+ *   2. the end of a pipe asset whose upstream/downstream manhole attribute matches
+ *   3. the end of a pipe whose PACP inspection names the manhole as Upstream_MH/Downstream_MH
+ *      (pipes are assumed to be digitized upstream to downstream)
+ *   4. GPS coordinates recorded in the MACP inspection
+ */
+export function locateManholes(
+  manholes: ManholeInspection[],
+  inspections: InspectionRecord[],
+  assets: SewerAsset[]
+): ManholeInspection[] {
+  const pointsById = new Map<string, [number, number]>();
+  const pipeEndsById = new Map<string, { coordinates: [number, number]; pipe: string }[]>();
+  const inspectionEndsById = new Map<string, { coordinates: [number, number]; pipe: string }[]>();
+  const assetsByFid = new Map<string, SewerAsset>();
+
+  const addEnd = (map: typeof pipeEndsById, key: string | null, coordinates: [number, number], pipe: string) => {
+    if (!key) return;
+    if (!map.has(key)) {
+      map.set(key, []);
+    }
+    map.get(key)!.push({ coordinates, pipe });
+  };
+
+  for (const asset of assets) {
+    const fid = assetFid(asset);
+    if (fid) {
+      assetsByFid.set(fid, asset);
+    }
+
+    if (asset.geometry.type === 'Point') {
+      const key = manholeKey(pickValue(asset.properties, ASSET_MANHOLE_ID_FIELDS));
+      if (key) {
+        pointsById.set(key, asset.geometry.coordinates as [number, number]);
+      }
+      continue;
+    }
+
+    const ends = lineEnds(asset);
+    if (!ends) continue;
+    const pipe = fid ?? '';
+    addEnd(pipeEndsById, manholeKey(pickValue(asset.properties, ASSET_UPSTREAM_FIELDS)), ends.start, pipe);
+    addEnd(pipeEndsById, manholeKey(pickValue(asset.properties, ASSET_DOWNSTREAM_FIELDS)), ends.end, pipe);
+  }
+
+  for (const inspection of inspections) {
+    const ref = inspection.pipeSegmentReference ? String(inspection.pipeSegmentReference).trim() : null;
+    const asset = ref ? assetsByFid.get(ref) : undefined;
+    if (!asset) continue;
+    const ends = lineEnds(asset);
+    if (!ends) continue;
+    addEnd(inspectionEndsById, manholeKey(inspection.upstreamMH), ends.start, ref!);
+    addEnd(inspectionEndsById, manholeKey(inspection.downstreamMH), ends.end, ref!);
+  }
+
+  let locatedCount = 0;
+  const located = manholes.map((manhole) => {
+    const key = manholeKey(manhole.manholeId)!;
+    const pipeEnds = pipeEndsById.get(key) || [];
+    const inspectionEnds = inspectionEndsById.get(key) || [];
+    const pipeSegmentReferences = Array.from(
+      new Set([...pipeEnds, ...inspectionEnds].map((e) => e.pipe).filter(Boolean))
+    );
+
+    let coordinates = manhole.coordinates;
+    let locatedBy = manhole.locatedBy;
+    if (pointsById.has(key)) {
+      coordinates = pointsById.get(key);
+      locatedBy = 'asset';
+    } else if (pipeEnds.length > 0) {
+      coordinates = pipeEnds[0].coordinates;
+      locatedBy = 'pipe-attribute';
+    } else if (inspectionEnds.length > 0) {
+      coordinates = inspectionEnds[0].coordinates;
+      locatedBy = 'inspection';
+    }
+
+    if (coordinates) {
+      locatedCount++;
+    }
+    return { ...manhole, coordinates, locatedBy, pipeSegmentReferences };
+  });
+
+  console.log(`Located ${locatedCount} of ${manholes.length} MACP manholes`);
+  return located;
+}
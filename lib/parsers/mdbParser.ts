@@ -1,26 +1,102 @@
-import { InspectionRecord, DefectRecord } from '../types';
+import MDBReader from 'mdb-reader';
+import { InspectionRecord, DefectRecord, ContinuousDefect } from '../types';
 
-// Note: MDB parsing in Node.js is complex. This is a simplified parser.
-// For production, you may need to use a different approach or library.
-// This assumes we can extract data from MDB files using mdb-js or similar.
+// MDB/ACCDB files are read in-process with mdb-reader (pure JS, handles Jet3, Jet4 and ACE),
+// so parsing works on Vercel and Windows without mdbtools installed.
 
 export interface MDBTable {
   name: string;
+  columns: string[];
+  rowCount: number;
   rows: Record<string, any>[];
 }
 
-export async function parseMDBFile(file: File | Buffer): Promise<InspectionRecord[]> {
-  // Since MDB parsing requires special libraries and may need to run on server,
-  // we'll create a structure that can work with various MDB parsing approaches
-  
-  // For now, this is a placeholder that expects the MDB to be parsed elsewhere
-  // In a real implementation, you might use:
-  // - mdb-js (limited support)
-  // - node-adodb (requires Windows/COM)
-  // - Convert MDB to CSV first
-  // - Use a Python microservice
-  
-  throw new Error('MDB parsing requires server-side implementation. Please use the API endpoint.');
+/**
+ * Identify the Access engine version from the file header (byte 0x14)
+ */
+export function getJetVersion(buffer: Buffer): 'Jet3' | 'Jet4' | 'ACE' | 'unknown' {
+  if (buffer.length < 0x15) return 'unknown';
+  const version = buffer[0x14];
+  if (version === 0) return 'Jet3';
+  if (version === 1) return 'Jet4';
+  if (version >= 2) return 'ACE';
+  return 'unknown';
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Convert mdb-reader values to the shapes the rest of the pipeline already expects
+ * from `mdb-export -D '%Y-%m-%d %H:%M:%S'` + Papa.parse({ dynamicTyping: true })
+ */
+function normalizeValue(value: unknown, columnType: string): any {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) {
+    // mdb-reader decodes Access dates as UTC
+    return `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())} ` +
+      `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}`;
+  }
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'bigint') return Number(value);
+  // Binary, OLE and attachment columns are not useful here and bloat the JSON response
+  if (Buffer.isBuffer(value) || Array.isArray(value)) return null;
+  // Currency and Numeric columns come back as decimal strings
+  if (typeof value === 'string' && (columnType === 'currency' || columnType === 'numeric')) {
+    const num = Number(value);
+    return isNaN(num) ? value : num;
+  }
+  return value;
+}
+
+/**
+ * Read tables from an MDB/ACCDB database in-process.
+ *
+ * @param file Uploaded file or raw bytes
+ * @param options.tables Table names to read (case-insensitive). Defaults to all user tables.
+ * @param options.rowLimit Maximum rows to read per table (e.g. 1 for a schema preview)
+ */
+export async function parseMDBFile(
+  file: File | Buffer,
+  options?: { tables?: string[]; rowLimit?: number }
+): Promise<MDBTable[]> {
+  const buffer = Buffer.isBuffer(file) ? file : Buffer.from(await file.arrayBuffer());
+
+  let reader: MDBReader;
+  try {
+    reader = new MDBReader(buffer);
+  } catch (error) {
+    throw new Error(`Not a readable Access database (${getJetVersion(buffer)}): ${(error as Error).message}`);
+  }
+
+  const tableNames = reader.getTableNames();
+  let selected = tableNames;
+  if (options?.tables) {
+    const wanted = options.tables.map((t) => t.toLowerCase());
+    selected = tableNames.filter((name) => wanted.includes(name.toLowerCase()));
+  }
+
+  const tables: MDBTable[] = [];
+  for (const name of selected) {
+    const table = reader.getTable(name);
+    const columnDefs = table.getColumns();
+    const columns = columnDefs.map((c) => c.name);
+    const data = table.getData({ rowLimit: options?.rowLimit });
+
+    const rows = data.map((row) => {
+      const out: Record<string, any> = {};
+      for (const column of columnDefs) {
+        out[column.name] = normalizeValue(row[column.name], column.type);
+      }
+      return out;
+    });
+
+    tables.push({ name, columns, rowCount: table.rowCount, rows });
+  }
+
+  console.log(`Read ${tables.length} of ${tableNames.length} tables from ${getJetVersion(buffer)} database`);
+  return tables;
 }
 
 export function extractInspectionData(
@@ -196,6 +272,14 @@ export function matchInspectionsToAssets(
   return matched;
 }
 
+/**
+ * Detect PACP tap codes (TB, TF, TS and their variants, e.g. TBA, TFC)
+ */
+export function isTapCode(code: string | null | undefined): boolean {
+  const c = (code ?? "").trim().toUpperCase();
+  return c.startsWith("TB") || c.startsWith("TF") || c.startsWith("TS");
+}
+
 export function extractDefectData(
   rows: Record<string, any>[],
   fields?: {
@@ -204,8 +288,14 @@ export function extractDefectData(
     distanceField?: string | null;
     codeField?: string | null;
     gradeField?: string | null;
+    clockField?: string | null;
+    // False reads distance and clock position only from their named fields, for column mappings
+    // where a field the user left unmapped has to stay empty
+    guessPositionFields?: boolean;
   }
 ): DefectRecord[] {
+  const guessPosition = fields?.guessPositionFields !== false;
+
   const defects: DefectRecord[] = [];
 
   for (let i = 0; i < rows.length; i++) {
@@ -272,22 +362,32 @@ export function extractDefectData(
     ]);
     
     // Find distance and clock position (if defect has its own position)
-    const distanceStr = row[distanceField] || findField([
+    const distanceStr = row[distanceField] || (guessPosition ? findField([
       'DISTANCE', 'Distance', 'distance',
       'DEFECT_DISTANCE', 'DefectDistance', 'defect_distance',
       'OFFSET', 'Offset', 'offset',
       'Distance_Along_Pipe', 'Distance Along Pipe',
-    ]);
+    ]) : undefined);
     
-    const clockPositionStr = findField([
+    const clockPositionStr = fields?.clockField ? row[fields.clockField] : guessPosition ? findField([
       'CLOCK_POSITION', 'ClockPosition', 'clock_position', 'Clock Position',
       'CLOCK_POS', 'ClockPos', 'clock_pos',
       'CLOCK', 'Clock', 'clock',
       'POSITION', 'Position', 'position',
+      'Clock_At_From', 'ClockAtFrom',
+    ]) : undefined;
+
+    // Clock range end and continuous defect marker (PACP Clock_To and Continuous, e.g. S01 / F01)
+    const clockToStr = findField(['Clock_To', 'ClockTo', 'CLOCK_TO', 'clock_to', 'Clock To']);
+    const continuousStr = findField([
+      'Continuous', 'CONTINUOUS', 'continuous',
+      'Continuous_Defect', 'ContinuousDefect', 'Continuous Defect',
     ]);
+    const continuousMatch = continuousStr ? String(continuousStr).trim().match(/^([SF])\s*(\d+)$/i) : null;
     
     const distance = distanceStr ? parseFloat(String(distanceStr).replace(/[^0-9.-]/g, '')) : undefined;
     const clockPosition = clockPositionStr ? parseFloat(String(clockPositionStr).replace(/[^0-9.-]/g, '')) : undefined;
+    const clockTo = clockToStr ? parseFloat(String(clockToStr).replace(/[^0-9.-]/g, '')) : undefined;
     
     // Only include defects that have at least an inspection ID or pipe segment reference
     const hasLink = inspectionId || pipeSegmentRef;
@@ -302,6 +402,8 @@ export function extractDefectData(
         grade: grade !== undefined ? (typeof grade === 'number' ? grade : String(grade).trim()) : undefined,
         distance: distance !== undefined && distance >= 0 ? distance : undefined,
         clockPosition: clockPosition !== undefined && clockPosition >= 0 ? clockPosition : undefined,
+        clockTo: clockTo !== undefined && clockTo >= 0 ? clockTo : undefined,
+        continuous: continuousMatch ? `${continuousMatch[1].toUpperCase()}${continuousMatch[2].padStart(2, '0')}` : undefined,
         properties: { ...row },
       };
       
@@ -325,3 +427,54 @@ export function extractDefectData(
   return defects;
 }
 
+/**
+ * Pair continuous defect start (S##) and finish (F##) rows of the same inspection.
+ * Each finish closes the earliest open start with the same number; starts that are never
+ * finished and finishes without a start are left as ordinary point observations.
+ */
+export function pairContinuousDefects(defects: DefectRecord[]): ContinuousDefect[] {
+  const open = new Map<string, DefectRecord[]>();
+  const pairs: ContinuousDefect[] = [];
+  let unmatched = 0;
+
+  for (const defect of defects) {
+    if (!defect.continuous) continue;
+    const kind = defect.continuous[0];
+    const marker = defect.continuous.slice(1);
+    const key = `${defect.inspectionId ?? defect.pipeSegmentReference ?? ''}|${marker}`;
+
+    if (kind === 'S') {
+      if (!open.has(key)) open.set(key, []);
+      open.get(key)!.push(defect);
+      continue;
+    }
+
+    const start = open.get(key)?.shift();
+    if (!start || start.distance === undefined || defect.distance === undefined) {
+      unmatched++;
+      continue;
+    }
+    pairs.push({
+      id: `continuous-${start.id}`,
+      inspectionId: start.inspectionId,
+      pipeSegmentReference: start.pipeSegmentReference,
+      defectCode: start.defectCode ?? defect.defectCode,
+      defectDescription: start.defectDescription ?? defect.defectDescription,
+      grade: start.grade ?? defect.grade,
+      marker,
+      startDistance: start.distance,
+      endDistance: defect.distance,
+      clockFrom: start.clockPosition,
+      clockTo: start.clockTo ?? defect.clockTo,
+      startDefectId: start.id,
+      finishDefectId: defect.id,
+      properties: { ...start.properties },
+    });
+  }
+
+  unmatched += Array.from(open.values()).reduce((sum, starts) => sum + starts.length, 0);
+  if (unmatched > 0) {
+    console.warn(`${unmatched} continuous defect rows (S##/F##) have no matching start or finish, or no distance; kept as points`);
+  }
+  return pairs;
+}
@@ -0,0 +1,243 @@
+import { parseMDBFile } from './mdbParser';
+import { writeFile, unlink, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import Papa from 'papaparse';
+import { pickField } from '../utils/fieldNames';
+
+// Server-only: reads PACP/LACP/MACP tables from an uploaded database (may shell out to mdbtools)
+
+const execFileAsync = promisify(execFile);
+
+function runMdbExport(mdbPath: string, table: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'mdb-export',
+      [
+        // ✅ DO NOT use -H (it hides headers)
+        '-D',
+        '%Y-%m-%d %H:%M:%S',
+        mdbPath,
+        table,
+      ],
+      { maxBuffer: 50 * 1024 * 1024 },
+      (err, stdout, stderr) => {
+        if (err) {
+          reject(new Error(stderr || err.message));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+function parseCsv(csv: string) {
+  const parsed = Papa.parse<Record<string, any>>(csv, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: true,
+  });
+
+  return parsed.data;
+}
+
+async function hasMdbTools(): Promise<boolean> {
+  try {
+    await execFileAsync('which', ['mdb-export']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface InspectionTables {
+  rawInspections: Record<string, any>[];
+  rawConditions: Record<string, any>[];
+  rawLacpInspections: Record<string, any>[];
+  rawLacpConditions: Record<string, any>[];
+  rawMacpInspections: Record<string, any>[];
+  rawMacpConditions: Record<string, any>[];
+  reader: 'mdb-reader' | 'mdbtools';
+}
+
+/**
+ * Read PACP_Inspections and PACP_Conditions (plus the LACP and MACP tables when present)
+ * with the in-process reader.
+ * mdb-export is only used as a fallback when the in-process reader fails and mdbtools is installed.
+ */
+export async function readPacpTables(bytes: Buffer, fileName: string): Promise<InspectionTables> {
+  try {
+    const tables = await parseMDBFile(bytes, {
+      tables: [
+        'PACP_Inspections',
+        'PACP_Conditions',
+        'LACP_Inspections',
+        'LACP_Conditions',
+        'MACP_Inspections',
+        'MACP_Conditions',
+      ],
+    });
+    const findTable = (name: string) => tables.find((t) => t.name.toLowerCase() === name.toLowerCase());
+
+    const inspectionsTable = findTable('PACP_Inspections');
+    if (!inspectionsTable) {
+      throw new Error('PACP_Inspections table not found in database');
+    }
+
+    return {
+      rawInspections: inspectionsTable.rows,
+      rawConditions: findTable('PACP_Conditions')?.rows ?? [],
+      rawLacpInspections: findTable('LACP_Inspections')?.rows ?? [],
+      rawLacpConditions: findTable('LACP_Conditions')?.rows ?? [],
+      rawMacpInspections: findTable('MACP_Inspections')?.rows ?? [],
+      rawMacpConditions: findTable('MACP_Conditions')?.rows ?? [],
+      reader: 'mdb-reader',
+    };
+  } catch (readerError) {
+    if (!(await hasMdbTools())) {
+      throw readerError;
+    }
+    console.warn('In-process MDB reader failed, falling back to mdbtools:', (readerError as Error).message);
+  }
+
+  // Write upload to a temp file for mdb-export
+  const tempDir = await mkdtemp(join(tmpdir(), 'mdb-'));
+  const mdbPath = join(tempDir, fileName);
+  await writeFile(mdbPath, bytes);
+
+  try {
+    // Export the two tables we need (headers included)
+    const inspectionsCsv = await runMdbExport(mdbPath, 'PACP_Inspections');
+    const rawInspections = parseCsv(inspectionsCsv);
+
+    // Try to export PACP_Conditions, but don't fail if it doesn't exist
+    let rawConditions: Record<string, any>[] = [];
+    try {
+      const conditionsCsv = await runMdbExport(mdbPath, 'PACP_Conditions');
+      rawConditions = parseCsv(conditionsCsv);
+    } catch (conditionsError) {
+      console.warn('Could not export PACP_Conditions table:', (conditionsError as Error).message);
+    }
+
+    // LACP tables are optional (only present when laterals were surveyed)
+    let rawLacpInspections: Record<string, any>[] = [];
+    let rawLacpConditions: Record<string, any>[] = [];
+    try {
+      rawLacpInspections = parseCsv(await runMdbExport(mdbPath, 'LACP_Inspections'));
+      rawLacpConditions = parseCsv(await runMdbExport(mdbPath, 'LACP_Conditions'));
+    } catch {
+      // No LACP data in this database
+    }
+
+    // MACP tables are optional too (only present when manholes were inspected)
+    let rawMacpInspections: Record<string, any>[] = [];
+    let rawMacpConditions: Record<string, any>[] = [];
+    try {
+      rawMacpInspections = parseCsv(await runMdbExport(mdbPath, 'MACP_Inspections'));
+      rawMacpConditions = parseCsv(await runMdbExport(mdbPath, 'MACP_Conditions'));
+    } catch {
+      // No MACP data in this database
+    }
+
+    return {
+      rawInspections,
+      rawConditions,
+      rawLacpInspections,
+      rawLacpConditions,
+      rawMacpInspections,
+      rawMacpConditions,
+      reader: 'mdbtools',
+    };
+  } finally {
+    // Clean up temp files
+    try {
+      await unlink(mdbPath);
+    } catch {}
+    try {
+      await rm(tempDir, { recursive: true, force: true });
+    } catch {}
+  }
+}
+
+/**
+ * Headers that look like data values mean the export lost its header row
+ */
+export function headersLookBroken(columns: string[]): boolean {
+  return (
+    columns.length > 0 &&
+    columns.some((k) => {
+      // Check if column name looks like a data value rather than a field name
+      // Data values often: are pure numbers, contain dates/slashes in wrong places, 
+      // are very long without spaces, or don't start with letters/underscores
+      return (
+        /^\d+$/.test(k) || // Pure numbers
+        (k.includes('/') && !k.includes(' ')) || // Dates without context
+        (k.length > 50 && !k.includes(' ')) || // Very long single words
+        (!/^[A-Za-z_]/.test(k) && !k.includes(' ')) // Doesn't start with letter/underscore and no spaces
+      );
+    })
+  );
+}
+
+/**
+ * Find key fields (names vary across exports)
+ */
+export function detectPacpFields(inspectionColumns: string[], conditionColumns: string[]) {
+  const inspectionIdField = pickField(inspectionColumns, [
+    'InspectionID',
+    'Inspection_Id',
+    'Inspection ID',
+    'InspecID',
+    'Inspec_Id',
+  ]);
+
+  const pipeRefField = pickField(inspectionColumns, [
+    'Pipe_Segment_Reference',
+    'Pipe Segment Reference',
+    'PipeSegmentReference',
+    'PipeID',
+    'Pipe Id',
+    'SegmentReference',
+  ]);
+
+  const conditionInspectionIdField = pickField(conditionColumns, [
+    'InspectionID',
+    'Inspection_Id',
+    'Inspection ID',
+    'InspecID',
+  ]);
+
+  const distanceField = pickField(conditionColumns, [
+    'Distance',
+    'Dist',
+    'Distance_Along_Pipe',
+    'Distance Along Pipe',
+  ]);
+
+  const codeField = pickField(conditionColumns, [
+    'PACP_Code',
+    'PACP Code',
+    'Code',
+    'DefectCode',
+    'ConditionCode',
+  ]);
+
+  const gradeField = pickField(conditionColumns, [
+    'Grade',
+    'Severity',
+    'PACP_Grade',
+    'PACP Grade',
+  ]);
+
+  return {
+    inspectionIdField,
+    pipeRefField,
+    conditionInspectionIdField,
+    distanceField,
+    codeField,
+    gradeField,
+  };
+}
@@ -0,0 +1,131 @@
+import { XMLParser } from 'fast-xml-parser';
+import { normalizeKey } from '../utils/fieldNames';
+
+/**
+ * NASSCO XML exchange files come in two layouts:
+ *   - nested: <Inspection> headers with their <Condition> observations inside
+ *   - flat: one element per table row, e.g. <PACP_Inspections> and <PACP_Conditions> under <dataroot>
+ * Both are walked the same way: an element with an observation code is a condition row,
+ * an element with an inspection ID is a header row. Conditions nested in a header inherit its IDs.
+ */
+
+// Canonical column name (as in the PACP Access tables) -> element names used by exporters
+const HEADER_ALIASES: Record<string, string[]> = {
+  InspectionID: ['InspectionID', 'Inspection_ID', 'InspectionId', 'Inspection_Number'],
+  Pipe_Segment_Reference: ['Pipe_Segment_Reference', 'PipeSegmentReference', 'Pipe_Segment_Ref', 'SegmentReference'],
+};
+
+const CONDITION_ALIASES: Record<string, string[]> = {
+  ...HEADER_ALIASES,
+  PACP_Code: ['PACP_Code', 'Code', 'Observation_Code', 'ObservationCode', 'Condition_Code', 'ConditionCode'],
+  Distance: ['Distance', 'Observation_Distance', 'ObservationDistance'],
+};
+
+function findKey(row: Record<string, any>, aliases: string[]): string | undefined {
+  const wanted = aliases.map(normalizeKey);
+  return Object.keys(row).find((k) => wanted.includes(normalizeKey(k)));
+}
+
+/**
+ * Copy the row and add canonical column names for any aliased fields,
+ * so extractInspectionData/extractDefectData can use their default field names
+ */
+function canonicalize(row: Record<string, any>, aliases: Record<string, string[]>): Record<string, any> {
+  const result = { ...row };
+  for (const [canonical, names] of Object.entries(aliases)) {
+    if (result[canonical] !== undefined) continue;
+    const key = findKey(row, names);
+    if (key) {
+      result[canonical] = row[key];
+    }
+  }
+  return result;
+}
+
+// Root elements of the XML sidecars GIS tools write next to their data (ArcGIS .shp.xml metadata, GDAL .aux.xml)
+const SIDECAR_ROOTS = ['metadata', 'pamdataset'];
+
+/**
+ * Sniff whether an XML document is a PACP exchange file rather than a GIS metadata sidecar,
+ * from the name of its root element
+ */
+export function isPacpXml(xml: string): boolean {
+  // Skip the prolog, comments, processing instructions and the doctype to reach the root tag
+  const root = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<![^>]*>/g, '').match(/<([A-Za-z_][\w.:-]*)/)?.[1];
+  return !!root && !SIDECAR_ROOTS.includes(root.replace(/^.*:/, '').toLowerCase());
+}
+
+export function parsePacpXml(xml: string): {
+  rawInspections: Record<string, any>[];
+  rawConditions: Record<string, any>[];
+} {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '', // attributes are treated like child fields
+    parseTagValue: false, // keep pipe references such as "001" as text
+    trimValues: true,
+  });
+
+  let document: any;
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    throw new Error(`Invalid XML: ${(error as Error).message}`);
+  }
+
+  const rawInspections: Record<string, any>[] = [];
+  const rawConditions: Record<string, any>[] = [];
+
+  const walk = (tagName: string, node: any, context: { inspectionId?: string; pipeRef?: string }) => {
+    if (Array.isArray(node)) {
+      node.forEach((item) => walk(tagName, item, context));
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    // Split scalar fields from child elements
+    const fields: Record<string, any> = {};
+    const children: Array<[string, any]> = [];
+    for (const [key, value] of Object.entries(node)) {
+      if (value !== null && typeof value === 'object') {
+        children.push([key, value]);
+      } else {
+        fields[key] = value;
+      }
+    }
+
+    // A bare "ID" is only the inspection ID on an inspection element
+    const isInspectionTag = /inspection/i.test(tagName) && !/condition|observation/i.test(tagName);
+    let nextContext = context;
+
+    if (findKey(fields, CONDITION_ALIASES.PACP_Code)) {
+      const row = canonicalize(fields, CONDITION_ALIASES);
+      if (row.InspectionID === undefined && context.inspectionId !== undefined) {
+        row.InspectionID = context.inspectionId;
+      }
+      if (row.Pipe_Segment_Reference === undefined && context.pipeRef !== undefined) {
+        row.Pipe_Segment_Reference = context.pipeRef;
+      }
+      rawConditions.push(row);
+    } else if (findKey(fields, HEADER_ALIASES.InspectionID) || (isInspectionTag && fields.ID !== undefined)) {
+      const row = canonicalize(fields, HEADER_ALIASES);
+      if (row.InspectionID === undefined) {
+        row.InspectionID = fields.ID;
+      }
+      rawInspections.push(row);
+      nextContext = {
+        inspectionId: row.InspectionID,
+        pipeRef: row.Pipe_Segment_Reference,
+      };
+    }
+
+    for (const [key, value] of children) {
+      walk(key, value, nextContext);
+    }
+  };
+
+  walk('', document, {});
+
+  console.log(`Parsed PACP XML: ${rawInspections.length} inspections, ${rawConditions.length} conditions`);
+  return { rawInspections, rawConditions };
+}
@@ -0,0 +1,62 @@
+import { Feature, FeatureCollection } from 'geojson';
+import { Parcel } from '../types';
+import { pickField, fieldValue } from '../utils/fieldNames';
+
+// Assessor's parcel number columns seen in county parcel layers
+const APN_FIELDS = ['APN', 'APN_D', 'APN_NUM', 'AIN', 'PIN', 'PARCEL_ID', 'ParcelID', 'PARCELNO', 'Parcel_No', 'Parcel_Number', 'PARCEL_NUM', 'PARID', 'PRCL_ID'];
+// Owner, site address and land use columns of assessor parcel layers
+const OWNER_FIELDS = ['OWNER', 'OWNER_NAME', 'OWNERNAME', 'OWNER1', 'OWNER_1', 'OWN_NAME', 'OWNNAME', 'TAXPAYER', 'MAIL_NAME'];
+const SITUS_FIELDS = ['SITUS', 'SITUS_ADDR', 'SITUSADDR', 'SITUS_ADDRESS', 'SITE_ADDR', 'SITEADDR', 'SITE_ADDRESS', 'PROP_ADDR', 'PROPADDR', 'PROPERTY_ADDRESS'];
+const LAND_USE_FIELDS = ['LANDUSE', 'LAND_USE', 'LU_CODE', 'LUCODE', 'USECODE', 'USE_CODE', 'LUC', 'USE_DESC', 'PROP_CLASS', 'PROPCLASS'];
+
+/**
+ * Keep the Polygon/MultiPolygon features of a parcel layer and read each one's APN, owner,
+ * site address and land use. The columns are detected once from the first feature's attributes.
+ */
+export function parseParcels(collection: FeatureCollection): {
+  parcels: Parcel[];
+  apnField: string | null;
+  ownerField: string | null;
+  situsField: string | null;
+  landUseField: string | null;
+} {
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Parcel layer must be a FeatureCollection');
+  }
+
+  const polygons = collection.features.filter(
+    (feature: Feature) => feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon'
+  );
+  const columns = Object.keys(polygons[0]?.properties || {});
+  const apnField = pickField(columns, APN_FIELDS);
+  const ownerField = pickField(columns, OWNER_FIELDS);
+  const situsField = pickField(columns, SITUS_FIELDS);
+  const landUseField = pickField(columns, LAND_USE_FIELDS);
+
+  const parcels: Parcel[] = polygons.map((feature, index) => {
+    const properties = feature.properties || {};
+    const apn = fieldValue(properties, apnField);
+    return {
+      type: 'Feature',
+      id: apn || String(feature.id ?? `parcel-${index}`),
+      apn,
+      owner: fieldValue(properties, ownerField),
+      situsAddress: fieldValue(properties, situsField),
+      landUse: fieldValue(properties, landUseField),
+      geometry: feature.geometry as Parcel['geometry'],
+      properties,
+    };
+  });
+
+  console.log(`Parsed ${parcels.length} parcels (${collection.features.length - polygons.length} non-polygon features skipped)`, { apnField, ownerField, situsField, landUseField });
+  return { parcels, apnField, ownerField, situsField, landUseField };
+}
+
+/**
+ * A parcel as /api/process needs it: geometry and the joined fields, without the layer's other
+ * attributes, which would only inflate the request body
+ */
+export function parcelForProcessing(parcel: Parcel): Parcel {
+  const { type, id, apn, owner, situsAddress, landUse, geometry } = parcel;
+  return { type, id, apn, owner, situsAddress, landUse, geometry, properties: {} };
+}
@@ -0,0 +1,372 @@
+import JSZip from 'jszip';
+import { DefectRecord, InspectionRecord, LateralSurveyRecord, ManholeInspection, SewerAsset } from '../types';
+import { extractDefectData, extractInspectionData } from './mdbParser';
+import { detectPacpFields, headersLookBroken, readPacpTables } from './pacpDatabase';
+import { isPacpXml, parsePacpXml } from './pacpXmlParser';
+import { extractLateralSurveyData } from './lacpParser';
+import { extractManholeInspectionData } from './macpParser';
+import { parseGeoJSON, validateGeoJSON } from './geojsonParser';
+import { parseShapefileZip } from './shapefileParser';
+import { parseKml, parseKmz } from './kmlParser';
+import { geoPackageCrsHints, listGeoPackageLayers, readGeoPackageLayer } from './geopackageParser';
+import { FEET_TO_METERS } from '../utils/units';
+import { isRotationConvention, RotationConvention } from '../utils/pointOrientation';
+
+// Settings file names recognised at any folder level of the bundle
+const SETTINGS_FILES = ['settings.json', 'project.json'];
+// GIS metadata written next to a data file, e.g. parcels.shp.xml or ortho.tif.aux.xml
+const SIDECAR_XML = /\.(shp|dbf|gdb|tif|tiff|aux|img)\.xml$/;
+
+/**
+ * settings.json in a project bundle
+ */
+export interface ProjectSettings {
+  layerName?: string; // Lateral layer name for tap-based laterals (skips the name dialog)
+  stubLength?: number; // Lateral stub length, in `units`
+  units?: 'feet' | 'meters'; // Units of stubLength, and of inspections that carry no IsImperial flag
+  epsg?: string; // Asset layer coordinate system, when the layer does not declare one
+  assetLayer?: string; // Asset file, shapefile or GeoPackage table to use when the bundle holds several
+  rotation?: RotationConvention; // Convention of point symbol rotation attributes; ignored when unset
+}
+
+export interface BundleEntry {
+  name: string; // Path inside the zip
+  data: Buffer;
+}
+
+export interface ProjectBundle {
+  settings: ProjectSettings;
+  settingsFile?: string;
+  assetFile: BundleEntry & { kind: 'geojson' | 'shapefile' | 'kml' | 'kmz' | 'geopackage'; layerName?: string };
+  databases: BundleEntry[];
+}
+
+export interface BundleInspectionData {
+  inspections: InspectionRecord[];
+  defects: DefectRecord[];
+  lateralSurveys: LateralSurveyRecord[];
+  manholeInspections: ManholeInspection[];
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Validate settings.json, accepting the usual spellings of the unit names
+ */
+export function parseProjectSettings(text: string): ProjectSettings {
+  let raw: any;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Invalid settings JSON: ${(error as Error).message}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Settings JSON must be an object');
+  }
+
+  const settings: ProjectSettings = {};
+
+  const layerName = raw.layerName ?? raw.lateralLayerName;
+  if (layerName != null && String(layerName).trim()) {
+    settings.layerName = String(layerName).trim();
+  }
+
+  if (raw.units != null) {
+    const units = String(raw.units).trim().toLowerCase();
+    if (['ft', 'feet', 'foot', 'imperial'].includes(units)) {
+      settings.units = 'feet';
+    } else if (['m', 'meter', 'meters', 'metre', 'metres', 'metric'].includes(units)) {
+      settings.units = 'meters';
+    } else {
+      throw new Error(`Unknown units "${raw.units}" in settings (use "feet" or "meters")`);
+    }
+  }
+
+  if (raw.stubLength != null) {
+    const stubLength = Number(raw.stubLength);
+    if (!isFinite(stubLength) || stubLength <= 0) {
+      throw new Error(`stubLength must be a positive number (got "${raw.stubLength}")`);
+    }
+    settings.stubLength = stubLength;
+  }
+
+  if (raw.epsg != null && String(raw.epsg).trim()) {
+    settings.epsg = String(raw.epsg).trim();
+  }
+  if (raw.assetLayer != null && String(raw.assetLayer).trim()) {
+    settings.assetLayer = String(raw.assetLayer).trim();
+  }
+  if (raw.rotation != null && String(raw.rotation).trim()) {
+    const rotation = String(raw.rotation).trim().toLowerCase();
+    if (!isRotationConvention(rotation)) {
+      throw new Error(`Unknown rotation "${raw.rotation}" in settings (use "geographic" or "arithmetic")`);
+    }
+    settings.rotation = rotation;
+  }
+
+  return settings;
+}
+
+/**
+ * Stub length from the settings in meters, or undefined for the default
+ */
+export function stubLengthMeters(settings: ProjectSettings): number | undefined {
+  if (settings.stubLength == null) return undefined;
+  return settings.units === 'feet' ? settings.stubLength * FEET_TO_METERS : settings.stubLength;
+}
+
+/**
+ * Sort the files of a project bundle zip into settings, the asset layer and inspection databases.
+ * Shapefile parts stay in the bundle and are read from it by base name.
+ */
+export async function readProjectBundle(data: Buffer): Promise<ProjectBundle> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error('Invalid zip archive: ' + (error as Error).message);
+  }
+
+  // Skip folders and the resource forks macOS adds to zips
+  const entries = Object.values(zip.files).filter(
+    (entry) => !entry.dir && !entry.name.startsWith('__MACOSX/') && !baseName(entry.name).startsWith('._')
+  );
+
+  const settingsEntry = entries.find((entry) => SETTINGS_FILES.includes(baseName(entry.name).toLowerCase()));
+  const settings = settingsEntry ? parseProjectSettings(await settingsEntry.async('string')) : {};
+
+  const databases: BundleEntry[] = [];
+  const assetCandidates: Array<{ name: string; kind: ProjectBundle['assetFile']['kind']; entry?: JSZip.JSZipObject }> = [];
+
+  for (const entry of entries) {
+    if (entry === settingsEntry) continue;
+    const lower = entry.name.toLowerCase();
+    if (lower.endsWith('.mdb') || lower.endsWith('.accdb')) {
+      databases.push({ name: entry.name, data: await entry.async('nodebuffer') });
+    } else if (lower.endsWith('.xml')) {
+      // Shapefile zips carry .shp.xml metadata and rasters .aux.xml; only PACP exchange files are databases
+      if (SIDECAR_XML.test(lower)) continue;
+      const data = await entry.async('nodebuffer');
+      if (isPacpXml(data.toString('utf8'))) databases.push({ name: entry.name, data });
+    } else if (lower.endsWith('.geojson') || lower.endsWith('.json')) {
+      assetCandidates.push({ name: entry.name, kind: 'geojson', entry });
+    } else if (lower.endsWith('.kml')) {
+      assetCandidates.push({ name: entry.name, kind: 'kml', entry });
+    } else if (lower.endsWith('.kmz')) {
+      assetCandidates.push({ name: entry.name, kind: 'kmz', entry });
+    } else if (lower.endsWith('.gpkg')) {
+      assetCandidates.push({ name: entry.name, kind: 'geopackage', entry });
+    } else if (lower.endsWith('.shp')) {
+      assetCandidates.push({ name: entry.name, kind: 'shapefile' });
+    }
+  }
+
+  if (assetCandidates.length === 0) {
+    throw new Error('Bundle has no asset layer (GeoJSON, Shapefile, KML/KMZ or GeoPackage)');
+  }
+  if (databases.length === 0) {
+    throw new Error('Bundle has no inspection database (.mdb, .accdb or PACP .xml)');
+  }
+
+  // assetLayer may name the file (with or without extension) or, for a GeoPackage, one of its tables
+  let asset = assetCandidates[0];
+  let tableName: string | undefined;
+  if (settings.assetLayer) {
+    const wanted = settings.assetLayer.toLowerCase();
+    const named = assetCandidates.find(
+      (c) => baseName(c.name).toLowerCase() === wanted || stripExtension(baseName(c.name)).toLowerCase() === wanted
+    );
+    const geoPackages = assetCandidates.filter((c) => c.kind === 'geopackage');
+    if (named) {
+      asset = named;
+    } else if (geoPackages.length === 1) {
+      asset = geoPackages[0];
+      tableName = settings.assetLayer;
+    } else {
+      throw new Error(
+        `Asset layer "${settings.assetLayer}" not found in bundle. Available: ${assetCandidates.map((c) => baseName(c.name)).join(', ')}`
+      );
+    }
+  } else if (assetCandidates.length > 1) {
+    throw new Error(
+      `Bundle has ${assetCandidates.length} possible asset layers (${assetCandidates.map((c) => baseName(c.name)).join(', ')}). ` +
+      'Name the one to use with "assetLayer" in settings.json.'
+    );
+  }
+
+  return {
+    settings,
+    settingsFile: settingsEntry?.name,
+    assetFile: {
+      name: asset.name,
+      kind: asset.kind,
+      // Shapefile parts are read straight from the bundle zip
+      data: asset.entry ? await asset.entry.async('nodebuffer') : data,
+      layerName: asset.kind === 'shapefile' ? stripExtension(baseName(asset.name)) : tableName,
+    },
+    databases,
+  };
+}
+
+/**
+ * Read the asset layer of a bundle in its own coordinate system.
+ * Returns the CRS inputs for detectSourceCRS so the caller can reproject.
+ */
+export async function readBundleAssets(
+  assetFile: ProjectBundle['assetFile']
+): Promise<{ assets: SewerAsset[]; layerName: string; prj?: string | null; epsg?: string | null; geojson?: any }> {
+  switch (assetFile.kind) {
+    case 'shapefile': {
+      const layer = await parseShapefileZip(assetFile.data, { layerName: assetFile.layerName });
+      return { assets: layer.assets, layerName: layer.name, prj: layer.prj };
+    }
+    case 'kml':
+      return { assets: parseKml(assetFile.data.toString('utf8')), layerName: baseName(assetFile.name) };
+    case 'kmz':
+      return { assets: await parseKmz(assetFile.data), layerName: baseName(assetFile.name) };
+    case 'geopackage': {
+      let tableName = assetFile.layerName;
+      if (!tableName) {
+        const layers = await listGeoPackageLayers(assetFile.data);
+        if (layers.length !== 1) {
+          throw new Error(
+            `GeoPackage ${baseName(assetFile.name)} has ${layers.length} feature tables (${layers.map((l) => l.tableName).join(', ')}). ` +
+            'Name the one to use with "assetLayer" in settings.json.'
+          );
+        }
+        tableName = layers[0].tableName;
+      }
+      const result = await readGeoPackageLayer(assetFile.data, tableName);
+      return { assets: result.assets, layerName: result.layer.tableName, ...geoPackageCrsHints(result.srs) };
+    }
+    default: {
+      const text = assetFile.data.toString('utf8').replace(/^\uFEFF/, '');
+      if (!validateGeoJSON(text)) {
+        throw new Error(`${baseName(assetFile.name)} is not a valid GeoJSON FeatureCollection`);
+      }
+      const geojson = JSON.parse(text);
+      return { assets: parseGeoJSON(geojson), layerName: baseName(assetFile.name), geojson };
+    }
+  }
+}
+
+/**
+ * Read one PACP database (MDB/ACCDB or PACP XML) from a bundle into inspection records
+ */
+export async function readBundleDatabase(database: BundleEntry): Promise<BundleInspectionData & { reader: string }> {
+  const fileName = baseName(database.name);
+
+  if (fileName.toLowerCase().endsWith('.xml')) {
+    const { rawInspections, rawConditions } = parsePacpXml(database.data.toString('utf8'));
+    return {
+      inspections: extractInspectionData(rawInspections),
+      defects: extractDefectData(rawConditions),
+      lateralSurveys: [],
+      manholeInspections: [],
+      reader: 'xml',
+    };
+  }
+
+  const tables = await readPacpTables(database.data, fileName);
+  const inspectionColumns = tables.rawInspections.length ? Object.keys(tables.rawInspections[0]) : [];
+  const conditionColumns = tables.rawConditions.length ? Object.keys(tables.rawConditions[0]) : [];
+  if (headersLookBroken(inspectionColumns)) {
+    throw new Error(`${fileName}: PACP_Inspections headers look like values. The database may be corrupted or use an unsupported format.`);
+  }
+
+  const fields = detectPacpFields(inspectionColumns, conditionColumns);
+  return {
+    inspections: extractInspectionData(tables.rawInspections, {
+      inspectionIdField: fields.inspectionIdField,
+      pipeRefField: fields.pipeRefField,
+    }),
+    defects: extractDefectData(tables.rawConditions, {
+      inspectionIdField: fields.conditionInspectionIdField,
+      pipeRefField: fields.pipeRefField,
+      distanceField: fields.distanceField,
+      codeField: fields.codeField,
+      gradeField: fields.gradeField,
+    }),
+    lateralSurveys: extractLateralSurveyData(tables.rawLacpInspections, tables.rawLacpConditions),
+    manholeInspections: extractManholeInspectionData(tables.rawMacpInspections, tables.rawMacpConditions),
+    reader: tables.reader,
+  };
+}
+
+/**
+ * Give inspections without an IsImperial flag the bundle's units
+ */
+export function applyDefaultUnits(data: BundleInspectionData, units: ProjectSettings['units']): void {
+  if (!units) return;
+  const flag = units === 'feet' ? 1 : 0;
+  for (const record of [...data.inspections, ...data.lateralSurveys, ...data.manholeInspections]) {
+    if (record.isImperial == null || isNaN(record.isImperial)) {
+      record.isImperial = flag;
+    }
+  }
+}
+
+/**
+ * Prefix every inspection ID of a database, so IDs from separate databases
+ * (usually Access autonumbers starting at 1) cannot link to each other's records
+ */
+function namespaceInspectionIds(data: BundleInspectionData, prefix: string): void {
+  const ns = (id: string | undefined) => (id != null ? `${prefix}:${id}` : id);
+  const namespaceDefect = (defect: DefectRecord) => {
+    defect.id = `${prefix}:${defect.id}`;
+    defect.inspectionId = ns(defect.inspectionId);
+  };
+
+  for (const inspection of data.inspections) {
+    inspection.inspectionId = ns(inspection.inspectionId);
+  }
+  data.defects.forEach(namespaceDefect);
+  for (const survey of data.lateralSurveys) {
+    survey.inspectionId = ns(survey.inspectionId)!;
+    survey.mainInspectionId = ns(survey.mainInspectionId);
+    survey.observations.forEach(namespaceDefect);
+  }
+  for (const manhole of data.manholeInspections) {
+    manhole.id = `${prefix}:${manhole.id}`;
+    manhole.inspectionId = ns(manhole.inspectionId)!;
+    manhole.observations.forEach(namespaceDefect);
+  }
+}
+
+/**
+ * Combine the records of several databases. IDs are only namespaced (by file name)
+ * when two databases use the same inspection ID, so single-database bundles keep the IDs the MDB upload gives.
+ */
+export function mergeBundleDatabases(databases: Array<{ name: string; data: BundleInspectionData }>): BundleInspectionData {
+  const seen = new Set<string>();
+  let collides = false;
+  for (const { data } of databases) {
+    const ids = new Set(data.inspections.map((i) => String(i.inspectionId)));
+    for (const id of Array.from(ids)) {
+      if (seen.has(id)) collides = true;
+      seen.add(id);
+    }
+  }
+
+  const merged: BundleInspectionData = { inspections: [], defects: [], lateralSurveys: [], manholeInspections: [] };
+  for (const { name, data } of databases) {
+    if (collides) {
+      namespaceInspectionIds(data, stripExtension(baseName(name)));
+    }
+    merged.inspections.push(...data.inspections);
+    merged.defects.push(...data.defects);
+    merged.lateralSurveys.push(...data.lateralSurveys);
+    merged.manholeInspections.push(...data.manholeInspections);
+  }
+
+  if (collides) {
+    console.warn(`Inspection IDs overlap across ${databases.length} databases; prefixed IDs with the database name`);
+  }
+  return merged;
+}
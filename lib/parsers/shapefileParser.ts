@@ -0,0 +1,190 @@
+import JSZip from 'jszip';
+import * as shapefile from 'shapefile';
+import { FeatureCollection } from 'geojson';
+import { SewerAsset } from '../types';
+import { parseGeoJSON } from './geojsonParser';
+
+export interface ShapefileLayer {
+  name: string;
+  assets: SewerAsset[];
+  prj?: string;
+  encoding: string;
+}
+
+interface ShapefileParts {
+  name: string;
+  shp?: JSZip.JSZipObject;
+  shx?: JSZip.JSZipObject;
+  dbf?: JSZip.JSZipObject;
+  prj?: JSZip.JSZipObject;
+  cpg?: JSZip.JSZipObject;
+}
+
+// ESRI's default when no .cpg is shipped alongside the .dbf
+const DEFAULT_DBF_ENCODING = 'windows-1252';
+
+/**
+ * Map the contents of a .cpg file to a TextDecoder label.
+ * ArcGIS writes values like "UTF-8", "1252", "ANSI 1252" or "88591".
+ */
+export function cpgToEncoding(cpg: string | null | undefined): string {
+  const raw = (cpg || '').trim().toLowerCase();
+  if (!raw) return DEFAULT_DBF_ENCODING;
+
+  const value = raw.replace(/^(ansi|cp|oem)[\s_-]*/, '');
+  let label = value;
+
+  if (value === 'utf8' || value === 'utf-8' || value === '65001') {
+    label = 'utf-8';
+  } else if (value === '88591') {
+    label = 'iso-8859-1';
+  } else if (/^8859[_-]?\d+$/.test(value) || /^iso[_-]?8859[_-]?\d+$/.test(value)) {
+    label = `iso-8859-${value.match(/(\d+)$/)![1]}`;
+  } else if (/^125\d$/.test(value)) {
+    label = `windows-${value}`;
+  } else if (value === '932') {
+    label = 'shift_jis';
+  } else if (value === '936') {
+    label = 'gbk';
+  } else if (value === '949') {
+    label = 'euc-kr';
+  } else if (value === '950') {
+    label = 'big5';
+  } else if (value === '866') {
+    label = 'ibm866';
+  } else if (value === '874') {
+    label = 'windows-874';
+  }
+
+  // Only hand labels to the DBF reader that the platform can decode
+  try {
+    new TextDecoder(label);
+    return label;
+  } catch {
+    console.warn(`Unsupported .cpg codepage "${cpg}", falling back to ${DEFAULT_DBF_ENCODING}`);
+    return DEFAULT_DBF_ENCODING;
+  }
+}
+
+/**
+ * Group zip entries by shapefile base name (e.g. "gravity_mains.shp" + "gravity_mains.dbf")
+ */
+function collectShapefiles(zip: JSZip): ShapefileParts[] {
+  const byName = new Map<string, ShapefileParts>();
+
+  zip.forEach((path, entry) => {
+    // Skip folders and the resource forks macOS adds to zips
+    if (entry.dir || path.startsWith('__MACOSX/') || path.split('/').pop()!.startsWith('._')) return;
+
+    const match = path.match(/^(.*)\.(shp|shx|dbf|prj|cpg)$/i);
+    if (!match) return;
+
+    const baseName = match[1];
+    const ext = match[2].toLowerCase() as 'shp' | 'shx' | 'dbf' | 'prj' | 'cpg';
+    const key = baseName.toLowerCase();
+
+    if (!byName.has(key)) {
+      byName.set(key, { name: baseName.split('/').pop() || baseName });
+    }
+    byName.get(key)![ext] = entry;
+  });
+
+  return Array.from(byName.values()).filter((parts) => parts.shp);
+}
+
+/**
+ * Parse a zipped Shapefile into SewerAsset features.
+ * Records go through parseGeoJSON so they come out the same as a GeoJSON upload.
+ * The DBF has no FID column of its own, so the 0-based record number is used as FID
+ * (matching ArcGIS) unless the attribute table already carries one.
+ */
+export async function parseShapefileZip(
+  data: ArrayBuffer | Buffer,
+  options?: { layerName?: string }
+): Promise<ShapefileLayer> {
+  const { name, collection, prj, encoding } = await readShapefileZip(data, options);
+  return {
+    name,
+    assets: parseGeoJSON(collection),
+    prj,
+    encoding,
+  };
+}
+
+/**
+ * Read a zipped Shapefile as a plain FeatureCollection of any geometry type (e.g. parcel polygons).
+ * Null shapes are dropped and records without an FID get their record number.
+ */
+export async function readShapefileZip(
+  data: ArrayBuffer | Buffer,
+  options?: { layerName?: string }
+): Promise<{ name: string; collection: FeatureCollection; prj?: string; encoding: string }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error('Invalid zip archive: ' + (error as Error).message);
+  }
+
+  const layers = collectShapefiles(zip);
+  if (layers.length === 0) {
+    throw new Error('Zip archive does not contain a .shp file');
+  }
+
+  let parts = layers[0];
+  if (options?.layerName) {
+    const requested = layers.find((l) => l.name.toLowerCase() === options.layerName!.toLowerCase());
+    if (!requested) {
+      throw new Error(
+        `Layer "${options.layerName}" not found in zip. Available layers: ${layers.map((l) => l.name).join(', ')}`
+      );
+    }
+    parts = requested;
+  } else if (layers.length > 1) {
+    console.warn(`Zip contains ${layers.length} shapefiles, using "${parts.name}"`);
+  }
+
+  if (!parts.dbf) {
+    throw new Error(`Shapefile "${parts.name}" is missing its .dbf attribute table`);
+  }
+  if (!parts.shx) {
+    // The .shx index is not needed to read records sequentially, but its absence usually means an incomplete export
+    console.warn(`Shapefile "${parts.name}" has no .shx index; reading records sequentially`);
+  }
+
+  const cpg = parts.cpg ? await parts.cpg.async('string') : null;
+  const encoding = cpgToEncoding(cpg);
+  const prj = parts.prj ? (await parts.prj.async('string')).trim() : undefined;
+
+  const [shpBytes, dbfBytes] = await Promise.all([
+    parts.shp!.async('uint8array'),
+    parts.dbf.async('uint8array'),
+  ]);
+
+  let collection: FeatureCollection;
+  try {
+    collection = await shapefile.read(shpBytes, dbfBytes, { encoding });
+  } catch (error) {
+    throw new Error(`Failed to read shapefile "${parts.name}": ${(error as Error).message}`);
+  }
+
+  // Null shapes have no geometry and cannot be placed; keep record numbers aligned before dropping them.
+  // The record number is stored as a string so FID 0 is not treated as missing by the matching code.
+  collection.features = collection.features
+    .map((feature, index) => {
+      const props = feature.properties || {};
+      const hasFid = props.FID != null || props.fid != null || props.Fid != null;
+      return {
+        ...feature,
+        properties: hasFid ? props : { FID: String(index), ...props },
+      };
+    })
+    .filter((feature) => feature.geometry != null);
+
+  return {
+    name: parts.name,
+    collection,
+    prj,
+    encoding,
+  };
+}
@@ -0,0 +1,128 @@
+import Papa from 'papaparse';
+import { ColumnMapping, DefectRecord, InspectionRecord } from '../types';
+import { extractDefectData, extractInspectionData } from './mdbParser';
+import { pickField } from '../utils/fieldNames';
+import { DistanceUnit } from '../utils/units';
+
+// Code given to rows of a tap log that has no code column, so they feed the tap pipeline (TB/TF/TS)
+export const DEFAULT_TAP_CODE = 'TB';
+
+// Column name candidates used to pre-fill the mapping step
+const MAPPING_CANDIDATES: Record<keyof ColumnMapping, string[]> = {
+  pipeSegmentReference: ['Pipe_Segment_Reference', 'Pipe Segment Reference', 'PipeSegmentReference', 'Pipe_ID', 'PipeID', 'Pipe', 'Segment', 'FID', 'Asset_ID', 'AssetID'],
+  inspectionId: ['InspectionID', 'Inspection_ID', 'Inspection ID', 'Inspection'],
+  distance: ['Distance', 'Dist', 'Tap_Distance', 'TapDistance', 'Footage', 'Station'],
+  clockPosition: ['Clock_Position', 'ClockPosition', 'Clock Position', 'Clock', 'Clock_At_From'],
+  defectCode: ['PACP_Code', 'Code', 'Defect_Code', 'DefectCode', 'Observation_Code'],
+};
+
+export function isSpreadsheetFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.csv');
+}
+
+// Excel workbooks are not read; the user is asked to save the sheet as CSV
+export function isExcelWorkbook(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return name.endsWith('.xlsx') || name.endsWith('.xls');
+}
+
+/**
+ * Read the rows of a CSV file.
+ * Cells are kept as text so IDs like "001" survive; distances are parsed later.
+ */
+export function parseSpreadsheet(data: Buffer): { columns: string[]; rows: Record<string, any>[] } {
+  const parsed = Papa.parse<Record<string, any>>(data.toString('utf8').replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: false,
+  });
+  const rows = parsed.data;
+
+  // Collect columns from every row; sparse rows may omit trailing cells
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  return { columns, rows };
+}
+
+/**
+ * Guess a column for each field from common header names
+ */
+export function suggestColumnMapping(columns: string[]): ColumnMapping {
+  const pick = (candidates: string[]) => pickField(columns, candidates);
+
+  return {
+    pipeSegmentReference: pick(MAPPING_CANDIDATES.pipeSegmentReference),
+    inspectionId: pick(MAPPING_CANDIDATES.inspectionId),
+    distance: pick(MAPPING_CANDIDATES.distance),
+    clockPosition: pick(MAPPING_CANDIDATES.clockPosition),
+    defectCode: pick(MAPPING_CANDIDATES.defectCode),
+  };
+}
+
+/**
+ * Turn mapped spreadsheet rows into the same inspection and defect records the MDB upload produces.
+ * Without an inspection ID column, each pipe gets one inspection keyed by its pipe segment reference.
+ * Without a code column, every row is treated as a tap (DEFAULT_TAP_CODE).
+ */
+export function applyColumnMapping(
+  rows: Record<string, any>[],
+  mapping: ColumnMapping,
+  options?: { units?: DistanceUnit }
+): { inspections: InspectionRecord[]; defects: DefectRecord[] } {
+  if (!mapping.pipeSegmentReference) {
+    throw new Error('A pipe segment reference column is required');
+  }
+
+  const value = (row: Record<string, any>, column: string | null) => {
+    if (!column) return undefined;
+    const v = row[column];
+    return v == null || String(v).trim() === '' ? undefined : String(v).trim();
+  };
+
+  const mappedRows: Record<string, any>[] = [];
+  const inspectionRows = new Map<string, Record<string, any>>();
+
+  for (const row of rows) {
+    const pipeRef = value(row, mapping.pipeSegmentReference);
+    if (!pipeRef) continue;
+    const inspectionId = value(row, mapping.inspectionId) ?? pipeRef;
+
+    // Canonical PACP column names so the existing extractors pick them up
+    mappedRows.push({
+      ...row,
+      InspectionID: inspectionId,
+      Pipe_Segment_Reference: pipeRef,
+      Distance: value(row, mapping.distance),
+      Clock_Position: value(row, mapping.clockPosition),
+      PACP_Code: mapping.defectCode ? value(row, mapping.defectCode) : DEFAULT_TAP_CODE,
+    });
+
+    if (!inspectionRows.has(inspectionId)) {
+      inspectionRows.set(inspectionId, {
+        InspectionID: inspectionId,
+        Pipe_Segment_Reference: pipeRef,
+        // Unstated units leave the header empty so the processing units setting applies
+        IsImperial: options?.units ? (options.units === 'feet' ? 1 : 0) : null,
+      });
+    }
+  }
+
+  const inspections = extractInspectionData(Array.from(inspectionRows.values()));
+  const defects = extractDefectData(mappedRows, {
+    inspectionIdField: 'InspectionID',
+    pipeRefField: 'Pipe_Segment_Reference',
+    distanceField: 'Distance',
+    codeField: 'PACP_Code',
+    clockField: 'Clock_Position',
+    // Unmapped distance or clock columns stay empty rather than being guessed from the raw headers
+    guessPositionFields: false,
+  });
+
+  console.log(`Mapped ${mappedRows.length} of ${rows.length} spreadsheet rows into ${inspections.length} inspections`, { mapping });
+  return { inspections, defects };
+}
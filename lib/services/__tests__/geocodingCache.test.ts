@@ -0,0 +1,108 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFileGeocodingCache } from '../geocodingCache';
+import { GeocodingCacheEntry, geocodingCacheKey } from '../geocodingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function entry(lng: number, lat: number, address: string, cachedAt = Date.now()): GeocodingCacheEntry {
+  return {
+    key: geocodingCacheKey('nominatim', lng, lat),
+    provider: 'nominatim',
+    lng,
+    lat,
+    result: { address, details: {} },
+    cachedAt,
+  };
+}
+
+describe('createFileGeocodingCache', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'geocoding-cache-'));
+    path = join(dir, 'cache.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('answers lookups from memory and keeps entries on disk for the next instance', async () => {
+    const cache = createFileGeocodingCache(path, 90 * DAY_MS);
+    const stored = entry(-122.4, 37.8, '100 Main St');
+    await cache.set(stored);
+    expect(await cache.get(stored.key)).toEqual(stored.result);
+
+    const reopened = createFileGeocodingCache(path, 90 * DAY_MS);
+    expect(await reopened.get(stored.key)).toEqual(stored.result);
+    expect(await reopened.get(geocodingCacheKey('nominatim', 0, 0))).toBeNull();
+  });
+
+  it('answers lookups without waiting for pending writes', async () => {
+    const cache = createFileGeocodingCache(path, 90 * DAY_MS);
+    const stored = entry(-122.4, 37.8, '100 Main St');
+    await cache.get(stored.key); // Reads the (missing) file
+
+    let written = false;
+    const writing = cache.set(stored).then(() => {
+      written = true;
+    });
+    expect(await cache.get(stored.key)).toEqual(stored.result);
+    expect(written).toBe(false);
+    await writing;
+  });
+
+  it('picks up a purge made by another instance on a later lookup', async () => {
+    const stored = entry(-122.4, 37.8, '100 Main St');
+    const cache = createFileGeocodingCache(path, 90 * DAY_MS);
+    await cache.set(stored);
+    expect(await cache.get(stored.key)).toEqual(stored.result);
+
+    await createFileGeocodingCache(path, 90 * DAY_MS).purge();
+    vi.useFakeTimers({ now: Date.now() + 2000, toFake: ['Date'] });
+    try {
+      expect(await cache.get(stored.key)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('treats entries past the TTL as missing', async () => {
+    const cache = createFileGeocodingCache(path, DAY_MS);
+    const stale = entry(-122.4, 37.8, '100 Main St', Date.now() - 2 * DAY_MS);
+    await cache.set(stale);
+    expect(await cache.get(stale.key)).toBeNull();
+  });
+
+  it('imports only entries whose key matches their provider and coordinates', async () => {
+    const cache = createFileGeocodingCache(path, 90 * DAY_MS);
+    const valid = entry(-122.4, 37.8, '100 Main St');
+    const result = await cache.importEntries([
+      valid,
+      { ...entry(-122.5, 37.8, 'Wrong key'), key: 'nominatim:anything' },
+      { ...entry(-122.6, 37.8, 'Other provider'), provider: 'mapbox' },
+      { ...entry(-122.7, 37.8, 'Unknown provider'), provider: 'google', key: 'google:-122.70000,37.80000' },
+      { key: 'nominatim:1.00000,1.00000' },
+    ]);
+
+    expect(result).toEqual({ imported: 1, skipped: 4 });
+    expect(await cache.get(valid.key)).toEqual(valid.result);
+    expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(1);
+  });
+
+  it('purges matching entries from memory and disk', async () => {
+    const cache = createFileGeocodingCache(path, 90 * DAY_MS);
+    const kept = entry(-122.4, 37.8, '100 Main St');
+    const purged = entry(-122.5, 37.8, '200 Main St');
+    await cache.set(kept);
+    await cache.set(purged);
+
+    expect(await cache.purge({ key: purged.key })).toBe(1);
+    expect(await cache.get(purged.key)).toBeNull();
+    expect(await createFileGeocodingCache(path, 90 * DAY_MS).get(kept.key)).toEqual(kept.result);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GEOCODE_BATCH_SIZE, geocodeOnServer } from '../geocodingClient';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+describe('geocodeOnServer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the points in batches and returns the answers in order', async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const { points } = JSON.parse(String(init.body));
+      return jsonResponse(200, { success: true, results: points.map(([lng]: [number, number]) => ({ address: `at ${lng}`, details: {} })) });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const points = Array.from({ length: GEOCODE_BATCH_SIZE + 2 }, (_, i): [number, number] => [i, 0]);
+    const results = await geocodeOnServer(points);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/geocode');
+    expect(results.map((r) => r.address)).toEqual(points.map(([lng]) => `at ${lng}`));
+  });
+
+  it('waits out a rate-limited batch, and answers Geocoding failed for a rejected one', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { error: 'Too many' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, results: [{ address: '1 Main St', details: {} }] }))
+      .mockResolvedValueOnce(jsonResponse(500, { error: 'Mapbox access token is not configured' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await geocodeOnServer([[1, 2]])).toEqual([{ address: '1 Main St', details: {} }]);
+    expect(await geocodeOnServer([[1, 2]])).toEqual([{ address: 'Geocoding failed', details: {} }]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
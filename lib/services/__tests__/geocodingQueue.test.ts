@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { GeocoderError } from '../geocoders';
+import { createGeocodingQueue, GeocodingQueueOptions } from '../geocodingQueue';
+
+const OPTIONS: GeocodingQueueOptions = {
+  concurrency: 2,
+  requestsPerSecond: 1000,
+  burst: 1000,
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  timeoutMs: 1000,
+};
+
+function httpError(status: number): GeocoderError {
+  const error: GeocoderError = new Error(`HTTP ${status}`);
+  error.status = status;
+  return error;
+}
+
+describe('createGeocodingQueue', () => {
+  it('shares one request between lookups of the same key in flight', async () => {
+    const queue = createGeocodingQueue(OPTIONS);
+    let calls = 0;
+    const task = async () => {
+      calls++;
+      return 'address';
+    };
+
+    const results = await Promise.all([queue.run('a', task), queue.run('a', task), queue.run('b', task)]);
+    expect(results).toEqual(['address', 'address', 'address']);
+    expect(calls).toBe(2);
+    expect(queue.stats()).toMatchObject({ deduplicated: 1, completed: 2, inFlight: 0 });
+  });
+
+  it('retries 429 and 5xx answers until they succeed', async () => {
+    const queue = createGeocodingQueue(OPTIONS);
+    const answers = [httpError(429), httpError(503)];
+    const result = await queue.run('a', async () => {
+      const error = answers.shift();
+      if (error) throw error;
+      return 'address';
+    });
+
+    expect(result).toBe('address');
+    expect(queue.stats()).toMatchObject({ retries: 2, completed: 1, failed: 0 });
+  });
+
+  it('gives up after maxRetries, and does not retry other errors', async () => {
+    const queue = createGeocodingQueue(OPTIONS);
+    let calls = 0;
+    await expect(queue.run('a', async () => {
+      calls++;
+      throw httpError(500);
+    })).rejects.toMatchObject({ status: 500 });
+    expect(calls).toBe(OPTIONS.maxRetries + 1);
+
+    calls = 0;
+    await expect(queue.run('b', async () => {
+      calls++;
+      throw httpError(404);
+    })).rejects.toMatchObject({ status: 404 });
+    expect(calls).toBe(1);
+    expect(queue.stats().failed).toBe(2);
+  });
+
+  it('aborts the attempt signal when it times out', async () => {
+    const queue = createGeocodingQueue({ ...OPTIONS, timeoutMs: 20 });
+    let signal: AbortSignal | undefined;
+    await expect(queue.run('a', (s) => {
+      signal = s;
+      return new Promise(() => undefined); // Never answers
+    })).rejects.toThrow('Geocoding timeout after 20ms');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('runs at most `concurrency` requests at once', async () => {
+    const queue = createGeocodingQueue(OPTIONS);
+    let running = 0;
+    let peak = 0;
+    await Promise.all(['a', 'b', 'c', 'd', 'e'].map((key) => queue.run(key, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    })));
+    expect(peak).toBe(OPTIONS.concurrency);
+  });
+});
@@ -0,0 +1,68 @@
+import { FeatureCollection } from 'geojson';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildAddressPointIndex, geocodeFromAddressPoints, nearestAddressPoint } from '../addressPoints';
+import { parseAddressPoints } from '../../../parsers/addressPointParser';
+import { SewerAsset } from '../../../types';
+
+const LAYER: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    // North of the main, about 22 m
+    { type: 'Feature', id: 'north', geometry: { type: 'Point', coordinates: [-122.3995, 37.8002] }, properties: { AddNum: '12', St_PreDir: 'N', StreetName: 'Oak', St_PosTyp: 'St', City: 'Salinas', Zip: '93901' } },
+    // South of the main, about 17 m
+    { type: 'Feature', id: 'south', geometry: { type: 'Point', coordinates: [-122.3995, 37.79985] }, properties: { AddNum: '15', St_PreDir: 'N', StreetName: 'Oak', St_PosTyp: 'St', City: 'Salinas', Zip: '93901' } },
+    { type: 'Feature', geometry: { type: 'Point', coordinates: [-122.3996, 37.8002] }, properties: { AddNum: '', StreetName: '' } },
+    { type: 'Feature', geometry: null as any, properties: { AddNum: '20', StreetName: 'Elm' } },
+  ],
+};
+
+// Main running due east along latitude 37.8, under the street
+const MAIN: SewerAsset = {
+  type: 'Feature',
+  geometry: { type: 'LineString', coordinates: [[-122.4, 37.8], [-122.399, 37.8]] },
+  properties: { FID: 'M1' },
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseAddressPoints', () => {
+  it('builds the street from the NENA parts and skips points without an address or a point', () => {
+    const { addressPoints, fields } = parseAddressPoints(LAYER);
+    expect(fields).toMatchObject({ number: 'AddNum', street: 'StreetName', city: 'City', fullAddress: null });
+    expect(addressPoints.map((point) => point.address)).toEqual(['12 N Oak St, Salinas, 93901', '15 N Oak St, Salinas, 93901']);
+    expect(addressPoints[0]).toMatchObject({ id: 'north', details: { street: '12 N Oak St', city: 'Salinas', zip: '93901' } });
+  });
+
+  it('uses the full address column when there are no street parts', () => {
+    const { addressPoints } = parseAddressPoints({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', geometry: { type: 'MultiPoint', coordinates: [[1, 2]] }, properties: { FULLADDR: '9 Elm Ave, Marina, CA' } }],
+    });
+    expect(addressPoints[0]).toMatchObject({ address: '9 Elm Ave, Marina, CA', details: { street: '9 Elm Ave' }, geometry: { coordinates: [1, 2] } });
+  });
+});
+
+describe('geocodeFromAddressPoints', () => {
+  const index = buildAddressPointIndex(parseAddressPoints(LAYER).addressPoints);
+
+  it('takes the nearest point on the same side of the main as the lateral', () => {
+    const result = geocodeFromAddressPoints(index, [-122.3995, 37.8], { main: MAIN, toward: [-122.3995, 37.80005] });
+    expect(result.address).toBe('12 N Oak St, Salinas, 93901');
+    expect(result.details).toMatchObject({ addressPointId: 'north' });
+    expect(result.details.distanceMeters).toBeCloseTo(22.2, 0);
+  });
+
+  it('takes the nearest point on either side without a main', () => {
+    expect(nearestAddressPoint(index, [-122.3995, 37.8])?.point.id).toBe('south');
+  });
+
+  it('answers "Address not found" beyond the search radius', () => {
+    expect(geocodeFromAddressPoints(index, [-122.3995, 37.8], { maxMeters: 10 })).toEqual({ address: 'Address not found', details: {} });
+  });
+});
@@ -0,0 +1,108 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createServer } from 'net';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createGeocoder, GeocoderError, geocoderConfigFromEnv, GEOCODER_PROVIDERS } from '..';
+
+// Response parsing of each provider, checked against the local stand-in (scripts/geocoder-stand-in.js)
+const STAND_IN = join(__dirname, '..', '..', '..', '..', 'scripts', 'geocoder-stand-in.js');
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function startStandIn(...args: string[]): Promise<{ url: string; process: ChildProcess }> {
+  const port = await freePort();
+  const child = spawn(process.execPath, [STAND_IN, String(port), ...args], { stdio: ['ignore', 'pipe', 'inherit'] });
+  await new Promise<void>((resolve, reject) => {
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`Stand-in exited with ${code}`)));
+    child.stdout!.on('data', (chunk) => {
+      if (String(chunk).includes('listening')) resolve();
+    });
+  });
+  return { url: `http://localhost:${port}`, process: child };
+}
+
+describe('geocoder providers', () => {
+  let standIn: { url: string; process: ChildProcess };
+  let failing: { url: string; process: ChildProcess };
+
+  beforeAll(async () => {
+    standIn = await startStandIn();
+    failing = await startStandIn('--status=429');
+  });
+
+  afterAll(() => {
+    standIn?.process.kill();
+    failing?.process.kill();
+  });
+
+  it.each(GEOCODER_PROVIDERS)('%s reads street, city, state and zip', async (provider) => {
+    const geocoder = createGeocoder({ provider, baseUrl: standIn.url, apiKey: 'test-key' });
+    const result = await geocoder.reverse(-122.4, 37.8);
+
+    expect(result.details.street).toMatch(/^\d+ Main St$/);
+    expect(result.details.city).toBe('Springfield');
+    expect(result.details.zip).toBe('95000');
+    expect(result.details.state).toBe(provider === 'pelias' ? 'CA' : 'California');
+    expect(result.address).toBe(`${result.details.street}, Springfield, ${result.details.state}, 95000`);
+  });
+
+  it.each(GEOCODER_PROVIDERS)('%s answers "Address not found" when the service has no address', async (provider) => {
+    const geocoder = createGeocoder({ provider, baseUrl: standIn.url, apiKey: 'test-key' });
+    await expect(geocoder.reverse(-122.4, 0)).resolves.toEqual({ address: 'Address not found', details: {} });
+  });
+
+  it.each(GEOCODER_PROVIDERS)('%s rejects with the HTTP status of an error response', async (provider) => {
+    const geocoder = createGeocoder({ provider, baseUrl: failing.url, apiKey: 'test-key' });
+    const error: GeocoderError = await geocoder.reverse(-122.4, 37.8).then(() => {
+      throw new Error('Expected the lookup to fail');
+    }, (e) => e);
+    expect(error.status).toBe(429);
+  });
+
+  it('nominatim identifies itself with the contact email', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    try {
+      await createGeocoder({ provider: 'nominatim', baseUrl: standIn.url, email: 'ops@example.org' }).reverse(-122.4, 37.8);
+      const headers = fetchSpy.mock.calls[0][1]?.headers as Record<string, string>;
+      expect(headers['User-Agent']).toContain('ops@example.org');
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
+
+describe('geocoderConfigFromEnv', () => {
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('ignores the browser keys on the server, warning once about a Mapbox token set only for the browser', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('GEOCODER_PROVIDER', '');
+    vi.stubEnv('MAPBOX_ACCESS_TOKEN', '');
+    vi.stubEnv('NEXT_PUBLIC_MAPBOX_TOKEN', 'public-token');
+    expect(geocoderConfigFromEnv()).toMatchObject({ provider: 'mapbox', apiKey: undefined });
+    geocoderConfigFromEnv();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/MAPBOX_ACCESS_TOKEN is not set/);
+    warn.mockRestore();
+
+    vi.stubEnv('GEOCODER_PROVIDER', 'pelias');
+    vi.stubEnv('GEOCODER_API_KEY', '');
+    vi.stubEnv('NEXT_PUBLIC_GEOCODER_API_KEY', 'public-key');
+    expect(geocoderConfigFromEnv()).toMatchObject({ provider: 'pelias', apiKey: undefined });
+
+    vi.stubEnv('GEOCODER_API_KEY', 'server-key');
+    expect(geocoderConfigFromEnv().apiKey).toBe('server-key');
+  });
+});
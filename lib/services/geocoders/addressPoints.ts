@@ -0,0 +1,122 @@
+import { Position } from 'geojson';
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { AddressPoint, GeocodingResult, SewerAsset } from '../../types';
+import { assetPath } from '../../utils/linePath';
+
+// Grid cell size of the address point index, in degrees (about 110 m north-south)
+const CELL_DEGREES = 0.001;
+// Farthest an address point can be from a lateral and still be taken as its address
+export const ADDRESS_POINT_SEARCH_METERS = 100;
+// Points this close to the main, or lined up with its ends, are on neither side of the street
+const SIDE_AMBIGUITY_METERS = 0.5;
+const SIDE_AMBIGUITY_DEGREES = 5;
+
+export interface AddressPointIndex {
+  cells: Map<string, AddressPoint[]>;
+  count: number;
+}
+
+export interface AddressPointMatch {
+  point: AddressPoint;
+  distanceMeters: number;
+}
+
+function cellOf(position: Position): [number, number] {
+  return [Math.floor(position[0] / CELL_DEGREES), Math.floor(position[1] / CELL_DEGREES)];
+}
+
+/**
+ * Bucket address points into a lat/lng grid so a lookup only measures the points around it
+ */
+export function buildAddressPointIndex(points: AddressPoint[]): AddressPointIndex {
+  const cells = new Map<string, AddressPoint[]>();
+  let count = 0;
+  for (const point of points) {
+    const coordinates = point.geometry?.coordinates;
+    if (!coordinates || !isFinite(coordinates[0]) || !isFinite(coordinates[1])) continue;
+    const [x, y] = cellOf(coordinates);
+    const key = `${x}:${y}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+    count++;
+  }
+  return { cells, count };
+}
+
+/**
+ * Side of the main a point is on: +1 right of its vertex order, -1 left, 0 on it or past its ends.
+ * Mains run under the street, so the main stands in for the street centreline.
+ */
+function sideOfMain(path: Position[], point: Position): number {
+  const nearest = turf.nearestPointOnLine(turf.lineString(path), point, { units: 'meters' });
+  if ((nearest.properties.dist as number) < SIDE_AMBIGUITY_METERS) return 0;
+  const index = Math.min(nearest.properties.index as number, path.length - 2);
+  const mainBearing = turf.bearing(path[index], path[index + 1]);
+  const diff = ((turf.bearing(nearest.geometry.coordinates, point) - mainBearing + 540) % 360) - 180;
+  if (Math.abs(diff) < SIDE_AMBIGUITY_DEGREES || Math.abs(diff) > 180 - SIDE_AMBIGUITY_DEGREES) return 0;
+  return diff > 0 ? 1 : -1;
+}
+
+/**
+ * Nearest address point to a location, on the same side of the main as the lateral.
+ *
+ * The side is taken from `toward` (e.g. the end of the lateral stub) or the location itself;
+ * without a line main, or when the side can't be told, the nearest point on either side wins.
+ * Returns null when no address point is within the search radius.
+ */
+export function nearestAddressPoint(
+  index: AddressPointIndex,
+  at: Position,
+  options: { main?: SewerAsset; toward?: Position; maxMeters?: number } = {}
+): AddressPointMatch | null {
+  const maxMeters = options.maxMeters ?? ADDRESS_POINT_SEARCH_METERS;
+  const path = options.main ? assetPath(options.main)?.coordinates ?? null : null;
+  const side = path ? sideOfMain(path, options.toward ?? at) : 0;
+
+  const latCells = Math.ceil(maxMeters / 111320 / CELL_DEGREES);
+  const lngCells = Math.ceil(maxMeters / (111320 * Math.max(Math.cos((at[1] * Math.PI) / 180), 0.01)) / CELL_DEGREES);
+  const [cx, cy] = cellOf(at);
+
+  const candidates: AddressPointMatch[] = [];
+  for (let x = cx - lngCells; x <= cx + lngCells; x++) {
+    for (let y = cy - latCells; y <= cy + latCells; y++) {
+      for (const point of index.cells.get(`${x}:${y}`) || []) {
+        const distanceMeters = turf.distance(at, point.geometry.coordinates, { units: 'meters' });
+        if (distanceMeters <= maxMeters) candidates.push({ point, distanceMeters });
+      }
+    }
+  }
+  candidates.sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  for (const candidate of candidates) {
+    if (!path || side === 0) return candidate;
+    const candidateSide = sideOfMain(path, candidate.point.geometry.coordinates);
+    if (candidateSide === 0 || candidateSide === side) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Reverse geocode against an uploaded address-point layer, with no network call.
+ * The matched point and its distance are recorded in the address details.
+ */
+export function geocodeFromAddressPoints(
+  index: AddressPointIndex,
+  at: Position,
+  options: { main?: SewerAsset; toward?: Position; maxMeters?: number } = {}
+): GeocodingResult {
+  const match = nearestAddressPoint(index, at, options);
+  if (!match) {
+    return { address: 'Address not found', details: {} };
+  }
+  return {
+    address: match.point.address,
+    details: {
+      ...match.point.details,
+      addressPointId: match.point.id,
+      distanceMeters: Math.round(match.distanceMeters * 100) / 100,
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { createMapboxGeocoder } from './mapbox';
+import { createNominatimGeocoder } from './nominatim';
+import { createPeliasGeocoder } from './pelias';
+import { GEOCODER_PROVIDERS, GeocoderConfig, GeocoderProvider, isGeocoderProviderName } from './provider';
+
+export * from './provider';
+
+export function createGeocoder(config: GeocoderConfig): GeocoderProvider {
+  switch (config.provider) {
+    case 'mapbox':
+      return createMapboxGeocoder(config);
+    case 'nominatim':
+      return createNominatimGeocoder(config);
+    case 'pelias':
+      return createPeliasGeocoder(config);
+    default:
+      throw new Error(`Unknown geocoder provider: ${config.provider}`);
+  }
+}
+
+// Warned once: older deployments set only the browser token, which the server no longer uses
+let warnedPublicToken = false;
+
+/**
+ * Geocoder settings from the environment. Geocoding runs on the server only (tap addresses on the
+ * map go through /api/geocode), so only the private variables are read; keys shipped to the browser
+ * are never used.
+ */
+export function geocoderConfigFromEnv(): GeocoderConfig {
+  const env = {
+    provider: process.env.GEOCODER_PROVIDER,
+    baseUrl: process.env.GEOCODER_URL,
+    email: process.env.GEOCODER_EMAIL,
+    apiKey: process.env.GEOCODER_API_KEY,
+    mapboxToken: process.env.MAPBOX_ACCESS_TOKEN,
+  };
+
+  const provider = (env.provider || 'mapbox').trim().toLowerCase();
+  if (!isGeocoderProviderName(provider)) {
+    throw new Error(`GEOCODER_PROVIDER must be one of ${GEOCODER_PROVIDERS.join(', ')} (got "${provider}")`);
+  }
+
+  if (provider === 'mapbox' && !env.mapboxToken && process.env.NEXT_PUBLIC_MAPBOX_TOKEN && !warnedPublicToken) {
+    warnedPublicToken = true;
+    console.warn('MAPBOX_ACCESS_TOKEN is not set: addresses will not be looked up. NEXT_PUBLIC_MAPBOX_TOKEN is only used to draw the map; set MAPBOX_ACCESS_TOKEN for geocoding.');
+  }
+
+  return {
+    provider,
+    baseUrl: env.baseUrl || undefined,
+    apiKey: (provider === 'mapbox' ? env.mapboxToken : env.apiKey) || undefined,
+    email: env.email || undefined,
+  };
+}
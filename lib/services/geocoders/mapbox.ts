@@ -0,0 +1,43 @@
+import { GeocoderConfig, GeocoderProvider, composeResult, geocoderHttpError } from './provider';
+
+const MAPBOX_URL = 'https://api.mapbox.com';
+
+/**
+ * Mapbox Places v5 reverse geocoding (address features only)
+ */
+export function createMapboxGeocoder(config: GeocoderConfig): GeocoderProvider {
+  const baseUrl = (config.baseUrl || MAPBOX_URL).replace(/\/+$/, '');
+
+  return {
+    name: 'mapbox',
+    async reverse(lng, lat, signal) {
+      if (!config.apiKey) {
+        throw new Error('Mapbox access token is not configured');
+      }
+
+      const url = `${baseUrl}/geocoding/v5/mapbox.places/${lng},${lat}.json?access_token=${encodeURIComponent(config.apiKey)}&types=address`;
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw geocoderHttpError('mapbox', response);
+      }
+
+      const data = await response.json();
+      const feature = data.features?.[0];
+      if (!feature) {
+        return { address: 'Address not found', details: {} };
+      }
+
+      // Extract address components
+      const context = feature.context || [];
+      return composeResult(
+        {
+          street: feature.properties?.address || feature.text || '',
+          city: context.find((c: any) => c.id.startsWith('place'))?.text || '',
+          state: context.find((c: any) => c.id.startsWith('region'))?.text || '',
+          zip: context.find((c: any) => c.id.startsWith('postcode'))?.text || '',
+        },
+        feature.place_name
+      );
+    },
+  };
+}
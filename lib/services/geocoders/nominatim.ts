@@ -0,0 +1,56 @@
+import { GeocoderConfig, GeocoderProvider, composeResult, geocoderHttpError } from './provider';
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// Nominatim's usage policy asks for a User-Agent that identifies the application
+const USER_AGENT = 'sewer-lateral-inspection';
+
+/**
+ * Nominatim reverse geocoding (public OSM instance or self-hosted).
+ * The public instance allows about one request per second and asks for a contact email.
+ * Browsers do not let scripts set User-Agent, so the header is only sent from the server.
+ */
+export function createNominatimGeocoder(config: GeocoderConfig): GeocoderProvider {
+  const baseUrl = (config.baseUrl || NOMINATIM_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = typeof window === 'undefined'
+    ? { 'User-Agent': config.email ? `${USER_AGENT} (${config.email})` : USER_AGENT }
+    : {};
+
+  return {
+    name: 'nominatim',
+    async reverse(lng, lat, signal) {
+      const params = new URLSearchParams({
+        format: 'jsonv2',
+        lat: String(lat),
+        lon: String(lng),
+        addressdetails: '1',
+        zoom: '18', // Building level
+      });
+      if (config.email) {
+        params.set('email', config.email);
+      }
+
+      const response = await fetch(`${baseUrl}/reverse?${params.toString()}`, { headers, signal });
+      if (!response.ok) {
+        throw geocoderHttpError('nominatim', response);
+      }
+
+      // Nominatim answers 200 with an error message when nothing is near the point
+      const data = await response.json();
+      if (!data || data.error || !data.address) {
+        return { address: 'Address not found', details: {} };
+      }
+
+      const a = data.address;
+      return composeResult(
+        {
+          street: [a.house_number, a.road].filter(Boolean).join(' '),
+          city: a.city || a.town || a.village || a.hamlet || a.suburb || '',
+          state: a.state || '',
+          zip: a.postcode || '',
+        },
+        data.display_name
+      );
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { GeocoderConfig, GeocoderProvider, composeResult, geocoderHttpError } from './provider';
+
+/**
+ * Pelias reverse geocoding (self-hosted, or a hosted instance such as geocode.earth with an api_key)
+ */
+export function createPeliasGeocoder(config: GeocoderConfig): GeocoderProvider {
+  if (!config.baseUrl) {
+    throw new Error('Pelias needs GEOCODER_URL set to the Pelias API root (e.g. http://localhost:4000)');
+  }
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'pelias',
+    async reverse(lng, lat, signal) {
+      const params = new URLSearchParams({
+        'point.lat': String(lat),
+        'point.lon': String(lng),
+        layers: 'address',
+        size: '1',
+      });
+      if (config.apiKey) {
+        params.set('api_key', config.apiKey);
+      }
+
+      const response = await fetch(`${baseUrl}/v1/reverse?${params.toString()}`, { signal });
+      if (!response.ok) {
+        throw geocoderHttpError('pelias', response);
+      }
+
+      const data = await response.json();
+      const p = data.features?.[0]?.properties;
+      if (!p) {
+        return { address: 'Address not found', details: {} };
+      }
+
+      return composeResult(
+        {
+          street: [p.housenumber, p.street].filter(Boolean).join(' ') || p.name || '',
+          city: p.locality || p.localadmin || p.county || '',
+          state: p.region_a || p.region || '',
+          zip: p.postalcode || '',
+        },
+        p.label
+      );
+    },
+  };
+}
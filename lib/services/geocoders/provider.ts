@@ -0,0 +1,54 @@
+import { GeocodingResult } from '../../types';
+
+export type GeocoderProviderName = 'mapbox' | 'nominatim' | 'pelias';
+export const GEOCODER_PROVIDERS: GeocoderProviderName[] = ['mapbox', 'nominatim', 'pelias'];
+
+/**
+ * Reverse geocoding backend. `reverse` resolves to 'Address not found' when the service has no
+ * address for the point and rejects on transport or HTTP errors (with the HTTP status when there is one).
+ * Aborting `signal` cancels the request (the geocoding queue does so when an attempt times out).
+ */
+export interface GeocoderProvider {
+  name: GeocoderProviderName;
+  reverse(lng: number, lat: number, signal?: AbortSignal): Promise<GeocodingResult>;
+}
+
+export interface GeocoderConfig {
+  provider: GeocoderProviderName;
+  baseUrl?: string; // Service root; required for Pelias, defaults to the public endpoint otherwise
+  apiKey?: string; // Mapbox access token, or Pelias api_key (e.g. geocode.earth)
+  email?: string; // Contact address sent to Nominatim, as its usage policy asks
+}
+
+export interface GeocoderError extends Error {
+  status?: number;
+  retryAfterMs?: number; // From a Retry-After header (429/503)
+}
+
+/**
+ * Error for a non-2xx response, keeping the status so callers can tell rate limits from failures
+ */
+export function geocoderHttpError(provider: GeocoderProviderName, response: Response): GeocoderError {
+  const error: GeocoderError = new Error(`${provider} geocoder error: ${response.status} ${response.statusText}`);
+  error.status = response.status;
+
+  // Retry-After is either a number of seconds or an HTTP date
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    const ms = /^\d+$/.test(retryAfter.trim()) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - Date.now();
+    if (isFinite(ms) && ms >= 0) error.retryAfterMs = ms;
+  }
+  return error;
+}
+
+/**
+ * Build the address string the way every provider reports it: street, city, state, zip
+ */
+export function composeResult(details: GeocodingResult['details'], fallback?: string): GeocodingResult {
+  const address = [details.street, details.city, details.state, details.zip].filter(Boolean).join(', ') || fallback || 'Address not found';
+  return { address, details: { ...details, fullAddress: address } };
+}
+
+export function isGeocoderProviderName(value: unknown): value is GeocoderProviderName {
+  return typeof value === 'string' && (GEOCODER_PROVIDERS as string[]).includes(value);
+}
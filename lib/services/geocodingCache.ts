@@ -0,0 +1,304 @@
+import { appendFile, mkdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { isGeocoderProviderName } from './geocoders';
+import { GeocodingCacheEntry, GeocodingCacheStore, geocodingCacheKey, setGeocodingCacheStore } from './geocodingService';
+
+// Entries older than this are looked up again (GEOCODING_CACHE_TTL_DAYS, 0 keeps them forever)
+const DEFAULT_TTL_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lookups check the file for changes by other instances (a purge, an import) at most this often
+const FILE_CHECK_INTERVAL_MS = 1000;
+
+export interface GeocodingCacheStats {
+  path: string;
+  ttlDays: number;
+  entries: number;
+  expired: number;
+  providers: Record<string, number>;
+  oldest: string | null; // ISO dates of the oldest and newest entry
+  newest: string | null;
+}
+
+export interface GeocodingCacheFilter {
+  provider?: string;
+  key?: string;
+  expiredOnly?: boolean;
+}
+
+/**
+ * Geocoding cache kept in a JSON-lines file, one entry per line, and in memory.
+ *
+ * Lookups are answered from memory once the file has been read. New entries are appended; the file
+ * is rewritten on purge, import, or when it holds more than twice as many lines as live entries.
+ * Writes run one at a time. The file's size and mtime are checked before compaction, import, purge
+ * and the admin statistics and listings, and by lookups at most once a second; it is reloaded when
+ * another process (a second server instance) changed it.
+ */
+export interface FileGeocodingCache extends GeocodingCacheStore {
+  path: string;
+  ttlMs: number;
+  stats(): Promise<GeocodingCacheStats>;
+  list(filter?: GeocodingCacheFilter & { limit?: number; offset?: number }): Promise<{ total: number; entries: GeocodingCacheEntry[] }>;
+  exportEntries(): Promise<GeocodingCacheEntry[]>;
+  importEntries(entries: unknown[], options?: { overwrite?: boolean }): Promise<{ imported: number; skipped: number }>;
+  purge(filter?: GeocodingCacheFilter): Promise<number>;
+}
+
+/**
+ * A well-formed entry whose key is the `provider:lng,lat` key of its own provider and coordinates
+ */
+function isCacheEntry(value: any): value is GeocodingCacheEntry {
+  return (
+    value != null &&
+    typeof value.key === 'string' &&
+    isGeocoderProviderName(value.provider) &&
+    typeof value.lng === 'number' &&
+    typeof value.lat === 'number' &&
+    Math.abs(value.lng) <= 180 &&
+    Math.abs(value.lat) <= 90 &&
+    value.key === geocodingCacheKey(value.provider, value.lng, value.lat) &&
+    typeof value.cachedAt === 'number' &&
+    isFinite(value.cachedAt) &&
+    value.result != null &&
+    typeof value.result.address === 'string'
+  );
+}
+
+export function createFileGeocodingCache(path: string, ttlMs: number): FileGeocodingCache {
+  let entries = new Map<string, GeocodingCacheEntry>();
+  let lineCount = 0;
+  let fileVersion: string | null = null; // size:mtime of the file as last read or written
+  let queue: Promise<unknown> = Promise.resolve();
+  let loaded: Promise<void> | null = null; // First read of the file
+  let checkedAt = 0; // When lookups last compared the file with fileVersion
+
+  // One write at a time, so appends and rewrites never interleave
+  const serialize = <T>(operation: () => Promise<T>): Promise<T> => {
+    const run = queue.then(operation, operation);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const isExpired = (entry: GeocodingCacheEntry, now: number = Date.now()) => ttlMs > 0 && now - entry.cachedAt > ttlMs;
+
+  const currentVersion = async (): Promise<string | null> => {
+    try {
+      const info = await stat(path);
+      return `${info.size}:${info.mtimeMs}`;
+    } catch {
+      return null;
+    }
+  };
+
+  const load = async () => {
+    const version = await currentVersion();
+    if (version === fileVersion) return;
+
+    entries = new Map();
+    lineCount = 0;
+    if (version) {
+      const text = await readFile(path, 'utf8');
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        lineCount++;
+        try {
+          const entry = JSON.parse(line);
+          if (isCacheEntry(entry)) entries.set(entry.key, entry);
+        } catch {
+          // A line cut short by a crash mid-append; dropped at the next rewrite
+        }
+      }
+      console.log(`Loaded ${entries.size} geocoding cache entries from ${path}`);
+    }
+    fileVersion = version;
+    checkedAt = Date.now();
+  };
+
+  const rewrite = async () => {
+    const now = Date.now();
+    const live = Array.from(entries.values()).filter((entry) => !isExpired(entry, now));
+    entries = new Map(live.map((entry) => [entry.key, entry]));
+    await mkdir(dirname(path), { recursive: true });
+    const temporary = `${path}.${process.pid}.tmp`;
+    await writeFile(temporary, live.map((entry) => JSON.stringify(entry)).join('\n') + (live.length > 0 ? '\n' : ''));
+    await rename(temporary, path);
+    lineCount = live.length;
+    fileVersion = await currentVersion();
+  };
+
+  // Reload the file if another process changed it, then answer from memory
+  const refresh = () => serialize(load);
+  const ready = () => {
+    if (!loaded) {
+      loaded = refresh().catch((error) => {
+        loaded = null; // Try again on the next lookup
+        throw error;
+      });
+    }
+    return loaded;
+  };
+  // A stat at most once a second; the reload waits for writes already queued
+  const checkForChanges = async () => {
+    if (Date.now() - checkedAt < FILE_CHECK_INTERVAL_MS) return;
+    checkedAt = Date.now();
+    if ((await currentVersion()) !== fileVersion) await refresh();
+  };
+
+  const matches = (entry: GeocodingCacheEntry, filter: GeocodingCacheFilter, now: number) =>
+    (!filter.provider || entry.provider === filter.provider) &&
+    (!filter.key || entry.key === filter.key) &&
+    (!filter.expiredOnly || isExpired(entry, now));
+
+  return {
+    path,
+    ttlMs,
+
+    async get(key) {
+      await ready();
+      await checkForChanges();
+      const entry = entries.get(key);
+      return entry && !isExpired(entry) ? entry.result : null;
+    },
+
+    async set(entry) {
+      await ready();
+      entries.set(entry.key, entry); // Found by lookups while the append waits its turn
+      return serialize(async () => {
+        if (lineCount >= 1000 && lineCount > entries.size * 2) {
+          // Pick up other processes' appends before the rewrite drops their lines
+          await load();
+          entries.set(entry.key, entry);
+          await rewrite();
+          return;
+        }
+        entries.set(entry.key, entry);
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, JSON.stringify(entry) + '\n');
+        lineCount++;
+        fileVersion = await currentVersion();
+      });
+    },
+
+    stats() {
+      return refresh().then(() => {
+        const now = Date.now();
+        const providers: Record<string, number> = {};
+        let expired = 0;
+        let oldest = Infinity;
+        let newest = -Infinity;
+        entries.forEach((entry) => {
+          providers[entry.provider] = (providers[entry.provider] || 0) + 1;
+          if (isExpired(entry, now)) expired++;
+          oldest = Math.min(oldest, entry.cachedAt);
+          newest = Math.max(newest, entry.cachedAt);
+        });
+        return {
+          path,
+          ttlDays: ttlMs / DAY_MS,
+          entries: entries.size,
+          expired,
+          providers,
+          oldest: entries.size > 0 ? new Date(oldest).toISOString() : null,
+          newest: entries.size > 0 ? new Date(newest).toISOString() : null,
+        };
+      });
+    },
+
+    list(filter = {}) {
+      return refresh().then(() => {
+        const now = Date.now();
+        const matching = Array.from(entries.values())
+          .filter((entry) => matches(entry, filter, now))
+          .sort((a, b) => b.cachedAt - a.cachedAt);
+        const offset = Math.max(filter.offset ?? 0, 0);
+        return { total: matching.length, entries: matching.slice(offset, offset + (filter.limit ?? 100)) };
+      });
+    },
+
+    exportEntries() {
+      return refresh().then(() => {
+        const now = Date.now();
+        return Array.from(entries.values()).filter((entry) => !isExpired(entry, now));
+      });
+    },
+
+    importEntries(incoming, options = {}) {
+      return serialize(async () => {
+        await load();
+        const now = Date.now();
+        let imported = 0;
+        let skipped = 0;
+        for (const entry of incoming) {
+          // Invalid, already expired, or older than what is cached (unless overwriting)
+          if (!isCacheEntry(entry) || isExpired(entry, now)) {
+            skipped++;
+            continue;
+          }
+          const existing = entries.get(entry.key);
+          if (existing && !options.overwrite && existing.cachedAt >= entry.cachedAt) {
+            skipped++;
+            continue;
+          }
+          entries.set(entry.key, entry);
+          imported++;
+        }
+        if (imported > 0) await rewrite();
+        return { imported, skipped };
+      });
+    },
+
+    purge(filter = {}) {
+      return serialize(async () => {
+        await load();
+        const now = Date.now();
+        let removed = 0;
+        Array.from(entries.values()).forEach((entry) => {
+          if (matches(entry, filter, now)) {
+            entries.delete(entry.key);
+            removed++;
+          }
+        });
+        // Rewriting also drops expired entries and superseded lines
+        await rewrite();
+        return removed;
+      });
+    },
+  };
+}
+
+let defaultCache: FileGeocodingCache | null | undefined;
+
+/**
+ * The persistent geocoding cache configured by GEOCODING_CACHE_FILE (default geocoding-cache.jsonl in the
+ * system temp directory, which is writable on serverless hosts; "off" disables it) and GEOCODING_CACHE_TTL_DAYS.
+ * Null when disabled.
+ */
+export function getGeocodingCache(): FileGeocodingCache | null {
+  if (defaultCache === undefined) {
+    const file = (process.env.GEOCODING_CACHE_FILE || '').trim();
+    const ttlDays = process.env.GEOCODING_CACHE_TTL_DAYS != null && process.env.GEOCODING_CACHE_TTL_DAYS.trim() !== ''
+      ? Number(process.env.GEOCODING_CACHE_TTL_DAYS)
+      : DEFAULT_TTL_DAYS;
+    if (!isFinite(ttlDays) || ttlDays < 0) {
+      throw new Error(`GEOCODING_CACHE_TTL_DAYS must be a non-negative number of days (got "${process.env.GEOCODING_CACHE_TTL_DAYS}")`);
+    }
+    defaultCache = file.toLowerCase() === 'off'
+      ? null
+      : createFileGeocodingCache(file || join(tmpdir(), 'geocoding-cache.jsonl'), ttlDays * DAY_MS);
+  }
+  return defaultCache;
+}
+
+/**
+ * Make server-side lookups (reverseGeocode) use the persistent cache. Called once when a route
+ * module loads; a bad cache setting is logged and leaves the in-memory cache in use.
+ */
+export function registerGeocodingCache(): void {
+  try {
+    setGeocodingCacheStore(getGeocodingCache());
+  } catch (error) {
+    console.error('Geocoding cache disabled:', error);
+  }
+}
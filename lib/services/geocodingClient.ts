@@ -0,0 +1,52 @@
+import { GeocodingResult } from '../types';
+
+// Points per /api/geocode request: 25 lookups take about 25 s at Nominatim's 1 per second, within the route's limit
+export const GEOCODE_BATCH_SIZE = 25;
+
+// Waits for a rate-limited batch before its points are given up as failed
+const MAX_RATE_LIMIT_WAITS = 3;
+
+const FAILED: GeocodingResult = { address: 'Geocoding failed', details: {} };
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reverse geocode points in the browser through the server (/api/geocode), which holds the provider
+ * settings, the persistent cache and the request queue. Points are sent in batches of GEOCODE_BATCH_SIZE;
+ * a batch the server rejects is answered 'Geocoding failed' for each of its points.
+ */
+export async function geocodeOnServer(points: Array<[number, number]>): Promise<GeocodingResult[]> {
+  const results: GeocodingResult[] = [];
+
+  for (let start = 0; start < points.length; start += GEOCODE_BATCH_SIZE) {
+    const batch = points.slice(start, start + GEOCODE_BATCH_SIZE);
+    let batchResults: GeocodingResult[] | null = null;
+
+    for (let attempt = 0; attempt <= MAX_RATE_LIMIT_WAITS; attempt++) {
+      try {
+        const response = await fetch('/api/geocode', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ points: batch }),
+        });
+        if (response.status === 429 && attempt < MAX_RATE_LIMIT_WAITS) {
+          await sleep(Number(response.headers.get('Retry-After') || 5) * 1000);
+          continue;
+        }
+        const data = await response.json();
+        if (!response.ok) {
+          console.warn('Geocoding batch failed:', data.error);
+        } else {
+          batchResults = data.results;
+        }
+      } catch (error) {
+        console.warn('Geocoding batch failed:', error);
+      }
+      break;
+    }
+
+    results.push(...batch.map((_, idx) => batchResults?.[idx] ?? FAILED));
+  }
+
+  return results;
+}
@@ -0,0 +1,178 @@
+import { GeocoderError, GeocoderProviderName } from './geocoders';
+
+// Published limits: public Nominatim allows one request per second, Mapbox 600 a minute;
+// Pelias is usually self-hosted or geocode.earth (about 10 a second)
+const PROVIDER_DEFAULTS: Record<GeocoderProviderName, { concurrency: number; requestsPerSecond: number }> = {
+  mapbox: { concurrency: 5, requestsPerSecond: 10 },
+  nominatim: { concurrency: 1, requestsPerSecond: 1 },
+  pelias: { concurrency: 5, requestsPerSecond: 10 },
+};
+
+export interface GeocodingQueueOptions {
+  concurrency: number; // Provider requests running at once
+  requestsPerSecond: number; // Token bucket refill rate
+  burst: number; // Token bucket size: requests that may go out back to back after a quiet spell
+  maxRetries: number; // Retries of a request that failed with 429 or 5xx
+  baseDelayMs: number; // Backoff before the first retry, doubled for each further one
+  maxDelayMs: number;
+  timeoutMs: number; // Per attempt
+}
+
+export interface GeocodingQueueStats {
+  waiting: number; // Waiting for a slot
+  active: number;
+  inFlight: number; // Distinct keys being looked up
+  completed: number;
+  failed: number;
+  retries: number;
+  deduplicated: number; // Lookups that joined one already in flight
+}
+
+export interface GeocodingQueue {
+  options: GeocodingQueueOptions;
+  run<T>(key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T>; // signal aborts when an attempt times out
+  stats(): GeocodingQueueStats;
+}
+
+function envNumber(name: string, raw: string | undefined, fallback: number, min: number): number {
+  if (raw == null || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (!isFinite(value) || value < min) {
+    throw new Error(`${name} must be a number of at least ${min} (got "${raw}")`);
+  }
+  return value;
+}
+
+/**
+ * Queue settings for a provider: its published limits unless GEOCODER_CONCURRENCY,
+ * GEOCODER_RATE_LIMIT (requests per second), GEOCODER_BURST, GEOCODER_MAX_RETRIES or
+ * GEOCODER_TIMEOUT_MS say otherwise.
+ */
+export function geocodingQueueOptionsFromEnv(provider: GeocoderProviderName): GeocodingQueueOptions {
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const requestsPerSecond = envNumber('GEOCODER_RATE_LIMIT', process.env.GEOCODER_RATE_LIMIT, defaults.requestsPerSecond, 0.01);
+  return {
+    concurrency: Math.floor(envNumber('GEOCODER_CONCURRENCY', process.env.GEOCODER_CONCURRENCY, defaults.concurrency, 1)),
+    requestsPerSecond,
+    burst: envNumber('GEOCODER_BURST', process.env.GEOCODER_BURST, Math.max(1, Math.ceil(requestsPerSecond)), 1),
+    maxRetries: Math.floor(envNumber('GEOCODER_MAX_RETRIES', process.env.GEOCODER_MAX_RETRIES, 3, 0)),
+    baseDelayMs: 500,
+    maxDelayMs: 30000,
+    timeoutMs: envNumber('GEOCODER_TIMEOUT_MS', process.env.GEOCODER_TIMEOUT_MS, 5000, 1),
+  };
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function isRetryable(error: unknown): boolean {
+  const status = (error as GeocoderError)?.status;
+  return status === 429 || (status != null && status >= 500 && status < 600);
+}
+
+/**
+ * Queue for provider requests: at most `concurrency` at once, no faster than the token bucket allows,
+ * 429/5xx answers retried with exponential backoff (or the server's Retry-After), and lookups of a
+ * key already in flight joined to it instead of sent again. Each attempt takes a token.
+ */
+export function createGeocodingQueue(options: GeocodingQueueOptions): GeocodingQueue {
+  const inFlight = new Map<string, Promise<unknown>>();
+  const waiting: Array<() => void> = [];
+  let active = 0;
+  const counts = { completed: 0, failed: 0, retries: 0, deduplicated: 0 };
+
+  // Token bucket, refilled continuously; takers line up so tokens go out in order
+  let tokens = options.burst;
+  let refilledAt = Date.now();
+  let tokenLine: Promise<void> = Promise.resolve();
+  const takeToken = (): Promise<void> => {
+    const take = async () => {
+      for (;;) {
+        const now = Date.now();
+        tokens = Math.min(options.burst, tokens + ((now - refilledAt) / 1000) * options.requestsPerSecond);
+        refilledAt = now;
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(Math.ceil(((1 - tokens) / options.requestsPerSecond) * 1000));
+      }
+    };
+    tokenLine = tokenLine.then(take);
+    return tokenLine;
+  };
+
+  const acquireSlot = (): Promise<void> => {
+    if (active < options.concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) next(); // The slot passes straight to the next waiter
+    else active--;
+  };
+
+  // Each attempt gets its own signal, aborted on timeout so the provider's request is cancelled too
+  const attempt = async <T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    await takeToken();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`Geocoding timeout after ${options.timeoutMs}ms`)), options.timeoutMs);
+    try {
+      return await Promise.race([
+        task(controller.signal),
+        new Promise<T>((_, reject) => {
+          controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const execute = async <T>(key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    await acquireSlot();
+    try {
+      for (let retry = 0; ; retry++) {
+        try {
+          const result = await attempt(task);
+          counts.completed++;
+          return result;
+        } catch (error) {
+          if (!isRetryable(error) || retry >= options.maxRetries) {
+            counts.failed++;
+            throw error;
+          }
+          // Exponential backoff with jitter, unless the server said how long to wait
+          const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retry) * (0.5 + Math.random() * 0.5);
+          const delay = Math.min(options.maxDelayMs, Math.max((error as GeocoderError).retryAfterMs ?? 0, backoff));
+          counts.retries++;
+          console.warn(`Geocoding ${key} failed with ${(error as GeocoderError).status}, retry ${retry + 1}/${options.maxRetries} in ${Math.round(delay)}ms`);
+          await sleep(delay);
+        }
+      }
+    } finally {
+      releaseSlot();
+    }
+  };
+
+  return {
+    options,
+
+    run<T>(key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+      const pending = inFlight.get(key);
+      if (pending) {
+        counts.deduplicated++;
+        return pending as Promise<T>;
+      }
+      const run = execute(key, task).finally(() => inFlight.delete(key));
+      inFlight.set(key, run);
+      return run;
+    },
+
+    stats() {
+      return { waiting: waiting.length, active, inFlight: inFlight.size, ...counts };
+    },
+  };
+}
@@ -1,70 +1,121 @@
 import { GeocodingResult } from '../types';
+import { GeocoderProvider, createGeocoder, geocoderConfigFromEnv } from './geocoders';
+import { GeocodingQueue, GeocodingQueueStats, createGeocodingQueue, geocodingQueueOptionsFromEnv } from './geocodingQueue';
 
-const MAPBOX_ACCESS_TOKEN = process.env.MAPBOX_ACCESS_TOKEN || process.env.NEXT_PUBLIC_MAPBOX_TOKEN || '';
+// Provider chosen by GEOCODER_PROVIDER (mapbox by default), created on first use
+let defaultGeocoder: GeocoderProvider | null = null;
 
-// Cache to minimize API calls
+// Rate limits, retries and in-flight dedupe for every provider request, created on first use
+let geocodingQueue: GeocodingQueue | null = null;
+
+// Cache to minimize API calls (per provider, since they can disagree on an address)
 const geocodingCache = new Map<string, GeocodingResult>();
 
+// Coordinates are rounded to 5 decimals (about 1 m) in cache keys, so repeat lookups on a pipe hit
+export const CACHE_COORDINATE_DECIMALS = 5;
+
+export interface GeocodingCacheEntry {
+  key: string;
+  provider: string;
+  lng: number; // Rounded, as in the key
+  lat: number;
+  result: GeocodingResult;
+  cachedAt: number; // Epoch milliseconds
+}
+
+/**
+ * Persistent cache used instead of the in-memory one. Server routes register one
+ * (lib/services/geocodingCache.ts); without it lookups are cached in memory only.
+ */
+export interface GeocodingCacheStore {
+  get(key: string): Promise<GeocodingResult | null>;
+  set(entry: GeocodingCacheEntry): Promise<void>;
+}
+
+let cacheStore: GeocodingCacheStore | null = null;
+
+/**
+ * Cache lookups in a persistent store (null to go back to memory only)
+ */
+export function setGeocodingCacheStore(store: GeocodingCacheStore | null): void {
+  cacheStore = store;
+}
+
+/**
+ * Cache key of a lookup: provider plus coordinates rounded to CACHE_COORDINATE_DECIMALS
+ */
+export function geocodingCacheKey(provider: string, lng: number, lat: number): string {
+  return `${provider}:${lng.toFixed(CACHE_COORDINATE_DECIMALS)},${lat.toFixed(CACHE_COORDINATE_DECIMALS)}`;
+}
+
+/**
+ * The configured geocoder provider
+ */
+export function getGeocoder(): GeocoderProvider {
+  if (!defaultGeocoder) {
+    defaultGeocoder = createGeocoder(geocoderConfigFromEnv());
+  }
+  return defaultGeocoder;
+}
+
 /**
- * Reverse geocode coordinates to get address using Mapbox
+ * The queue provider requests go through, with the configured provider's limits
+ */
+export function getGeocodingQueue(): GeocodingQueue {
+  if (!geocodingQueue) {
+    geocodingQueue = createGeocodingQueue(geocodingQueueOptionsFromEnv(getGeocoder().name));
+  }
+  return geocodingQueue;
+}
+
+/**
+ * Counters of the geocoding queue, or null before the first provider request
+ */
+export function geocodingQueueStats(): GeocodingQueueStats | null {
+  return geocodingQueue ? geocodingQueue.stats() : null;
+}
+
+/**
+ * Reverse geocode coordinates to get address using the configured provider (or the one given)
  */
 export async function reverseGeocode(
   lng: number,
-  lat: number
+  lat: number,
+  geocoder: GeocoderProvider = getGeocoder()
 ): Promise<GeocodingResult> {
-  const cacheKey = `${lng.toFixed(6)},${lat.toFixed(6)}`;
+  const cacheKey = geocodingCacheKey(geocoder.name, lng, lat);
   
-  // Check cache first
-  if (geocodingCache.has(cacheKey)) {
+  // Check cache first (the persistent store keeps its own copy in memory and applies the TTL)
+  if (cacheStore) {
+    try {
+      const stored = await cacheStore.get(cacheKey);
+      if (stored) {
+        return stored;
+      }
+    } catch (cacheError) {
+      console.warn('Geocoding cache read failed:', cacheError);
+    }
+  } else if (geocodingCache.has(cacheKey)) {
     return geocodingCache.get(cacheKey)!;
   }
 
-  if (!MAPBOX_ACCESS_TOKEN) {
-    throw new Error('Mapbox access token is not configured');
-  }
-
   try {
-    const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?access_token=${MAPBOX_ACCESS_TOKEN}&types=address`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Mapbox API error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    let address = 'Address not found';
-    const details: GeocodingResult['details'] = {};
-
-    if (data.features && data.features.length > 0) {
-      const feature = data.features[0];
-      const context = feature.context || [];
-      
-      // Extract address components
-      const street = feature.properties?.address || feature.text || '';
-      const city = context.find((c: any) => c.id.startsWith('place'))?.text || '';
-      const state = context.find((c: any) => c.id.startsWith('region'))?.text || '';
-      const zip = context.find((c: any) => c.id.startsWith('postcode'))?.text || '';
-      
-      details.street = street;
-      details.city = city;
-      details.state = state;
-      details.zip = zip;
-      
-      // Build full address
-      const addressParts = [street, city, state, zip].filter(Boolean);
-      address = addressParts.join(', ') || feature.place_name || 'Address not found';
-      details.fullAddress = address;
-    }
-
-    const result: GeocodingResult = {
-      address,
-      details,
-    };
+    // Queued: rate limited, retried on 429/5xx, and shared with a lookup of the same key already in flight
+    const result = await getGeocodingQueue().run(cacheKey, (signal) => geocoder.reverse(lng, lat, signal));
 
     // Cache the result
-    geocodingCache.set(cacheKey, result);
+    if (!cacheStore) {
+      geocodingCache.set(cacheKey, result);
+    } else {
+      await cacheStore.set({
+        key: cacheKey,
+        provider: geocoder.name,
+        lng: Number(lng.toFixed(CACHE_COORDINATE_DECIMALS)),
+        lat: Number(lat.toFixed(CACHE_COORDINATE_DECIMALS)),
+        result,
+        cachedAt: Date.now(),
+      }).catch((cacheError) => console.warn('Geocoding cache write failed:', cacheError));
+    }
     
     return result;
   } catch (error) {
@@ -77,7 +128,7 @@ export async function reverseGeocode(
 }
 
 /**
- * Batch reverse geocode multiple coordinates
+ * Batch reverse geocode multiple coordinates (all at once; the queue paces the provider requests)
  */
 export async function batchReverseGeocode(
   coordinates: Array<[number, number]>
@@ -89,9 +140,8 @@ export async function batchReverseGeocode(
 }
 
 /**
- * Clear the geocoding cache
+ * Clear the in-memory geocoding cache (the persistent store is purged through /api/admin/geocoding-cache)
  */
 export function clearGeocodingCache(): void {
   geocodingCache.clear();
 }
-
@@ -1,4 +1,4 @@
-import { Feature, Point, LineString, MultiLineString } from 'geojson';
+import { Feature, Point, LineString, MultiLineString, Polygon, MultiPolygon } from 'geojson';
 
 export interface SewerAsset extends Feature<Point | LineString | MultiLineString> {
   properties: {
@@ -31,17 +31,15 @@ export interface LateralInspection {
   assetCoordinates?: [number, number]; // Asset reference point [lng, lat] for creating line
   connectionPoint?: [number, number]; // Point on mainline where lateral connects [lng, lat]
   stubLine?: [[number, number], [number, number]]; // Stub line coordinates: [connectionPoint, stubEndPoint]
+  lateralLine?: [number, number][]; // Full surveyed lateral path from LACP: [connectionPoint, ..., endPoint]
+  publicLine?: [number, number][]; // Main to property line (right-of-way side), when a parcel layer was given
+  privateLine?: [number, number][]; // Property line into the parcel
+  propertyLinePoint?: [number, number]; // Where the lateral crosses the parcel boundary (property-line cleanout)
   assetId?: string;
   tapDistance: number;
   clockPosition: number;
   address?: string;
-  addressDetails?: {
-    street?: string;
-    city?: string;
-    state?: string;
-    zip?: string;
-    fullAddress?: string;
-  };
+  addressDetails?: GeocodingResult['details'];
   inspectionDate?: string;
   properties?: Record<string, any>;
 }
@@ -55,12 +53,72 @@ export interface DefectRecord {
   grade?: number | string;
   distance?: number;
   clockPosition?: number;
+  clockTo?: number; // End of the clock range (PACP Clock_To), when the observation spans one
+  continuous?: string; // Continuous defect marker: S## on the start row, F## on the finish row
   coordinates?: [number, number];
   address?: string;
   addressDetails?: GeocodingResult['details'];
   properties: Record<string, any>;
 }
 
+export interface ContinuousDefect {
+  id: string;
+  inspectionId?: string;
+  pipeSegmentReference?: string;
+  defectCode?: string;
+  defectDescription?: string;
+  grade?: number | string;
+  marker: string; // Number shared by the start and finish rows, e.g. '01' for S01/F01
+  startDistance: number; // In the inspection's units, as recorded
+  endDistance: number;
+  clockFrom?: number;
+  clockTo?: number;
+  startDefectId: string;
+  finishDefectId: string;
+  line?: [number, number][]; // Section of the mainline between the two distances
+  properties: Record<string, any>;
+}
+
+export interface LateralSurveyRecord {
+  inspectionId: string; // LACP inspection ID
+  lateralSegmentReference?: string;
+  mainInspectionId?: string; // PACP inspection of the mainline the lateral was launched from
+  pipeSegmentReference?: string; // Mainline pipe segment (matches GIS FID)
+  mainlineDistance?: number; // Tap position along the mainline, in the survey's units
+  clockPosition?: number; // Tap clock position on the mainline
+  lengthSurveyed?: number; // Surveyed lateral length, in the survey's units
+  isImperial?: number | null;
+  accessPoint?: string | null; // Where the camera was launched from (mainline, cleanout, ...)
+  inspectionDate?: string;
+  observations: DefectRecord[]; // LACP_Conditions rows for this lateral
+  tapDefectId?: string; // PACP tap condition this survey was linked to
+  raw?: Record<string, any>;
+}
+
+/**
+ * Spreadsheet column chosen for each inspection field (null = not in the sheet)
+ */
+export interface ColumnMapping {
+  pipeSegmentReference: string | null;
+  inspectionId: string | null;
+  distance: string | null;
+  clockPosition: string | null;
+  defectCode: string | null;
+}
+
+export interface ManholeInspection {
+  id: string;
+  inspectionId: string; // MACP inspection ID
+  manholeId: string; // Manhole number, matches Upstream_MH/Downstream_MH on pipes
+  coordinates?: [number, number]; // Manhole location [lng, lat], once joined to the asset layer
+  locatedBy?: 'asset' | 'pipe-attribute' | 'inspection' | 'gps'; // How the location was found
+  pipeSegmentReferences: string[]; // Pipes that start or end at this manhole
+  inspectionDate?: string;
+  isImperial?: number | null;
+  observations: DefectRecord[]; // MACP_Conditions rows for this manhole
+  properties: Record<string, any>;
+}
+
 export interface TapInspection {
   id: string;
   coordinates: [number, number];
@@ -76,11 +134,35 @@ export interface TapInspection {
   properties?: Record<string, any>;
 }
 
+export interface Parcel extends Feature<Polygon | MultiPolygon> {
+  id: string;
+  apn: string | null; // Assessor's parcel number
+  owner?: string | null; // Owner name, as the assessor layer spells it
+  situsAddress?: string | null; // Site address of the parcel
+  landUse?: string | null; // Land use / use code
+  properties: Record<string, any>;
+}
+
+export interface ExistingLateral extends Feature<Point | LineString | MultiLineString> {
+  id: string;
+  mainId: string | null; // Main the lateral is attributed to, when the layer carries one
+  properties: Record<string, any>;
+}
+
+export interface AddressPoint extends Feature<Point> {
+  id: string;
+  address: string; // Full address as the layer spells it, or composed from its number/street/city columns
+  details: GeocodingResult['details'];
+  properties: Record<string, any>;
+}
+
 export interface ProcessedData {
   assets: SewerAsset[];
   inspections: InspectionRecord[];
   laterals: LateralInspection[];
   defects?: DefectRecord[];
+  continuousDefects?: ContinuousDefect[];
+  manholes?: ManholeInspection[];
 }
 
 export interface GeocodingResult {
@@ -91,6 +173,8 @@ export interface GeocodingResult {
     state?: string;
     zip?: string;
     fullAddress?: string;
+    addressPointId?: string; // Matched point of an uploaded address layer (offline geocoding)
+    distanceMeters?: number; // From the looked-up location to that address point
   };
 }
 
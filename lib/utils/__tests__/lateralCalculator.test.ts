@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { assetLengthMeters, calculateLengthScale } from '../lateralCalculator';
+import { surveyReachedFarManhole } from '../surveyDirection';
+import { InspectionRecord, SewerAsset } from '../../types';
+
+const pipe: SewerAsset = {
+  type: 'Feature',
+  geometry: { type: 'LineString', coordinates: [[-122.4, 37.8], [-122.399, 37.8]] },
+  properties: {},
+};
+const gisMeters = assetLengthMeters(pipe)!;
+
+describe('calculateLengthScale', () => {
+  it('stretches distances by GIS length / surveyed length within the tolerance', () => {
+    const scale = calculateLengthScale(pipe, gisMeters / 1.05, 'meters', true, 0.1);
+    expect(scale.applied).toBe(true);
+    expect(scale.outsideTolerance).toBe(false);
+    expect(scale.factor).toBeCloseTo(1.05, 6);
+  });
+
+  it('converts Length_Surveyed from feet', () => {
+    const scale = calculateLengthScale(pipe, gisMeters / 0.3048, 'feet', true);
+    expect(scale.factor).toBeCloseTo(1, 6);
+    expect(scale.surveyedLengthMeters).toBeCloseTo(gisMeters, 6);
+  });
+
+  it('flags lengths that differ by more than the tolerance and leaves them unscaled', () => {
+    const scale = calculateLengthScale(pipe, gisMeters / 1.5, 'meters', true, 0.1);
+    expect(scale).toMatchObject({ factor: 1, applied: false, outsideTolerance: true, reason: 'GIS and surveyed lengths differ by 50%' });
+  });
+
+  it('leaves abandoned surveys, missing lengths and points unscaled without flagging them', () => {
+    const point: SewerAsset = { type: 'Feature', geometry: { type: 'Point', coordinates: [-122.4, 37.8] }, properties: {} };
+    expect(calculateLengthScale(pipe, gisMeters, 'meters', false)).toMatchObject({ factor: 1, applied: false, outsideTolerance: false });
+    expect(calculateLengthScale(pipe, null, 'meters', true)).toMatchObject({ factor: 1, reason: 'No Length_Surveyed' });
+    expect(calculateLengthScale(point, 10, 'meters', true)).toMatchObject({ factor: 1, reason: 'Asset is not a line' });
+  });
+});
+
+describe('surveyReachedFarManhole', () => {
+  const inspection = (status?: string): InspectionRecord => ({ pipeSegmentReference: 'P1', raw: status ? { Inspection_Status: status } : {} });
+
+  it('is false for an MSA observation or an abandoned status', () => {
+    expect(surveyReachedFarManhole(inspection(), ['TFA', 'MSA'])).toBe(false);
+    expect(surveyReachedFarManhole(inspection('SA'), [])).toBe(false);
+    expect(surveyReachedFarManhole(inspection('Survey Abandoned'), [])).toBe(false);
+  });
+
+  it('is true for a completed survey', () => {
+    expect(surveyReachedFarManhole(inspection('CP'), ['TFA', 'MWL'])).toBe(true);
+  });
+});
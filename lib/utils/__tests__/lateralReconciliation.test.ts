@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileLaterals } from '../lateralReconciliation';
+import { ExistingLateral, LateralInspection, SewerAsset } from '../../types';
+
+const LAT = 37.8;
+
+// An inspected main running east for about 88 m, and one nobody inspected further north
+const mains: SewerAsset[] = [
+  { type: 'Feature', geometry: { type: 'LineString', coordinates: [[-122.4, LAT], [-122.399, LAT]] }, properties: { FID: 'M1' } },
+  { type: 'Feature', geometry: { type: 'LineString', coordinates: [[-122.4, LAT + 0.01], [-122.399, LAT + 0.01]] }, properties: { FID: 'M2' } },
+];
+
+// Computed lateral tapped into M1 at `lng`, its stub heading north (or south)
+function computed(id: string, lng: number, north = true): LateralInspection {
+  const end: [number, number] = [lng, LAT + (north ? 0.00003 : -0.00003)];
+  return {
+    id,
+    assetId: 'M1',
+    coordinates: end,
+    connectionPoint: [lng, LAT],
+    stubLine: [[lng, LAT], end],
+    tapDistance: 0,
+    clockPosition: north ? 9 : 3,
+    properties: { inspectionId: 'i1', apn: '001-01' },
+  };
+}
+
+// Existing GIS lateral drawn from the main outwards
+function existing(id: string, lng: number, lat: number, north = true, mainId: string | null = null): ExistingLateral {
+  return {
+    type: 'Feature',
+    id,
+    mainId,
+    geometry: { type: 'LineString', coordinates: [[lng, lat], [lng, lat + (north ? 0.0002 : -0.0002)]] },
+    properties: {},
+  };
+}
+
+describe('reconcileLaterals', () => {
+  const report = reconcileLaterals(
+    [
+      computed('L1', -122.3998), // Existing tap 0.9 m away: confirmed
+      computed('L2', -122.3995), // Existing tap 4.4 m away: moved
+      computed('L3', -122.3992), // Existing tap is on the other side: new
+    ],
+    [
+      existing('E1', -122.39981, LAT),
+      existing('E2', -122.39945, LAT + 0.00001),
+      existing('E3', -122.3992, LAT, false),
+      existing('E4', -122.3995, LAT + 0.01), // On the uninspected main
+      existing('E5', -122.3, LAT), // Far from any main
+    ],
+    mains
+  );
+  const entry = (id: string) => report.entries.find((e) => e.lateralId === id || e.existingId === id);
+
+  it('confirms close taps and reports moved ones with their offset', () => {
+    expect(entry('L1')).toMatchObject({ status: 'confirmed', existingId: 'E1', assetId: 'M1', inspectionId: 'i1', parcel: { apn: '001-01' } });
+    expect(entry('L1')!.offsetMeters).toBeCloseTo(0.88, 1);
+    expect(entry('L2')).toMatchObject({ status: 'moved', existingId: 'E2' });
+    expect(entry('L2')!.offsetMeters).toBeCloseTo(4.4, 0);
+  });
+
+  it('does not pair taps on opposite sides of the main', () => {
+    expect(entry('L3')).toMatchObject({ status: 'new', existingId: null });
+    expect(entry('E3')).toMatchObject({ status: 'missing', lateralId: null, assetId: 'M1' });
+  });
+
+  it('counts existing laterals off the inspected mains without classifying them', () => {
+    expect(entry('E4')).toBeUndefined();
+    expect(entry('E5')).toBeUndefined();
+    expect(report.summary).toEqual({ confirmed: 1, moved: 1, new: 1, missing: 1, existingOutsideInspection: 1, existingWithoutMain: 1 });
+  });
+
+  it('pairs one to one, closest first', () => {
+    const crowded = reconcileLaterals(
+      [computed('A', -122.3998), computed('B', -122.39978)],
+      [existing('E', -122.39979, LAT)],
+      mains
+    );
+    expect(crowded.entries.find((e) => e.existingId === 'E')?.lateralId).toBe('B');
+    expect(crowded.summary).toMatchObject({ confirmed: 1, new: 1, missing: 0 });
+  });
+
+  it('uses the main attribute of an existing lateral over proximity', () => {
+    const attributed = reconcileLaterals([], [existing('E', -122.3995, LAT + 0.01, true, 'M1')], mains, ['M1']);
+    expect(attributed.entries).toEqual([expect.objectContaining({ status: 'missing', existingId: 'E', assetId: 'M1' })]);
+  });
+});
@@ -0,0 +1,52 @@
+import { Position } from 'geojson';
+import { describe, expect, it } from 'vitest';
+import { assetPath, mergeLineParts } from '../linePath';
+import { SewerAsset } from '../../types';
+
+// About 11 m apart along a parallel
+const A: Position = [-122.4, 37.8];
+const B: Position = [-122.3999, 37.8];
+const C: Position = [-122.3998, 37.8];
+const D: Position = [-122.3997, 37.8];
+
+describe('mergeLineParts', () => {
+  it('chains parts digitized in order', () => {
+    expect(mergeLineParts([[A, B], [B, C], [C, D]])).toEqual({ coordinates: [A, B, C, D], partCount: 3, chained: true, gaps: [] });
+  });
+
+  it('reverses and prepends parts to connect them end to end', () => {
+    const merged = mergeLineParts([[B, C], [D, C], [B, A]]);
+    expect(merged.coordinates).toEqual([A, B, C, D]);
+    expect(merged.chained).toBe(true);
+  });
+
+  it('joins ends within the snap distance without reporting a gap', () => {
+    const nearlyB: Position = [-122.3999 + 1e-6, 37.8]; // About 9 cm off
+    const merged = mergeLineParts([[A, B], [nearlyB, C]]);
+    expect(merged.coordinates).toEqual([A, B, nearlyB, C]);
+    expect(merged.chained).toBe(true);
+  });
+
+  it('bridges parts that touch nothing and reports the gap', () => {
+    const merged = mergeLineParts([[A, B], [C, D]]);
+    expect(merged.coordinates).toEqual([A, B, C, D]);
+    expect(merged.chained).toBe(false);
+    expect(merged.gaps).toHaveLength(1);
+    expect(merged.gaps[0].part).toBe(1);
+    expect(merged.gaps[0].meters).toBeCloseTo(8.8, 0);
+  });
+
+  it('skips degenerate parts and handles an empty geometry', () => {
+    expect(mergeLineParts([[A], [A, B]]).coordinates).toEqual([A, B]);
+    expect(mergeLineParts([])).toEqual({ coordinates: [], partCount: 0, chained: false, gaps: [] });
+  });
+});
+
+describe('assetPath', () => {
+  it('returns a LineString as is and merges a MultiLineString', () => {
+    const line: SewerAsset = { type: 'Feature', geometry: { type: 'LineString', coordinates: [A, B] }, properties: {} };
+    const multi: SewerAsset = { type: 'Feature', geometry: { type: 'MultiLineString', coordinates: [[C, B], [A, B]] }, properties: {} };
+    expect(assetPath(line)?.coordinates).toEqual([A, B]);
+    expect(assetPath(multi)?.coordinates).toEqual([C, B, A]);
+  });
+});
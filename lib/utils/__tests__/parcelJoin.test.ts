@@ -0,0 +1,58 @@
+import { Position } from 'geojson';
+import { describe, expect, it } from 'vitest';
+import { joinParcel, parcelAttributesOf, parcelJoinProperties } from '../parcelJoin';
+import { buildParcelIndex } from '../propertyLine';
+import { Parcel } from '../../types';
+
+function parcel(id: string, south: number, north: number): Parcel {
+  const [west, east] = [-122.4, -122.399];
+  return {
+    type: 'Feature',
+    id,
+    apn: `APN-${id}`,
+    owner: `Owner ${id}`,
+    properties: {},
+    geometry: { type: 'Polygon', coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]] },
+  };
+}
+
+// Lots on both sides of a main along latitude 37.8: north front line ~11 m away, south front line ~22 m away
+const NORTH = parcel('N', 37.8001, 37.801);
+const SOUTH = parcel('S', 37.799, 37.7998);
+const INDEX = buildParcelIndex([NORTH, SOUTH]);
+
+// Stub from the main heading north
+const NORTH_STUB: [Position, Position] = [[-122.3995, 37.8], [-122.3995, 37.80002]];
+
+describe('joinParcel', () => {
+  it('joins the parcel containing the lateral endpoint', () => {
+    expect(joinParcel(INDEX, [-122.3995, 37.8005], { stub: NORTH_STUB })).toMatchObject({ parcel: { id: 'N' }, method: 'endpoint', distanceMeters: 0 });
+  });
+
+  it('falls back to the stub end, then the parcel the stub was extended into', () => {
+    const inStreet: Position = [-122.3995, 37.80005];
+    expect(joinParcel(INDEX, inStreet, { stub: [NORTH_STUB[0], [-122.3995, 37.8002]] })).toMatchObject({ parcel: { id: 'N' }, method: 'stub' });
+    const join = joinParcel(INDEX, inStreet, { stub: NORTH_STUB, crossedParcel: SOUTH });
+    expect(join).toMatchObject({ parcel: { id: 'S' }, method: 'property-line' });
+    expect(join!.distanceMeters).toBeCloseTo(27.8, 0);
+  });
+
+  it('takes the nearest parcel on the stub side of the main', () => {
+    // Closer to the south lots, but the stub heads north
+    const endpoint: Position = [-122.3995, 37.79993];
+    const join = joinParcel(INDEX, endpoint, { stub: NORTH_STUB });
+    expect(join).toMatchObject({ parcel: { id: 'N' }, method: 'nearest' });
+    expect(join!.distanceMeters).toBeCloseTo(18.9, 0);
+    expect(joinParcel(INDEX, endpoint)).toMatchObject({ parcel: { id: 'S' }, method: 'nearest' });
+    expect(joinParcel(INDEX, endpoint, { stub: NORTH_STUB, maxDistance: 10 })).toBeNull();
+  });
+});
+
+describe('parcelJoinProperties', () => {
+  it('writes the parcel attributes, or nulls so exports keep their columns', () => {
+    const properties = parcelJoinProperties({ parcel: NORTH, method: 'endpoint', distanceMeters: 0 });
+    expect(properties).toMatchObject({ apn: 'APN-N', parcelId: 'N', parcelOwner: 'Owner N', parcelSitusAddress: null, parcelJoin: 'endpoint' });
+    expect(Object.values(parcelJoinProperties(null)).every((value) => value === null)).toBe(true);
+    expect(parcelAttributesOf({ FID: 'L1', ...properties })).toEqual(properties);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { orientPointAssets, pointPipeBearing, pointRotationAttribute } from '../pointOrientation';
+import { SewerAsset } from '../../types';
+
+function point(coordinates: [number, number], properties: Record<string, any> = {}): SewerAsset {
+  return { type: 'Feature', geometry: { type: 'Point', coordinates }, properties };
+}
+
+// Main running due east along latitude 37.8
+const MAIN: SewerAsset = {
+  type: 'Feature',
+  geometry: { type: 'LineString', coordinates: [[-122.4, 37.8], [-122.399, 37.8]] },
+  properties: { FID: 'M1' },
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('pointRotationAttribute', () => {
+  it('reads bearing attributes as compass bearings', () => {
+    expect(pointRotationAttribute(point([0, 0], { AZIMUTH: '-90' }))).toBe(270);
+  });
+
+  it('reads symbol rotation only when its convention is given', () => {
+    const asset = point([0, 0], { Rotation: 30 });
+    expect(pointRotationAttribute(asset)).toBeNull();
+    expect(pointRotationAttribute(asset, 'geographic')).toBe(30);
+    expect(pointRotationAttribute(asset, 'arithmetic')).toBe(60);
+  });
+});
+
+describe('orientPointAssets', () => {
+  it('takes the direction of the line a point sits on', () => {
+    const [, cleanout] = orientPointAssets([MAIN, point([-122.3995, 37.80003])]);
+    expect(pointPipeBearing(cleanout)).toBeCloseTo(90, 1);
+    expect(cleanout.properties.pipeBearingSource).toBe('nearest-line');
+  });
+
+  it('prefers the attribute and leaves manholes, line ends and far points unoriented', () => {
+    const [, attributed, manhole, lineEnd, far] = orientPointAssets([
+      MAIN,
+      point([-122.3995, 37.8], { Bearing: 10 }),
+      point([-122.3995, 37.8], { MH_ID: 'MH-4' }),
+      point([-122.4, 37.8]),
+      point([-122.3995, 37.801]),
+    ]);
+    expect(attributed.properties).toMatchObject({ pipeBearing: 10, pipeBearingSource: 'attribute' });
+    expect(pointPipeBearing(manhole)).toBeNull();
+    expect(pointPipeBearing(lineEnd)).toBeNull();
+    expect(pointPipeBearing(far)).toBeNull();
+  });
+
+  it('keeps a direction set on an earlier upload', () => {
+    const oriented = point([-122.3995, 37.8], { pipeBearing: 45, pipeBearingSource: 'attribute' });
+    expect(orientPointAssets([MAIN, oriented])[1]).toBe(oriented);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { assetsToWGS84, detectSourceCRS, getGeoJSONCrsCode, looksProjected, reprojectAssets } from '../projection';
+import { SewerAsset } from '../../types';
+
+// EPSG:2227 (NAD83 / California zone 3, US feet): the false easting and northing sit at the
+// projection origin, 36°30'N 120°30'W
+const ORIGIN_FEET: [number, number] = [6561666.667, 1640416.667];
+
+function point(coordinates: [number, number]): SewerAsset {
+  return { type: 'Feature', geometry: { type: 'Point', coordinates }, properties: { FID: '1' } };
+}
+
+describe('detectSourceCRS', () => {
+  it('takes the chosen EPSG code over the .prj and the GeoJSON crs member', () => {
+    const crs = detectSourceCRS({ epsg: '2227', prj: 'PROJCS["ignored"]', geojson: { crs: { type: 'name', properties: { name: 'EPSG:4326' } } } });
+    expect(crs).toMatchObject({ source: 'epsg', code: 'EPSG:2227' });
+  });
+
+  it('uses the registry definition for a .prj with an EPSG authority, and shifts NAD27 datums', () => {
+    expect(detectSourceCRS({ prj: 'PROJCS["NAD83 / California zone 3 (ftUS)",GEOGCS["NAD83"],AUTHORITY["EPSG","2227"]]' }))
+      .toMatchObject({ source: 'prj', code: 'EPSG:2227' });
+
+    const nad27 = detectSourceCRS({ prj: 'GEOGCS["GCS_North_American_1927",DATUM["D_North_American_1927",SPHEROID["Clarke_1866",6378206.4,294.9786982]],PRIMEM["Greenwich",0],UNIT["Degree",0.0174532925199433]]' });
+    expect(nad27?.definition).toContain('TOWGS84[-8,160,176,0,0,0,0]');
+  });
+
+  it('reads the GeoJSON crs member and rejects codes it cannot reproject', () => {
+    expect(getGeoJSONCrsCode({ crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::2227' } } })).toBe('EPSG:2227');
+    expect(() => detectSourceCRS({ epsg: '999999' })).toThrow(/Unsupported EPSG code/);
+    expect(detectSourceCRS({})).toBeNull();
+  });
+});
+
+describe('reprojectAssets', () => {
+  it('moves the EPSG:2227 origin to 120.5 W, 36.5 N', () => {
+    const [asset] = reprojectAssets([point(ORIGIN_FEET)], detectSourceCRS({ epsg: 'EPSG:2227' }));
+    const [lng, lat] = asset.geometry.coordinates as number[];
+    expect(lng).toBeCloseTo(-120.5, 6);
+    expect(lat).toBeCloseTo(36.5, 6);
+  });
+
+  it('leaves WGS84 assets untouched', () => {
+    const assets = [point([-122.4, 37.8])];
+    expect(reprojectAssets(assets, null)).toBe(assets);
+  });
+});
+
+describe('looksProjected', () => {
+  it('tells projected coordinates from longitude and latitude', () => {
+    expect(looksProjected([point(ORIGIN_FEET)])).toBe(true);
+    expect(looksProjected([point([-122.4, 37.8])])).toBe(false);
+  });
+});
+
+describe('assetsToWGS84', () => {
+  it('refuses projected coordinates without a coordinate system', () => {
+    expect(() => assetsToWGS84([point(ORIGIN_FEET)], null)).toThrow(/look projected/);
+  });
+});
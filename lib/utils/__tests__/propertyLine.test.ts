@@ -0,0 +1,61 @@
+import { Position } from 'geojson';
+import { describe, expect, it } from 'vitest';
+import { buildParcelIndex, extendStubToPropertyLine, findParcelAt, splitAtPropertyLine } from '../propertyLine';
+import { Parcel } from '../../types';
+
+function parcel(id: string, west: number, south: number, east: number, north: number): Parcel {
+  return {
+    type: 'Feature',
+    id,
+    apn: id,
+    properties: {},
+    geometry: { type: 'Polygon', coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]] },
+  };
+}
+
+// Two lots side by side on the north side of a main along latitude 37.8, their front line ~11 m from it
+const INDEX = buildParcelIndex([
+  parcel('A', -122.4, 37.8001, -122.3995, 37.801),
+  parcel('B', -122.3995, 37.8001, -122.399, 37.801),
+]);
+
+describe('splitAtPropertyLine', () => {
+  it('splits a lateral where it crosses into a lot', () => {
+    const path: Position[] = [[-122.3997, 37.8], [-122.3997, 37.8003]];
+    const split = splitAtPropertyLine(path, INDEX)!;
+    expect(split.parcel?.id).toBe('A');
+    expect(split.insideParcel).toBe(false);
+    expect(split.propertyLinePoint![1]).toBeCloseTo(37.8001, 6);
+    expect(split.publicLengthMeters).toBeCloseTo(11.1, 0);
+    expect(split.publicLine[0]).toEqual(path[0]);
+    expect(split.privateLine[split.privateLine.length - 1]).toEqual(path[1]);
+  });
+
+  it('treats a connection already inside a lot as all private', () => {
+    const split = splitAtPropertyLine([[-122.3992, 37.8005], [-122.3992, 37.8008]], INDEX)!;
+    expect(split).toMatchObject({ insideParcel: true, publicLine: [], publicLengthMeters: 0 });
+    expect(split.parcel?.id).toBe('B');
+  });
+
+  it('returns null when the path stays in the street', () => {
+    expect(splitAtPropertyLine([[-122.3997, 37.8], [-122.3997, 37.80005]], INDEX)).toBeNull();
+    expect(findParcelAt([-122.3997, 37.8], INDEX)).toBeNull();
+  });
+});
+
+describe('extendStubToPropertyLine', () => {
+  it('carries a short stub on to the property line and a set length past it', () => {
+    const split = extendStubToPropertyLine([[-122.3992, 37.8], [-122.3992, 37.80002]], INDEX, 5)!;
+    expect(split.parcel?.id).toBe('B');
+    expect(split.publicLengthMeters).toBeCloseTo(11.1, 0);
+    const [start, end] = split.privateLine;
+    expect(start).toEqual(split.propertyLinePoint);
+    expect((end[1] - start[1]) * 111_000).toBeCloseTo(5, 0);
+  });
+
+  it('gives up when no lot lies within the search distance', () => {
+    // Stub pointing south, away from the lots
+    expect(extendStubToPropertyLine([[-122.3992, 37.8], [-122.3992, 37.79998]], INDEX, 5)).toBeNull();
+    expect(extendStubToPropertyLine([[-122.3992, 37.8], [-122.3992, 37.80002]], INDEX, 5, 5)).toBeNull();
+  });
+});
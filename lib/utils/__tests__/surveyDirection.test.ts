@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { buildManholeIndex, orientAsset, orientInspection, surveyDirection } from '../surveyDirection';
+import { InspectionRecord, SewerAsset } from '../../types';
+
+// Digitized west to east, from MH-1 to MH-2
+function pipe(properties: Record<string, any> = {}): SewerAsset {
+  return {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [[-122.4, 37.8], [-122.399, 37.8]] },
+    properties: { FID: 'P1', ...properties },
+  };
+}
+
+function manhole(id: string, coordinates: [number, number]): SewerAsset {
+  return { type: 'Feature', geometry: { type: 'Point', coordinates }, properties: { Manhole_Number: id } };
+}
+
+const manholes = buildManholeIndex([manhole('MH-1', [-122.4, 37.8]), manhole('mh-2 ', [-122.399, 37.8])]);
+
+describe('surveyDirection', () => {
+  it('reads the direction code, then a reverse setup flag or inspection ID', () => {
+    expect(surveyDirection({ direction: 'Downstream' })).toBe('downstream');
+    expect(surveyDirection({ direction: 'U' })).toBe('upstream');
+    expect(surveyDirection({ reverseSetup: 'Y' })).toBe('upstream');
+    expect(surveyDirection({ reverseSetup: '1042' })).toBe('upstream');
+    expect(surveyDirection({ reverseSetup: 'No' })).toBeNull();
+  });
+});
+
+describe('orientInspection', () => {
+  it('matches the start manhole to the manhole point at a line end', () => {
+    // Upstream survey set up at MH-1 (its downstream manhole), which sits at the first vertex
+    const inspection: InspectionRecord = { direction: 'U', upstreamMH: 'MH-2', downstreamMH: 'MH-1' };
+    expect(orientInspection(inspection, pipe(), manholes)).toEqual({ reversed: false, orientedBy: 'manhole-point', startMH: 'MH-1' });
+
+    const fromFarEnd: InspectionRecord = { direction: 'D', upstreamMH: 'MH-2', downstreamMH: 'MH-1' };
+    expect(orientInspection(fromFarEnd, pipe(), manholes)).toMatchObject({ reversed: true, orientedBy: 'manhole-point' });
+  });
+
+  it('falls back to the pipe from/to node attributes, then to the direction alone', () => {
+    const inspection: InspectionRecord = { direction: 'D', upstreamMH: 'B', downstreamMH: 'A' };
+    expect(orientInspection(inspection, pipe({ From_MH: 'A', To_MH: 'B' }))).toMatchObject({ reversed: true, orientedBy: 'pipe-nodes' });
+    expect(orientInspection(inspection, pipe())).toMatchObject({ reversed: false, orientedBy: 'direction' });
+    expect(orientInspection({ direction: 'U' }, pipe())).toMatchObject({ reversed: true, orientedBy: 'direction' });
+  });
+
+  it('keeps the vertex order without a direction', () => {
+    expect(orientInspection({ upstreamMH: 'MH-2' }, pipe(), manholes)).toEqual({ reversed: false, orientedBy: 'default' });
+  });
+});
+
+describe('orientAsset', () => {
+  it('reverses the line of a reversed survey only', () => {
+    const asset = pipe();
+    expect(orientAsset(asset, { reversed: false, orientedBy: 'default' })).toBe(asset);
+    expect(orientAsset(asset, { reversed: true, orientedBy: 'direction' }).geometry.coordinates).toEqual([[-122.399, 37.8], [-122.4, 37.8]]);
+  });
+});
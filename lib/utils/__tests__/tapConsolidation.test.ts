@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { consolidateTaps, TapCandidate, tapGroupOrder, tapGroupProperties, tapGroupsByItem, tapLinePosition } from '../tapConsolidation';
+import { SewerAsset } from '../../types';
+
+const TOLERANCE = { distanceMeters: 1, clockHours: 1 };
+
+function tap(item: string, positionMeters: number, clockPosition: number | null, inspectionId: string, inspectionDate?: string, assetId = 'P1'): TapCandidate<string> {
+  return { item, assetId, positionMeters, clockPosition, inspectionId, inspectionDate };
+}
+
+describe('consolidateTaps', () => {
+  it('groups repeat observations of a tap, most recent first', () => {
+    const groups = consolidateTaps([
+      tap('2019', 10, 3, 'i2019', '2019-05-01'),
+      tap('2023', 10.4, 2.5, 'i2023', '2023-05-01'),
+      tap('2021', 9.6, 3.5, 'i2021', '2021-05-01'),
+    ], TOLERANCE);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kept.item).toBe('2023');
+    expect(groups[0].members.map((m) => m.item)).toEqual(['2023', '2021', '2019']);
+    expect(tapGroupProperties(groups[0])).toEqual({
+      contributingInspectionIds: 'i2023, i2021, i2019',
+      tapObservationCount: 3,
+      tapConsolidated: true,
+    });
+  });
+
+  it('keeps taps apart beyond the distance or clock tolerance, or on another pipe', () => {
+    const groups = consolidateTaps([
+      tap('a', 10, 3, 'i1', '2023-01-01'),
+      tap('far', 12, 3, 'i2', '2020-01-01'),
+      tap('other side', 10, 9, 'i2', '2020-01-01'),
+      tap('other pipe', 10, 3, 'i3', '2020-01-01', 'P2'),
+    ], TOLERANCE);
+    expect(groups).toHaveLength(4);
+  });
+
+  it('never merges two taps seen in the same inspection', () => {
+    const groups = consolidateTaps([
+      tap('first', 10, 3, 'i1', '2023-01-01'),
+      tap('second', 10.5, 3, 'i1', '2023-01-01'),
+      tap('older', 10.5, 3, 'i0', '2020-01-01'),
+    ], TOLERANCE);
+    expect(groups.map((g) => g.members.map((m) => m.item))).toEqual([['first'], ['second', 'older']]);
+  });
+
+  it('treats undated observations as the oldest and wraps the clock at 12', () => {
+    const groups = consolidateTaps([
+      tap('undated', 10, 11.5, 'i0'),
+      tap('dated', 10, 0.5, 'i1', '2020-01-01'),
+    ], TOLERANCE);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kept.item).toBe('dated');
+  });
+});
+
+describe('tapGroupOrder', () => {
+  it('moves a group together, most recent first, where its first item was', () => {
+    const groups = consolidateTaps([
+      tap('old', 10, 3, 'i1', '2019-01-01'),
+      tap('new', 10, 3, 'i2', '2023-01-01'),
+    ], TOLERANCE);
+    expect(tapGroupOrder(['lone', 'old', 'x', 'new'], tapGroupsByItem(groups))).toEqual(['lone', 'new', 'old', 'x']);
+  });
+});
+
+describe('tapLinePosition', () => {
+  const pipe: SewerAsset = {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: [[-122.4, 37.8], [-122.399, 37.8]] },
+    properties: {},
+  };
+
+  it('measures reversed surveys from the first vertex and mirrors the clock', () => {
+    expect(tapLinePosition(pipe, false, 10, 3)).toEqual({ positionMeters: 10, clockPosition: 3 });
+    const reversed = tapLinePosition(pipe, true, 10, 3);
+    expect(reversed.clockPosition).toBe(9);
+    expect(reversed.positionMeters).toBeCloseTo(88 - 10, 0);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { distanceInBothUnits, isImperialFlag, resolveInspectionUnits } from '../units';
+
+describe('isImperialFlag', () => {
+  it('reads 1/0, booleans, Y/N text and Access -1', () => {
+    expect([1, true, '1', 'Yes', 'y', 'TRUE', -1, '-1'].map(isImperialFlag)).toEqual(Array(8).fill(true));
+    expect([0, false, '0', 'No', 'N', '', null, undefined].map(isImperialFlag)).toEqual(Array(8).fill(false));
+  });
+});
+
+describe('resolveInspectionUnits', () => {
+  it('uses the override over the header', () => {
+    expect(resolveInspectionUnits({ isImperial: 1 }, 'meters')).toEqual({ unit: 'meters', source: 'override' });
+    expect(resolveInspectionUnits({ isImperial: 0 }, 'feet')).toEqual({ unit: 'feet', source: 'override' });
+  });
+
+  it('reads the header from the record, then its raw row, then its properties', () => {
+    expect(resolveInspectionUnits({ isImperial: 1 })).toEqual({ unit: 'feet', source: 'header' });
+    expect(resolveInspectionUnits({ raw: { IsImperial: 'Y' } })).toEqual({ unit: 'feet', source: 'header' });
+    expect(resolveInspectionUnits({ properties: { IsImperial: 0 } })).toEqual({ unit: 'meters', source: 'header' });
+  });
+
+  it('takes inspections without a header to be metric', () => {
+    expect(resolveInspectionUnits({ isImperial: null })).toEqual({ unit: 'meters', source: 'default' });
+    expect(resolveInspectionUnits({ raw: { IsImperial: '' } })).toEqual({ unit: 'meters', source: 'default' });
+    expect(resolveInspectionUnits(undefined)).toEqual({ unit: 'meters', source: 'default' });
+  });
+});
+
+describe('distanceInBothUnits', () => {
+  it('converts feet and rounds to the millimetre and hundredth of a foot', () => {
+    expect(distanceInBothUnits(100, 'feet')).toEqual({ feet: 100, meters: 30.48 });
+    expect(distanceInBothUnits(10, 'meters')).toEqual({ feet: 32.81, meters: 10 });
+  });
+});
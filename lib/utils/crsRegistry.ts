@@ -0,0 +1,229 @@
+/**
+ * Coordinate reference systems the app knows by EPSG code.
+ * Kept free of proj4 so the upload form can list the options client-side.
+ */
+
+export interface CRSDefinition {
+  code: string; // e.g. "EPSG:2227"
+  name: string;
+  proj4: string;
+}
+
+// Datum parameters used in place of grid shifts (NADCON grids are not bundled).
+// NAD27 -> WGS84: EPSG:1173 CONUS mean transformation, accurate to about 5-10 m.
+export const NAD27_TOWGS84 = '-8,160,176,0,0,0,0';
+// NAD83(HARN) -> WGS84: EPSG:1580, expressed in the position vector convention proj4 uses.
+export const NAD83_HARN_TOWGS84 = '-0.991,1.9072,0.5129,0.02579,0.00965,0.01166,0';
+
+const DATUMS = {
+  NAD83: '+datum=NAD83',
+  NAD27: `+ellps=clrk66 +towgs84=${NAD27_TOWGS84}`,
+  HARN: `+ellps=GRS80 +towgs84=${NAD83_HARN_TOWGS84}`,
+  WGS84: '+datum=WGS84',
+};
+
+const US_FT = '+units=us-ft +no_defs';
+const INTL_FT = '+units=ft +no_defs';
+
+const geographic: CRSDefinition[] = [
+  { code: 'EPSG:4326', name: 'WGS 84', proj4: '+proj=longlat +datum=WGS84 +no_defs' },
+  { code: 'EPSG:4269', name: 'NAD83', proj4: '+proj=longlat +datum=NAD83 +no_defs' },
+  { code: 'EPSG:4267', name: 'NAD27', proj4: `+proj=longlat ${DATUMS.NAD27} +no_defs` },
+  { code: 'EPSG:4152', name: 'NAD83(HARN)', proj4: `+proj=longlat ${DATUMS.HARN} +no_defs` },
+  {
+    code: 'EPSG:3857',
+    name: 'WGS 84 / Pseudo-Mercator',
+    proj4: '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs',
+  },
+];
+
+// California zones I-VI share false easting/northing in each datum realisation
+const californiaZones: Array<[string, string]> = [
+  ['I', '+lat_1=41.66666666666666 +lat_2=40 +lat_0=39.33333333333334 +lon_0=-122'],
+  ['II', '+lat_1=39.83333333333334 +lat_2=38.33333333333334 +lat_0=37.66666666666666 +lon_0=-122'],
+  ['III', '+lat_1=38.43333333333333 +lat_2=37.06666666666667 +lat_0=36.5 +lon_0=-120.5'],
+  ['IV', '+lat_1=37.25 +lat_2=36 +lat_0=35.33333333333334 +lon_0=-119'],
+  ['V', '+lat_1=35.46666666666667 +lat_2=34.03333333333333 +lat_0=33.5 +lon_0=-118'],
+  ['VI', '+lat_1=33.88333333333333 +lat_2=32.78333333333333 +lat_0=32.16666666666666 +lon_0=-116.25'],
+];
+
+const california: CRSDefinition[] = californiaZones.flatMap(([zone, params], i) => [
+  {
+    code: `EPSG:${2225 + i}`,
+    name: `NAD83 / California zone ${zone} (ftUS)`,
+    proj4: `+proj=lcc ${params} +x_0=2000000.0001016 +y_0=500000.0001016001 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: `EPSG:${2870 + i}`,
+    name: `NAD83(HARN) / California zone ${zone} (ftUS)`,
+    proj4: `+proj=lcc ${params} +x_0=2000000.0001016 +y_0=500000.0001016001 ${DATUMS.HARN} ${US_FT}`,
+  },
+  {
+    code: `EPSG:${26741 + i}`,
+    name: `NAD27 / California zone ${zone}`,
+    proj4: `+proj=lcc ${params} +x_0=609601.2192024384 +y_0=0 ${DATUMS.NAD27} ${US_FT}`,
+  },
+]);
+
+const statePlane: CRSDefinition[] = [
+  {
+    code: 'EPSG:2223',
+    name: 'NAD83 / Arizona Central (ft)',
+    proj4: `+proj=tmerc +lat_0=31 +lon_0=-111.9166666666667 +k=0.9999 +x_0=213360 +y_0=0 ${DATUMS.NAD83} ${INTL_FT}`,
+  },
+  {
+    code: 'EPSG:2231',
+    name: 'NAD83 / Colorado North (ftUS)',
+    proj4: `+proj=lcc +lat_1=40.78333333333333 +lat_2=39.71666666666667 +lat_0=39.33333333333334 +lon_0=-105.5 +x_0=914401.8288036576 +y_0=304800.6096012192 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2232',
+    name: 'NAD83 / Colorado Central (ftUS)',
+    proj4: `+proj=lcc +lat_1=39.75 +lat_2=38.45 +lat_0=37.83333333333334 +lon_0=-105.5 +x_0=914401.8288036576 +y_0=304800.6096012192 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2236',
+    name: 'NAD83 / Florida East (ftUS)',
+    proj4: `+proj=tmerc +lat_0=24.33333333333333 +lon_0=-81 +k=0.999941177 +x_0=200000.0001016002 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2237',
+    name: 'NAD83 / Florida West (ftUS)',
+    proj4: `+proj=tmerc +lat_0=24.33333333333333 +lon_0=-82 +k=0.999941177 +x_0=200000.0001016002 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2239',
+    name: 'NAD83 / Georgia East (ftUS)',
+    proj4: `+proj=tmerc +lat_0=30 +lon_0=-82.16666666666667 +k=0.9999 +x_0=200000.0001016002 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2240',
+    name: 'NAD83 / Georgia West (ftUS)',
+    proj4: `+proj=tmerc +lat_0=30 +lon_0=-84.16666666666667 +k=0.9999 +x_0=699999.9998983998 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2253',
+    name: 'NAD83 / Michigan South (ft)',
+    proj4: `+proj=lcc +lat_1=43.66666666666666 +lat_2=42.1 +lat_0=41.5 +lon_0=-84.36666666666666 +x_0=4000000.0001016 +y_0=0 ${DATUMS.NAD83} ${INTL_FT}`,
+  },
+  {
+    code: 'EPSG:2263',
+    name: 'NAD83 / New York Long Island (ftUS)',
+    proj4: `+proj=lcc +lat_1=41.03333333333333 +lat_2=40.66666666666666 +lat_0=40.16666666666666 +lon_0=-74 +x_0=300000.0000000001 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2264',
+    name: 'NAD83 / North Carolina (ftUS)',
+    proj4: `+proj=lcc +lat_1=36.16666666666666 +lat_2=34.33333333333334 +lat_0=33.75 +lon_0=-79 +x_0=609601.2192024384 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2269',
+    name: 'NAD83 / Oregon North (ft)',
+    proj4: `+proj=lcc +lat_1=46 +lat_2=44.33333333333334 +lat_0=43.66666666666666 +lon_0=-120.5 +x_0=2500000.0001424 +y_0=0 ${DATUMS.NAD83} ${INTL_FT}`,
+  },
+  {
+    code: 'EPSG:2271',
+    name: 'NAD83 / Pennsylvania North (ftUS)',
+    proj4: `+proj=lcc +lat_1=41.95 +lat_2=40.88333333333333 +lat_0=40.16666666666666 +lon_0=-77.75 +x_0=600000 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2272',
+    name: 'NAD83 / Pennsylvania South (ftUS)',
+    proj4: `+proj=lcc +lat_1=40.96666666666667 +lat_2=39.93333333333333 +lat_0=39.33333333333334 +lon_0=-77.75 +x_0=600000 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2276',
+    name: 'NAD83 / Texas North Central (ftUS)',
+    proj4: `+proj=lcc +lat_1=33.96666666666667 +lat_2=32.13333333333333 +lat_0=31.66666666666667 +lon_0=-98.5 +x_0=600000 +y_0=2000000.0001016 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2277',
+    name: 'NAD83 / Texas Central (ftUS)',
+    proj4: `+proj=lcc +lat_1=31.88333333333333 +lat_2=30.11666666666667 +lat_0=29.66666666666667 +lon_0=-100.3333333333333 +x_0=700000 +y_0=3000000 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2278',
+    name: 'NAD83 / Texas South Central (ftUS)',
+    proj4: `+proj=lcc +lat_1=30.28333333333333 +lat_2=28.38333333333333 +lat_0=27.83333333333333 +lon_0=-99 +x_0=600000 +y_0=4000000 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2283',
+    name: 'NAD83 / Virginia North (ftUS)',
+    proj4: `+proj=lcc +lat_1=39.2 +lat_2=38.03333333333333 +lat_0=37.66666666666666 +lon_0=-78.5 +x_0=3500000.0001016 +y_0=2000000.0001016 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2284',
+    name: 'NAD83 / Virginia South (ftUS)',
+    proj4: `+proj=lcc +lat_1=37.96666666666667 +lat_2=36.76666666666667 +lat_0=36.33333333333334 +lon_0=-78.5 +x_0=3500000.0001016 +y_0=1000000.0001016 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2285',
+    name: 'NAD83 / Washington North (ftUS)',
+    proj4: `+proj=lcc +lat_1=48.73333333333333 +lat_2=47.5 +lat_0=47 +lon_0=-120.8333333333333 +x_0=500000.0001016001 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:2286',
+    name: 'NAD83 / Washington South (ftUS)',
+    proj4: `+proj=lcc +lat_1=47.33333333333334 +lat_2=45.83333333333334 +lat_0=45.33333333333334 +lon_0=-120.5 +x_0=500000.0001016001 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:3435',
+    name: 'NAD83 / Illinois East (ftUS)',
+    proj4: `+proj=tmerc +lat_0=36.66666666666666 +lon_0=-88.33333333333333 +k=0.999975 +x_0=300000.0000000001 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:3734',
+    name: 'NAD83 / Ohio North (ftUS)',
+    proj4: `+proj=lcc +lat_1=41.7 +lat_2=40.43333333333333 +lat_0=39.66666666666666 +lon_0=-82.5 +x_0=600000 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+  {
+    code: 'EPSG:3735',
+    name: 'NAD83 / Ohio South (ftUS)',
+    proj4: `+proj=lcc +lat_1=40.03333333333333 +lat_2=38.73333333333333 +lat_0=38 +lon_0=-82.5 +x_0=600000 +y_0=0 ${DATUMS.NAD83} ${US_FT}`,
+  },
+];
+
+/**
+ * UTM zones are generated rather than listed: NAD83 (269xx), NAD27 (267xx) and WGS 84 north (326xx)
+ */
+function utmDefinition(code: number): CRSDefinition | null {
+  const zone = code % 100;
+  if (code >= 26901 && code <= 26923) {
+    return { code: `EPSG:${code}`, name: `NAD83 / UTM zone ${zone}N`, proj4: `+proj=utm +zone=${zone} ${DATUMS.NAD83} +units=m +no_defs` };
+  }
+  if (code >= 26701 && code <= 26722) {
+    return { code: `EPSG:${code}`, name: `NAD27 / UTM zone ${zone}N`, proj4: `+proj=utm +zone=${zone} ${DATUMS.NAD27} +units=m +no_defs` };
+  }
+  if (code >= 32601 && code <= 32660) {
+    return { code: `EPSG:${code}`, name: `WGS 84 / UTM zone ${zone}N`, proj4: `+proj=utm +zone=${zone} ${DATUMS.WGS84} +units=m +no_defs` };
+  }
+  return null;
+}
+
+export const CRS_REGISTRY: CRSDefinition[] = [...geographic, ...california, ...statePlane].sort(
+  (a, b) => Number(a.code.split(':')[1]) - Number(b.code.split(':')[1])
+);
+
+/**
+ * Normalize the ways an EPSG code shows up in the wild to "EPSG:nnnn"
+ * Handles "2227", "EPSG:2227", "urn:ogc:def:crs:EPSG::2227", opengis.net URLs and OGC CRS84.
+ */
+export function normalizeCrsCode(input: string | number | null | undefined): string | null {
+  if (input == null) return null;
+  const value = String(input).trim();
+  if (!value) return null;
+
+  if (/CRS:?84$/i.test(value)) return 'EPSG:4326';
+
+  const match = value.match(/(?:EPSG[:/]+(?:[\d.]*[:/])?|^)(\d{4,5})$/i);
+  return match ? `EPSG:${match[1]}` : null;
+}
+
+/**
+ * Look up a CRS by EPSG code
+ */
+export function findCRS(input: string | number | null | undefined): CRSDefinition | null {
+  const code = normalizeCrsCode(input);
+  if (!code) return null;
+  return CRS_REGISTRY.find((crs) => crs.code === code) || utmDefinition(Number(code.split(':')[1]));
+}
@@ -1,6 +1,8 @@
 import { FeatureCollection, Feature, Point, LineString } from 'geojson';
-import { LateralInspection, TapInspection } from '../types';
+import { LateralInspection, TapInspection, ManholeInspection, DefectRecord, ContinuousDefect } from '../types';
 import { validateCoordinates } from './coordinateValidation';
+import { ReconciliationReport } from './lateralReconciliation';
+import { parcelAttributesOf } from './parcelJoin';
 
 /**
  * Get a reference point from asset coordinates (for creating line from asset to lateral)
@@ -82,10 +84,19 @@ export function lateralsToGeoJSON(laterals: LateralInspection[]): FeatureCollect
       coordinateStats.minLng = Math.min(coordinateStats.minLng, lateralCoords[0]);
       coordinateStats.maxLng = Math.max(coordinateStats.maxLng, lateralCoords[0]);
       
-      // Use stub line if available (preferred method - 3ft perpendicular stub)
+      // Use the surveyed lateral path (LACP) if available, then the stub line (3ft perpendicular stub)
       let geometry: LineString | Point;
+      const validatedLateralLine = (lateral.lateralLine || [])
+        .map((coord) => validateCoordinates(coord))
+        .filter((coord): coord is [number, number] => coord !== null);
       
-      if (lateral.stubLine && lateral.stubLine.length === 2) {
+      if (lateral.lateralLine && validatedLateralLine.length === lateral.lateralLine.length && validatedLateralLine.length >= 2) {
+        geometry = {
+          type: 'LineString',
+          coordinates: validatedLateralLine,
+        };
+        console.log(`[GeoJSON Export] Created surveyed LineString for lateral ${lateral.id} with ${validatedLateralLine.length} vertices`);
+      } else if (lateral.stubLine && lateral.stubLine.length === 2) {
         // Validate stub line coordinates
         const validatedStubStart = validateCoordinates(lateral.stubLine[0]);
         const validatedStubEnd = validateCoordinates(lateral.stubLine[1]);
@@ -209,6 +220,21 @@ export function downloadGeoJSON(geojson: FeatureCollection, filename: string = '
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Download CSV text as a file
+ */
+export function downloadCSV(csv: string, filename: string): void {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Convert tap inspections to GeoJSON FeatureCollection
  */
@@ -252,6 +278,246 @@ export function tapsToGeoJSON(taps: TapInspection[]): FeatureCollection<Point> {
   };
 }
 
+/**
+ * Convert located manhole inspections (MACP) to GeoJSON FeatureCollection
+ * Manholes that could not be joined to the asset layer are skipped
+ */
+export function manholesToGeoJSON(manholes: ManholeInspection[]): FeatureCollection<Point> {
+  const features: Feature<Point>[] = manholes
+    .map((manhole): Feature<Point> | null => {
+      if (!manhole.coordinates) {
+        return null;
+      }
+      const validatedCoords = validateCoordinates(manhole.coordinates);
+      if (!validatedCoords) {
+        console.warn(`Skipping manhole ${manhole.id} due to invalid coordinates`);
+        return null;
+      }
+
+      const grades = manhole.observations
+        .map((o) => Number(o.grade))
+        .filter((g) => !isNaN(g));
+
+      return {
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: validatedCoords,
+        },
+        properties: {
+          ...manhole.properties,
+          id: manhole.id,
+          manholeId: manhole.manholeId,
+          inspectionId: manhole.inspectionId,
+          inspectionDate: manhole.inspectionDate,
+          locatedBy: manhole.locatedBy,
+          pipeSegmentReferences: manhole.pipeSegmentReferences.join(', '),
+          observationCount: manhole.observations.length,
+          maxGrade: grades.length > 0 ? Math.max(...grades) : null,
+          observations: manhole.observations
+            .map((o) => `${o.defectCode ?? ''}${o.grade != null ? ` (${o.grade})` : ''}`)
+            .join(', '),
+        },
+      };
+    })
+    .filter((feature): feature is Feature<Point> => feature !== null);
+
+  return {
+    type: 'FeatureCollection',
+    features,
+  };
+}
+
+/**
+ * Convert laterals split at the property line into separate public and private LineStrings.
+ * Each feature carries the parcel APN and joined parcel attributes; laterals without a parcel split are skipped.
+ */
+export function lateralSegmentsToGeoJSON(laterals: LateralInspection[]): FeatureCollection<LineString> {
+  const features: Feature<LineString>[] = [];
+
+  for (const lateral of laterals) {
+    const segments: Array<{ segment: 'public' | 'private'; line?: [number, number][] }> = [
+      { segment: 'public', line: lateral.publicLine },
+      { segment: 'private', line: lateral.privateLine },
+    ];
+    for (const { segment, line } of segments) {
+      const coordinates = (line || [])
+        .map((p) => validateCoordinates(p))
+        .filter((p): p is [number, number] => p !== null);
+      if (coordinates.length < 2) continue;
+
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates },
+        properties: {
+          id: `${lateral.id}-${segment}`,
+          lateralId: lateral.id,
+          segment,
+          apn: lateral.properties?.apn ?? null,
+          parcelId: lateral.properties?.parcelId ?? null,
+          ...parcelAttributesOf(lateral.properties),
+          assetId: lateral.assetId,
+          pipeSegmentReference: lateral.properties?.pipeSegmentReference,
+          inspectionId: lateral.properties?.inspectionId,
+          address: lateral.address,
+          propertyLineLng: lateral.propertyLinePoint?.[0] ?? null,
+          propertyLineLat: lateral.propertyLinePoint?.[1] ?? null,
+          publicLengthMeters: lateral.properties?.publicLengthMeters ?? null,
+        },
+      });
+    }
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features,
+  };
+}
+
+/**
+ * IDs of the S##/F## rows of continuous defects drawn as lines; those rows are not shown as points too
+ */
+export function continuousDefectRowIds(continuousDefects: ContinuousDefect[]): Set<string> {
+  const ids = new Set<string>();
+  for (const continuous of continuousDefects) {
+    if (!continuous.line || continuous.line.length < 2) continue;
+    ids.add(continuous.startDefectId);
+    ids.add(continuous.finishDefectId);
+  }
+  return ids;
+}
+
+/**
+ * Convert located defects to GeoJSON: point observations as Points,
+ * continuous defects (S##/F## pairs) as LineStrings along the mainline with their clock range
+ */
+export function defectsToGeoJSON(
+  defects: DefectRecord[],
+  continuousDefects: ContinuousDefect[] = []
+): FeatureCollection<Point | LineString> {
+  const features: Feature<Point | LineString>[] = [];
+  const continuousRowIds = continuousDefectRowIds(continuousDefects);
+
+  for (const defect of defects) {
+    if (continuousRowIds.has(defect.id)) continue;
+    const validatedCoords = defect.coordinates ? validateCoordinates(defect.coordinates) : null;
+    if (!validatedCoords) continue;
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: validatedCoords },
+      properties: {
+        ...defect.properties,
+        id: defect.id,
+        inspectionId: defect.inspectionId,
+        pipeSegmentReference: defect.pipeSegmentReference,
+        defectCode: defect.defectCode,
+        defectDescription: defect.defectDescription,
+        grade: defect.grade,
+        distance: defect.distance,
+        clockPosition: defect.clockPosition,
+        clockTo: defect.clockTo,
+        continuous: defect.continuous,
+      },
+    });
+  }
+
+  for (const continuous of continuousDefects) {
+    const coordinates = (continuous.line || [])
+      .map((p) => validateCoordinates(p))
+      .filter((p): p is [number, number] => p !== null);
+    if (coordinates.length < 2) continue;
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates },
+      properties: {
+        ...continuous.properties,
+        id: continuous.id,
+        inspectionId: continuous.inspectionId,
+        pipeSegmentReference: continuous.pipeSegmentReference,
+        defectCode: continuous.defectCode,
+        defectDescription: continuous.defectDescription,
+        grade: continuous.grade,
+        continuous: `S${continuous.marker}-F${continuous.marker}`,
+        startDistance: continuous.startDistance,
+        endDistance: continuous.endDistance,
+        clockFrom: continuous.clockFrom,
+        clockTo: continuous.clockTo,
+      },
+    });
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features,
+  };
+}
+
+/**
+ * Change layer of a reconciliation against an existing lateral layer:
+ * moved laterals as a line from the existing tap to the computed one, the others as points
+ * (computed tap for confirmed and new, existing tap for missing)
+ */
+export function reconciliationToGeoJSON(report: ReconciliationReport): FeatureCollection<Point | LineString> {
+  const features: Feature<Point | LineString>[] = [];
+
+  for (const entry of report.entries) {
+    const computed = entry.computedPoint ? validateCoordinates(entry.computedPoint) : null;
+    const existing = entry.existingPoint ? validateCoordinates(entry.existingPoint) : null;
+    const properties = {
+      status: entry.status,
+      assetId: entry.assetId,
+      lateralId: entry.lateralId,
+      existingId: entry.existingId,
+      offsetMeters: entry.offsetMeters,
+      inspectionId: entry.inspectionId ?? null,
+      address: entry.address ?? null,
+      ...entry.parcel,
+    };
+
+    if (entry.status === 'moved' && computed && existing) {
+      features.push({ type: 'Feature', geometry: { type: 'LineString', coordinates: [existing, computed] }, properties });
+    } else if (entry.status === 'missing' ? existing : computed) {
+      features.push({ type: 'Feature', geometry: { type: 'Point', coordinates: (entry.status === 'missing' ? existing : computed)! }, properties });
+    }
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features,
+  };
+}
+
+/**
+ * Reconciliation report as CSV, one row per computed or missing lateral
+ */
+export function reconciliationReportToCSV(report: ReconciliationReport): string {
+  const columns = ['status', 'assetId', 'lateralId', 'existingId', 'offsetMeters', 'computedLng', 'computedLat', 'existingLng', 'existingLat', 'inspectionId', 'address', 'apn', 'parcelOwner', 'parcelSitusAddress', 'parcelLandUse', 'parcelJoin', 'parcelDistanceMeters'];
+  const escape = (value: unknown) => {
+    const text = value == null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = report.entries.map((entry) => [
+    entry.status,
+    entry.assetId,
+    entry.lateralId,
+    entry.existingId,
+    entry.offsetMeters,
+    entry.computedPoint?.[0],
+    entry.computedPoint?.[1],
+    entry.existingPoint?.[0],
+    entry.existingPoint?.[1],
+    entry.inspectionId,
+    entry.address,
+    entry.parcel?.apn,
+    entry.parcel?.parcelOwner,
+    entry.parcel?.parcelSitusAddress,
+    entry.parcel?.parcelLandUse,
+    entry.parcel?.parcelJoin,
+    entry.parcel?.parcelDistanceMeters,
+  ].map(escape).join(','));
+  return [columns.join(','), ...rows].join('\n');
+}
+
 /**
  * Validate a GeoJSON FeatureCollection and return a detailed report
  */
@@ -499,3 +765,41 @@ export function exportTapsAsGeoJSON(taps: TapInspection[], filename?: string): v
   downloadGeoJSON(geojson, filename || 'tap-inspections.geojson');
 }
 
+/**
+ * Export manhole inspections as GeoJSON and trigger download
+ */
+export function exportManholesAsGeoJSON(manholes: ManholeInspection[], filename?: string): void {
+  const geojson = manholesToGeoJSON(manholes);
+  downloadGeoJSON(geojson, filename || 'manhole-inspections.geojson');
+}
+
+/**
+ * Export public/private lateral segments as GeoJSON and trigger download
+ */
+export function exportLateralSegmentsAsGeoJSON(laterals: LateralInspection[], filename?: string): void {
+  const geojson = lateralSegmentsToGeoJSON(laterals);
+  downloadGeoJSON(geojson, filename || 'lateral-segments.geojson');
+}
+
+/**
+ * Export defects (points and continuous defect lines) as GeoJSON and trigger download
+ */
+export function exportDefectsAsGeoJSON(defects: DefectRecord[], continuousDefects?: ContinuousDefect[], filename?: string): void {
+  const geojson = defectsToGeoJSON(defects, continuousDefects);
+  downloadGeoJSON(geojson, filename || 'defects.geojson');
+}
+
+/**
+ * Export the reconciliation report (CSV) and trigger download
+ */
+export function exportReconciliationReport(report: ReconciliationReport, filename?: string): void {
+  downloadCSV(reconciliationReportToCSV(report), filename || 'lateral-reconciliation.csv');
+}
+
+/**
+ * Export the reconciliation change layer as GeoJSON and trigger download
+ */
+export function exportReconciliationChanges(report: ReconciliationReport, filename?: string): void {
+  const geojson = reconciliationToGeoJSON(report);
+  downloadGeoJSON(geojson, filename || 'lateral-changes.geojson');
+}
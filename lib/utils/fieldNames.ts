@@ -0,0 +1,39 @@
+/**
+ * Column lookups shared by the parsers: exporters spell the same field many ways
+ * (Pipe_Segment_Reference, PipeSegmentReference, "Pipe Segment Reference"), so names are
+ * compared case-insensitively with everything but letters and digits removed.
+ */
+
+export function normalizeKey(s: string) {
+  return (s || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * First column matching a candidate name, candidates in priority order
+ */
+export function pickField(columns: string[], candidates: string[]): string | null {
+  const normCols = columns.map((c) => ({ c, n: normalizeKey(c) }));
+  for (const cand of candidates) {
+    const nCand = normalizeKey(cand);
+    const hit = normCols.find((x) => x.n === nCand);
+    if (hit) return hit.c;
+  }
+  return null;
+}
+
+/**
+ * Value of the first property matching a candidate name
+ */
+export function pickValue(properties: Record<string, any> | undefined, candidates: string[]): any {
+  if (!properties) return undefined;
+  const field = pickField(Object.keys(properties), candidates);
+  return field ? properties[field] : undefined;
+}
+
+/**
+ * Trimmed text of a detected field, or null when the field is missing or blank
+ */
+export function fieldValue(properties: Record<string, any>, field: string | null): string | null {
+  const value = field ? properties[field] : null;
+  return value != null && String(value).trim() !== '' ? String(value).trim() : null;
+}
@@ -1,7 +1,16 @@
-import { Point, LineString, Position, MultiLineString } from 'geojson';
+import { Point, LineString, Position } from 'geojson';
 // @ts-ignore - turf types issue with package.json exports
 import * as turf from '@turf/turf';
 import { SewerAsset } from '../types';
+import { DistanceUnit, distanceToMeters } from './units';
+import { assetPath } from './linePath';
+import { pointPipeBearing } from './pointOrientation';
+
+// Processing defaults, overridable per run from /api/process
+export const DEFAULT_STUB_LENGTH_METERS = 3.048; // 10 feet
+export const DEFAULT_SIDE_OFFSET_METERS = 2; // Lateral point offset from the mainline
+export type StubSide = 'left' | 'right';
+export const DEFAULT_STUB_SIDE: StubSide = 'right'; // Side for taps at 12 or 6 o'clock, which have no left/right
 
 /**
  * Convert clock position (0-12, where 12 is north) to bearing in degrees
@@ -68,16 +77,27 @@ export function calculateLateralFromPoint(
   return destination.geometry.coordinates;
 }
 
+/**
+ * A straight stand-in for the pipe through an oriented point asset: from the point along its
+ * pipe bearing, just past the tap, so the clock position can be applied relative to the pipe
+ */
+function pointPipeLine(point: Point, pipeBearing: number, tapDistance: number): LineString {
+  const end = turf.destination(point.coordinates, tapDistance + 1, pipeBearing, { units: 'meters' });
+  return { type: 'LineString', coordinates: [point.coordinates, end.geometry.coordinates] };
+}
+
 /**
  * Calculate lateral position from a line asset
  * For line assets, we place the tap at the specified distance along the line,
  * then offset perpendicular to the line (left/right only) based on clock position
+ * @param sideOffset Distance in meters from the line to the lateral point (left/right taps only)
  */
 export function calculateLateralFromLine(
   line: LineString,
   tapDistance: number,
   clockPosition: number,
-  useMidpoint: boolean = false
+  useMidpoint: boolean = false,
+  sideOffset: number = DEFAULT_SIDE_OFFSET_METERS
 ): Position {
   // Convert distance to kilometers for turf.along (turf expects km)
   const distanceKm = tapDistance / 1000;
@@ -126,12 +146,9 @@ export function calculateLateralFromLine(
       while (normalizedBearing < 0) normalizedBearing += 360;
       while (normalizedBearing >= 360) normalizedBearing -= 360;
       
-      // Offset distance: use a reasonable default (e.g., 2 meters) or could be configurable
-      const offsetDistance = 2; // 2 meters offset from line
-      
       const destination = turf.destination(
         referencePoint,
-        offsetDistance,
+        sideOffset,
         normalizedBearing,
         { units: 'meters' }
       );
@@ -143,56 +160,173 @@ export function calculateLateralFromLine(
   return referencePoint;
 }
 
+export interface LengthScale {
+  factor: number; // Multiply survey distances by this to land on the GIS line; 1 when not applied
+  applied: boolean;
+  gisLengthMeters: number | null;
+  surveyedLengthMeters: number | null;
+  outsideTolerance: boolean; // GIS and surveyed lengths disagree by more than the tolerance
+  reason?: string; // Why the distances were not scaled
+}
+
+/**
+ * Length of a line asset in meters (all parts of a MultiLineString), or null for points
+ */
+export function assetLengthMeters(asset: SewerAsset): number | null {
+  const geometry = asset.geometry;
+  if (geometry.type !== 'LineString' && geometry.type !== 'MultiLineString') {
+    return null;
+  }
+  return turf.length(turf.feature(geometry), { units: 'kilometers' }) * 1000;
+}
+
+/**
+ * Correction mode for cable counter drift: when the camera reached the far manhole,
+ * Length_Surveyed and the GIS line describe the same pipe, so every distance along it
+ * is stretched or shrunk by GIS length / surveyed length.
+ *
+ * @param lengthSurveyed Length_Surveyed from the inspection header (in `unit`)
+ * @param reachedFarManhole False for abandoned surveys, which are left unscaled
+ * @param tolerance Allowed disagreement between the two lengths as a fraction (0.1 = 10%); larger ratios
+ *   point to bad data rather than drift, so they are flagged and left unscaled
+ */
+export function calculateLengthScale(
+  asset: SewerAsset,
+  lengthSurveyed: number | null | undefined,
+  unit: DistanceUnit,
+  reachedFarManhole: boolean,
+  tolerance: number = 0.1
+): LengthScale {
+  const gisLengthMeters = assetLengthMeters(asset);
+  const surveyedLengthMeters =
+    lengthSurveyed != null && isFinite(Number(lengthSurveyed)) ? distanceToMeters(Number(lengthSurveyed), unit) : null;
+  const unscaled = (reason: string): LengthScale => ({
+    factor: 1,
+    applied: false,
+    gisLengthMeters,
+    surveyedLengthMeters,
+    outsideTolerance: false,
+    reason,
+  });
+
+  if (gisLengthMeters == null || gisLengthMeters <= 0) return unscaled('Asset is not a line');
+  if (surveyedLengthMeters == null || surveyedLengthMeters <= 0) return unscaled('No Length_Surveyed');
+  if (!reachedFarManhole) return unscaled('Survey did not reach the far manhole');
+
+  const factor = gisLengthMeters / surveyedLengthMeters;
+  if (Math.abs(factor - 1) > tolerance) {
+    return { ...unscaled(`GIS and surveyed lengths differ by ${Math.round(Math.abs(factor - 1) * 100)}%`), outsideTolerance: true };
+  }
+  return {
+    factor,
+    applied: true,
+    gisLengthMeters,
+    surveyedLengthMeters,
+    outsideTolerance: false,
+  };
+}
+
 /**
  * Calculate lateral position from a sewer asset
+ * @param unit Unit of tapDistance (the inspection's units); converted to meters before any Turf math
+ * @param sideOffset Offset in meters from a line asset to the lateral point
  */
 export function calculateLateralPosition(
   asset: SewerAsset,
   tapDistance: number,
-  clockPosition: number
+  clockPosition: number,
+  unit: DistanceUnit = 'meters',
+  sideOffset: number = DEFAULT_SIDE_OFFSET_METERS
 ): Position {
+  tapDistance = distanceToMeters(tapDistance, unit);
   const geometry = asset.geometry;
   const geomType = geometry.type;
   
   if (geomType === 'Point') {
+    // With a known pipe direction the clock is left/right of the pipe, otherwise a compass bearing
+    const pipeBearing = pointPipeBearing(asset);
+    if (pipeBearing != null) {
+      return calculateLateralFromLine(pointPipeLine(geometry as Point, pipeBearing, tapDistance), tapDistance, clockPosition, false, sideOffset);
+    }
     return calculateLateralFromPoint(geometry as Point, tapDistance, clockPosition);
   } else if (geomType === 'LineString') {
-    return calculateLateralFromLine(geometry as LineString, tapDistance, clockPosition);
+    return calculateLateralFromLine(geometry as LineString, tapDistance, clockPosition, false, sideOffset);
   } else if (geomType === 'MultiLineString') {
-    // For MultiLineString, use the first line
-    const multiLine = geometry as MultiLineString;
-    const firstLine: LineString = {
-      type: 'LineString',
-      coordinates: multiLine.coordinates[0] as Position[],
-    };
-    return calculateLateralFromLine(firstLine, tapDistance, clockPosition);
+    // Measure along all parts, chained in connection order
+    const path = assetPath(asset);
+    if (!path) {
+      throw new Error('MultiLineString has no parts with at least two vertices');
+    }
+    return calculateLateralFromLine(path, tapDistance, clockPosition, false, sideOffset);
   } else {
     throw new Error(`Unsupported geometry type: ${geomType}`);
   }
 }
 
+/**
+ * Section of the mainline between two distances from the start manhole, e.g. a continuous defect.
+ * Distances past the end of the line are clamped to it.
+ * @param unit Unit of both distances (the inspection's units)
+ */
+export function calculateLineSection(
+  asset: SewerAsset,
+  startDistance: number,
+  endDistance: number,
+  unit: DistanceUnit = 'meters'
+): Position[] {
+  const from = distanceToMeters(Math.min(startDistance, endDistance), unit);
+  const to = distanceToMeters(Math.max(startDistance, endDistance), unit);
+
+  let line: LineString | null;
+  if (asset.geometry.type === 'Point') {
+    // Only a point with a known pipe direction has a mainline to measure along
+    const pipeBearing = pointPipeBearing(asset);
+    line = pipeBearing != null ? pointPipeLine(asset.geometry, pipeBearing, to) : null;
+  } else {
+    line = assetPath(asset);
+  }
+  if (!line) {
+    throw new Error(`Cannot measure along a ${asset.geometry.type} asset without a pipe direction`);
+  }
+
+  const lineString = turf.lineString(line.coordinates);
+  const lineLength = turf.length(lineString, { units: 'meters' });
+  return turf.lineSliceAlong(lineString, Math.min(from, lineLength), Math.min(to, lineLength), { units: 'meters' }).geometry.coordinates;
+}
+
 /**
  * Calculate a lateral stub line (10ft) perpendicular to the mainline
  * For LineString/MultiLineString: stub extends perpendicular from the connection point on the mainline
- * For Point: stub extends in the direction indicated by clock position
+ * For Point: perpendicular to the point's pipe bearing (see orientPointAssets) when it has one,
+ * otherwise the stub extends in the direction indicated by clock position
  * 
  * @param asset The sewer asset (mainline)
- * @param tapDistance Distance along the mainline where the lateral connects (in meters)
+ * @param tapDistance Distance along the mainline where the lateral connects (in `unit`)
  * @param clockPosition Clock position (0-12) indicating direction
  * @param stubLength Length of the stub in meters (default: 10ft = 3.048m)
+ * @param unit Unit of tapDistance (the inspection's units); the stub length is always in meters
+ * @param defaultSide Side of a line asset the stub goes to when the clock position (12 or 6) gives no left/right
  * @returns Object with connectionPoint (on mainline) and stubLine (LineString coordinates)
  */
 export function calculateLateralStub(
   asset: SewerAsset,
   tapDistance: number,
   clockPosition: number,
-  stubLength: number = 3.048 // 10 feet in meters
+  stubLength: number = DEFAULT_STUB_LENGTH_METERS,
+  unit: DistanceUnit = 'meters',
+  defaultSide: StubSide = DEFAULT_STUB_SIDE
 ): { connectionPoint: Position; stubLine: [Position, Position] } {
+  tapDistance = distanceToMeters(tapDistance, unit);
   const geometry = asset.geometry;
   const geomType = geometry.type;
   
   if (geomType === 'Point') {
-    // For Point assets, use clock position as direct bearing
+    const pipeBearing = pointPipeBearing(asset);
+    if (pipeBearing != null) {
+      return calculateStubFromLine(pointPipeLine(geometry as Point, pipeBearing, tapDistance), tapDistance, clockPosition, stubLength, defaultSide);
+    }
+
+    // No pipe direction: use clock position as direct bearing
     const [lng, lat] = (geometry as Point).coordinates;
     const bearing = clockToBearing(clockPosition);
     
@@ -212,15 +346,14 @@ export function calculateLateralStub(
       stubLine: [connectionPoint, stubEnd.geometry.coordinates],
     };
   } else if (geomType === 'LineString') {
-    return calculateStubFromLine(geometry as LineString, tapDistance, clockPosition, stubLength);
+    return calculateStubFromLine(geometry as LineString, tapDistance, clockPosition, stubLength, defaultSide);
   } else if (geomType === 'MultiLineString') {
-    // For MultiLineString, use the first line
-    const multiLine = geometry as MultiLineString;
-    const firstLine: LineString = {
-      type: 'LineString',
-      coordinates: multiLine.coordinates[0] as Position[],
-    };
-    return calculateStubFromLine(firstLine, tapDistance, clockPosition, stubLength);
+    // Measure along all parts, chained in connection order
+    const path = assetPath(asset);
+    if (!path) {
+      throw new Error('MultiLineString has no parts with at least two vertices');
+    }
+    return calculateStubFromLine(path, tapDistance, clockPosition, stubLength, defaultSide);
   } else {
     throw new Error(`Unsupported geometry type: ${geomType}`);
   }
@@ -233,7 +366,8 @@ function calculateStubFromLine(
   line: LineString,
   tapDistance: number,
   clockPosition: number,
-  stubLength: number
+  stubLength: number,
+  defaultSide: StubSide
 ): { connectionPoint: Position; stubLine: [Position, Position] } {
   // Convert distance to kilometers for turf.along (turf expects km)
   const distanceKm = tapDistance / 1000;
@@ -271,8 +405,9 @@ function calculateStubFromLine(
   // Perpendicular bearing: 90° to the left or right of line direction
   // side = +1 (right): 90° to the right
   // side = -1 (left): 90° to the left
-  // side = 0: use default (right, or could be configurable)
-  const perpendicularBearing = lineBearing + (side !== 0 ? side * 90 : 90);
+  // side = 0 (12 or 6 o'clock): use the run's default side
+  const stubSide = side !== 0 ? side : defaultSide === 'left' ? -1 : 1;
+  const perpendicularBearing = lineBearing + stubSide * 90;
   
   // Normalize bearing to 0-360
   let normalizedBearing = perpendicularBearing;
@@ -293,3 +428,56 @@ function calculateStubFromLine(
   };
 }
 
+
+/**
+ * Calculate the full path of a surveyed lateral (LACP) from the mainline tap to the end of the survey.
+ * The lateral leaves the mainline perpendicular to it (same direction as calculateLateralStub),
+ * then turns at each recorded bend.
+ *
+ * @param asset The sewer asset (mainline)
+ * @param tapDistance Distance along the mainline where the lateral connects (in meters)
+ * @param clockPosition Clock position (0-12) of the tap
+ * @param lateralLength Surveyed length of the lateral (in meters)
+ * @param bends Bends along the lateral, distance from the mainline in meters; angle in degrees (positive = right, negative = left)
+ * @param defaultSide Side the lateral leaves a line asset when the clock position gives no left/right
+ * @returns Object with connectionPoint (on mainline) and line (lateral path coordinates)
+ */
+export function calculateLateralPolyline(
+  asset: SewerAsset,
+  tapDistance: number,
+  clockPosition: number,
+  lateralLength: number,
+  bends: Array<{ distance: number; angle: number }> = [],
+  defaultSide: StubSide = DEFAULT_STUB_SIDE
+): { connectionPoint: Position; line: Position[] } {
+  // Use a 1 m stub to get the connection point and the initial direction of the lateral
+  const { connectionPoint, stubLine } = calculateLateralStub(asset, tapDistance, clockPosition, 1, 'meters', defaultSide);
+  let bearing = turf.bearing(stubLine[0], stubLine[1]);
+
+  const line: Position[] = [connectionPoint];
+  let current = connectionPoint;
+  let travelled = 0;
+
+  const orderedBends = bends
+    .filter((b) => b.distance > 0 && b.distance < lateralLength && b.angle !== 0)
+    .sort((a, b) => a.distance - b.distance);
+
+  for (const bend of orderedBends) {
+    const segmentLength = bend.distance - travelled;
+    if (segmentLength > 0) {
+      current = turf.destination(current, segmentLength, bearing, { units: 'meters' }).geometry.coordinates;
+      line.push(current);
+      travelled = bend.distance;
+    }
+    bearing += bend.angle;
+  }
+
+  // Final segment to the end of the survey
+  const remaining = lateralLength - travelled;
+  if (remaining > 0 || line.length === 1) {
+    current = turf.destination(current, Math.max(remaining, 0.1), bearing, { units: 'meters' }).geometry.coordinates;
+    line.push(current);
+  }
+
+  return { connectionPoint, line };
+}
@@ -0,0 +1,227 @@
+import { LineString, Position } from 'geojson';
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { ExistingLateral, LateralInspection, SewerAsset } from '../types';
+import { assetPath } from './linePath';
+import { parcelAttributesOf } from './parcelJoin';
+
+// A computed tap this close to an existing lateral's tap confirms it; further away (up to the radius) it moved
+export const DEFAULT_CONFIRM_TOLERANCE_METERS = 1.5;
+export const DEFAULT_MATCH_RADIUS_METERS = 10;
+// An existing lateral without a main attribute is assigned to a main passing this close to one of its ends
+const MAIN_SEARCH_METERS = 10;
+// Bearing differences smaller than this cannot tell which side of the main a lateral is on
+const SIDE_AMBIGUITY_DEGREES = 5;
+
+export type ReconciliationStatus = 'confirmed' | 'moved' | 'new' | 'missing';
+
+export interface ReconciliationEntry {
+  status: ReconciliationStatus;
+  assetId: string | null;
+  lateralId: string | null; // Computed lateral (confirmed, moved, new)
+  existingId: string | null; // Existing GIS lateral (confirmed, moved, missing)
+  offsetMeters: number | null; // Between the computed tap and the existing tap, along the ground
+  computedPoint: [number, number] | null; // Computed connection point on the main
+  existingPoint: [number, number] | null; // Existing lateral's main end, snapped onto the main
+  inspectionId?: string;
+  address?: string;
+  parcel?: Record<string, any>; // APN, owner, site address and land use of the computed lateral's parcel
+}
+
+export interface ReconciliationReport {
+  entries: ReconciliationEntry[];
+  summary: Record<ReconciliationStatus, number> & {
+    existingOutsideInspection: number; // Existing laterals on mains that were not inspected (not classified)
+    existingWithoutMain: number; // Existing laterals that could not be tied to any main
+  };
+  confirmToleranceMeters: number;
+  matchRadiusMeters: number;
+}
+
+interface MainTap {
+  assetId: string;
+  point: [number, number];
+  side: number; // +1 right of the main's vertex order, -1 left, 0 unknown
+}
+
+function assetKey(asset: SewerAsset, index: number): string {
+  const fid = asset.properties?.FID || asset.properties?.fid || asset.properties?.Fid;
+  return String(fid ? String(fid).trim() :
+                (asset.properties?.id || asset.properties?.assetId || asset.properties?.ASSET_ID || `asset-${index}`)).trim();
+}
+
+/**
+ * Snap a point onto the main and tell which side of it `far` lies on
+ */
+function tapOnMain(path: LineString, at: Position, far: Position | null): { point: [number, number]; distance: number; side: number } {
+  const nearest = turf.nearestPointOnLine(turf.lineString(path.coordinates), at, { units: 'meters' });
+  const point = nearest.geometry.coordinates as [number, number];
+  let side = 0;
+  if (far && turf.distance(point, far, { units: 'meters' }) > 0.01) {
+    const index = Math.min(nearest.properties.index as number, path.coordinates.length - 2);
+    const mainBearing = turf.bearing(path.coordinates[index], path.coordinates[index + 1]);
+    const diff = ((turf.bearing(point, far) - mainBearing + 540) % 360) - 180;
+    if (Math.abs(diff) > SIDE_AMBIGUITY_DEGREES && Math.abs(diff) < 180 - SIDE_AMBIGUITY_DEGREES) {
+      side = diff > 0 ? 1 : -1;
+    }
+  }
+  return { point, distance: nearest.properties.dist as number, side };
+}
+
+/**
+ * Ends of an existing lateral that could be its connection to the main, each paired with the opposite end
+ */
+function lateralEnds(existing: ExistingLateral): Array<{ end: Position; far: Position | null }> {
+  const geometry = existing.geometry;
+  if (geometry.type === 'Point') {
+    return [{ end: geometry.coordinates, far: null }];
+  }
+  const path = assetPath(existing as SewerAsset);
+  if (!path) return [];
+  const first = path.coordinates[0];
+  const last = path.coordinates[path.coordinates.length - 1];
+  return [
+    { end: first, far: last },
+    { end: last, far: first },
+  ];
+}
+
+/**
+ * Compare computed laterals with an existing GIS lateral layer, main by main.
+ *
+ * Each existing lateral is tied to its main (from its main attribute, or the main passing closest to
+ * one of its ends) and its tap is snapped onto that main. Computed and existing taps on the same main
+ * and the same side are then paired closest first, one to one, within the match radius:
+ * pairs within the confirm tolerance are confirmed, others moved. Computed laterals left over are new;
+ * existing laterals left over on an inspected main are missing from the inspection.
+ *
+ * @param inspectedMainIds Mains that were inspected, even if no tap was found on them
+ */
+export function reconcileLaterals(
+  laterals: LateralInspection[],
+  existing: ExistingLateral[],
+  assets: SewerAsset[],
+  inspectedMainIds: string[] = [],
+  options: { confirmToleranceMeters?: number; matchRadiusMeters?: number } = {}
+): ReconciliationReport {
+  const confirmToleranceMeters = options.confirmToleranceMeters ?? DEFAULT_CONFIRM_TOLERANCE_METERS;
+  const matchRadiusMeters = options.matchRadiusMeters ?? DEFAULT_MATCH_RADIUS_METERS;
+
+  const mains = new Map<string, { path: LineString; bbox: [number, number, number, number] }>();
+  assets.forEach((asset, index) => {
+    const path = assetPath(asset);
+    if (path) mains.set(assetKey(asset, index), { path, bbox: turf.bbox(path) as [number, number, number, number] });
+  });
+
+  // Computed taps
+  const computed: Array<{ lateral: LateralInspection; tap: MainTap | null }> = laterals.map((lateral) => {
+    const assetId = lateral.assetId != null ? String(lateral.assetId).trim() : '';
+    const main = mains.get(assetId);
+    if (!main) return { lateral, tap: null };
+    const at = lateral.connectionPoint ?? lateral.coordinates;
+    const far = lateral.stubLine?.[1] ?? lateral.lateralLine?.[lateral.lateralLine.length - 1] ?? (lateral.connectionPoint ? lateral.coordinates : null);
+    const { point, side } = tapOnMain(main.path, at, far);
+    return { lateral, tap: { assetId, point, side } };
+  });
+
+  // Existing taps
+  const searchDegrees = MAIN_SEARCH_METERS / 111320;
+  let existingWithoutMain = 0;
+  const located: Array<{ existing: ExistingLateral; tap: MainTap }> = [];
+  for (const lateral of existing) {
+    const ends = lateralEnds(lateral);
+    const attributed = lateral.mainId != null && mains.has(lateral.mainId) ? lateral.mainId : null;
+    let best: (MainTap & { distance: number }) | null = null;
+
+    for (const [assetId, main] of Array.from(mains.entries())) {
+      if (attributed && assetId !== attributed) continue;
+      for (const { end, far } of ends) {
+        if (!attributed) {
+          const lngDegrees = searchDegrees / Math.max(Math.cos((end[1] * Math.PI) / 180), 0.01);
+          const [minX, minY, maxX, maxY] = main.bbox;
+          if (end[0] < minX - lngDegrees || end[0] > maxX + lngDegrees || end[1] < minY - searchDegrees || end[1] > maxY + searchDegrees) continue;
+        }
+        const tap = tapOnMain(main.path, end, far);
+        if (!attributed && tap.distance > MAIN_SEARCH_METERS) continue;
+        if (!best || tap.distance < best.distance) {
+          best = { assetId, ...tap };
+        }
+      }
+    }
+
+    if (best) {
+      located.push({ existing: lateral, tap: { assetId: best.assetId, point: best.point, side: best.side } });
+    } else {
+      existingWithoutMain++;
+    }
+  }
+
+  // Pair closest first on the same main and side
+  const pairs: Array<{ c: number; e: number; meters: number }> = [];
+  computed.forEach(({ tap: ct }, c) => {
+    if (!ct) return;
+    located.forEach(({ tap: et }, e) => {
+      if (et.assetId !== ct.assetId) return;
+      if (ct.side !== 0 && et.side !== 0 && ct.side !== et.side) return;
+      const meters = turf.distance(ct.point, et.point, { units: 'meters' });
+      if (meters <= matchRadiusMeters) pairs.push({ c, e, meters });
+    });
+  });
+  pairs.sort((a, b) => a.meters - b.meters);
+
+  const matchedComputed = new Map<number, { e: number; meters: number }>();
+  const matchedExisting = new Set<number>();
+  for (const pair of pairs) {
+    if (matchedComputed.has(pair.c) || matchedExisting.has(pair.e)) continue;
+    matchedComputed.set(pair.c, { e: pair.e, meters: pair.meters });
+    matchedExisting.add(pair.e);
+  }
+
+  const entries: ReconciliationEntry[] = [];
+  computed.forEach(({ lateral, tap }, c) => {
+    const match = matchedComputed.get(c);
+    const existingTap = match ? located[match.e] : null;
+    entries.push({
+      status: !match ? 'new' : match.meters <= confirmToleranceMeters ? 'confirmed' : 'moved',
+      assetId: tap?.assetId ?? (lateral.assetId != null ? String(lateral.assetId) : null),
+      lateralId: lateral.id,
+      existingId: existingTap ? existingTap.existing.id : null,
+      offsetMeters: match ? Math.round(match.meters * 100) / 100 : null,
+      computedPoint: tap?.point ?? lateral.connectionPoint ?? lateral.coordinates,
+      existingPoint: existingTap ? existingTap.tap.point : null,
+      inspectionId: lateral.properties?.inspectionId ?? lateral.properties?.mainInspectionId,
+      address: lateral.address,
+      parcel: parcelAttributesOf(lateral.properties),
+    });
+  });
+
+  const inspected = new Set([...inspectedMainIds.map((id) => String(id).trim()), ...computed.map(({ tap }) => tap?.assetId).filter((id): id is string => !!id)]);
+  let existingOutsideInspection = 0;
+  located.forEach(({ existing: lateral, tap }, e) => {
+    if (matchedExisting.has(e)) return;
+    if (!inspected.has(tap.assetId)) {
+      existingOutsideInspection++;
+      return;
+    }
+    entries.push({
+      status: 'missing',
+      assetId: tap.assetId,
+      lateralId: null,
+      existingId: lateral.id,
+      offsetMeters: null,
+      computedPoint: null,
+      existingPoint: tap.point,
+    });
+  });
+
+  const count = (status: ReconciliationStatus) => entries.filter((entry) => entry.status === status).length;
+  const summary = {
+    confirmed: count('confirmed'),
+    moved: count('moved'),
+    new: count('new'),
+    missing: count('missing'),
+    existingOutsideInspection,
+    existingWithoutMain,
+  };
+  return { entries, summary, confirmToleranceMeters, matchRadiusMeters };
+}
@@ -0,0 +1,134 @@
+import { LineString, MultiLineString, Position } from 'geojson';
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { SewerAsset } from '../types';
+
+// Part ends closer than this are taken to be the same vertex
+const PART_SNAP_METERS = 0.5;
+
+export interface MergedPath {
+  coordinates: Position[];
+  partCount: number;
+  chained: boolean; // Every part connected end to end within PART_SNAP_METERS
+  gaps: Array<{ part: number; meters: number }>; // Parts that had to be bridged with a straight jump
+}
+
+// Merged paths are cached per geometry so the chaining warning is logged once per asset
+const mergedPaths = new WeakMap<MultiLineString, MergedPath>();
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Chain the parts of a MultiLineString into one continuous path by endpoint connectivity.
+ * The path starts with the first part in its own direction and grows from both ends,
+ * reversing parts as needed. Parts that touch nothing are bridged to the nearest end and reported as gaps.
+ */
+export function mergeLineParts(parts: Position[][], snapMeters: number = PART_SNAP_METERS): MergedPath {
+  const usable = parts.map((part, index) => ({ part, index })).filter(({ part }) => part.length >= 2);
+  if (usable.length === 0) {
+    return { coordinates: [], partCount: parts.length, chained: false, gaps: [] };
+  }
+
+  const path: Position[] = [...usable[0].part];
+  const remaining = usable.slice(1);
+  const gaps: MergedPath['gaps'] = [];
+
+  while (remaining.length > 0) {
+    const pathStart = path[0];
+    const pathEnd = path[path.length - 1];
+
+    // Closest way to attach any remaining part to either end of the path
+    let best: { at: number; append: boolean; reverse: boolean; meters: number } | null = null;
+    remaining.forEach(({ part }, at) => {
+      const partStart = part[0];
+      const partEnd = part[part.length - 1];
+      const options = [
+        { append: true, reverse: false, meters: turf.distance(pathEnd, partStart, { units: 'meters' }) },
+        { append: true, reverse: true, meters: turf.distance(pathEnd, partEnd, { units: 'meters' }) },
+        { append: false, reverse: false, meters: turf.distance(pathStart, partEnd, { units: 'meters' }) },
+        { append: false, reverse: true, meters: turf.distance(pathStart, partStart, { units: 'meters' }) },
+      ];
+      for (const option of options) {
+        if (!best || option.meters < best.meters) {
+          best = { at, ...option };
+        }
+      }
+    });
+
+    const { at, append, reverse, meters } = best!;
+    const { part, index } = remaining.splice(at, 1)[0];
+    const oriented = reverse ? [...part].reverse() : part;
+    if (meters > snapMeters) {
+      gaps.push({ part: index, meters });
+    }
+
+    if (append) {
+      path.push(...(samePosition(path[path.length - 1], oriented[0]) ? oriented.slice(1) : oriented));
+    } else {
+      const head = samePosition(oriented[oriented.length - 1], path[0]) ? oriented.slice(0, -1) : oriented;
+      path.unshift(...head);
+    }
+  }
+
+  return { coordinates: path, partCount: parts.length, chained: gaps.length === 0, gaps };
+}
+
+/**
+ * Merge a MultiLineString asset's parts (cached), warning once when they cannot be chained.
+ * Null for other geometry types.
+ */
+export function mergedAssetPath(asset: SewerAsset): MergedPath | null {
+  const geometry = asset.geometry;
+  if (geometry.type !== 'MultiLineString') {
+    return null;
+  }
+
+  let merged = mergedPaths.get(geometry);
+  if (!merged) {
+    merged = mergeLineParts(geometry.coordinates);
+    mergedPaths.set(geometry, merged);
+    if (!merged.chained && merged.coordinates.length > 0) {
+      const fid = asset.properties?.FID || asset.properties?.fid || asset.properties?.Fid || asset.id;
+      console.warn(
+        `MultiLineString${fid != null ? ` (FID ${fid})` : ''}: ${merged.gaps.length} of ${merged.partCount} parts do not connect end to end ` +
+          `(${merged.gaps.map((g) => `part ${g.part + 1}, ${g.meters.toFixed(1)} m gap`).join('; ')}). ` +
+          'Parts were joined across the gaps, so distances along this pipe include them.'
+      );
+    }
+  }
+  return merged;
+}
+
+/**
+ * The line an asset's distances are measured along: the LineString itself,
+ * or all parts of a MultiLineString merged in connection order. Null for points.
+ */
+export function assetPath(asset: SewerAsset): LineString | null {
+  if (asset.geometry.type === 'LineString') {
+    return asset.geometry;
+  }
+  const merged = mergedAssetPath(asset);
+  return merged && merged.coordinates.length >= 2 ? { type: 'LineString', coordinates: merged.coordinates } : null;
+}
+
+/**
+ * Asset reference point: a Point asset itself, or the first vertex of the line's path
+ */
+export function assetReferencePoint(asset: SewerAsset): [number, number] | null {
+  if (asset.geometry.type === 'Point') {
+    return asset.geometry.coordinates as [number, number];
+  }
+  const first = assetPath(asset)?.coordinates[0];
+  return first ? [first[0], first[1]] : null;
+}
+
+/**
+ * First and last vertex of the asset's path, or null for points
+ */
+export function assetPathEnds(asset: SewerAsset): { start: Position; end: Position } | null {
+  const path = assetPath(asset);
+  if (!path) return null;
+  return { start: path.coordinates[0], end: path.coordinates[path.coordinates.length - 1] };
+}
@@ -0,0 +1,115 @@
+import { Position } from 'geojson';
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { Parcel } from '../types';
+import { findParcelAt, ParcelIndex } from './propertyLine';
+
+// How far from a lateral ending in the street the nearest parcel is looked for
+export const PARCEL_NEAREST_SEARCH_METERS = 30;
+
+// Lateral properties written by the parcel join, also picked by the exports
+export const PARCEL_JOIN_PROPERTIES = ['apn', 'parcelId', 'parcelOwner', 'parcelSitusAddress', 'parcelLandUse', 'parcelJoin', 'parcelDistanceMeters'] as const;
+
+export type ParcelJoinMethod = 'endpoint' | 'stub' | 'property-line' | 'nearest';
+
+export interface ParcelJoin {
+  parcel: Parcel;
+  method: ParcelJoinMethod;
+  distanceMeters: number; // From the lateral endpoint to the parcel (0 when inside it)
+}
+
+/**
+ * Closest point of a parcel's boundary to a point
+ */
+function nearestOnParcel(point: Position, parcel: Parcel): { point: Position; distance: number } | null {
+  const rings = parcel.geometry.type === 'Polygon' ? parcel.geometry.coordinates : parcel.geometry.coordinates.flat();
+  let best: { point: Position; distance: number } | null = null;
+  for (const ring of rings) {
+    if (ring.length < 2) continue;
+    const nearest = turf.nearestPointOnLine(turf.lineString(ring), point, { units: 'meters' });
+    const distance = nearest.properties.dist as number;
+    if (!best || distance < best.distance) {
+      best = { point: nearest.geometry.coordinates, distance };
+    }
+  }
+  return best;
+}
+
+function roundMeters(meters: number): number {
+  return Math.round(meters * 100) / 100;
+}
+
+/**
+ * Find the parcel a lateral serves: the parcel containing its endpoint, else the one containing
+ * the end of its stub, else the parcel the stub entered when it was extended to the property line.
+ * When all of those are in the street, the nearest parcel within the search radius that lies on
+ * the stub's side of the main (ahead of the connection point along the stub).
+ * Returns null when no parcel qualifies.
+ *
+ * @param options.stub [connection point on the main, stub end]; without it the nearest parcel on either side is used
+ * @param options.crossedParcel Parcel found by extending the stub to the property line, if any
+ */
+export function joinParcel(
+  index: ParcelIndex,
+  endpoint: Position,
+  options: { stub?: [Position, Position] | null; crossedParcel?: Parcel | null; maxDistance?: number } = {}
+): ParcelJoin | null {
+  const { stub, crossedParcel } = options;
+  const maxDistance = options.maxDistance ?? PARCEL_NEAREST_SEARCH_METERS;
+
+  const atEndpoint = findParcelAt(endpoint, index);
+  if (atEndpoint) return { parcel: atEndpoint, method: 'endpoint', distanceMeters: 0 };
+
+  if (stub) {
+    const atStub = findParcelAt(stub[1], index);
+    if (atStub) {
+      return { parcel: atStub, method: 'stub', distanceMeters: roundMeters(nearestOnParcel(endpoint, atStub)?.distance ?? 0) };
+    }
+  }
+
+  if (crossedParcel) {
+    return { parcel: crossedParcel, method: 'property-line', distanceMeters: roundMeters(nearestOnParcel(endpoint, crossedParcel)?.distance ?? 0) };
+  }
+
+  const stubBearing = stub && turf.distance(stub[0], stub[1], { units: 'meters' }) > 0.01 ? turf.bearing(stub[0], stub[1]) : null;
+  const latDegrees = maxDistance / 111320;
+  const lngDegrees = latDegrees / Math.max(Math.cos((endpoint[1] * Math.PI) / 180), 0.01);
+
+  let best: { parcel: Parcel; distance: number } | null = null;
+  for (const { parcel, bbox } of index.entries) {
+    if (endpoint[0] < bbox[0] - lngDegrees || endpoint[0] > bbox[2] + lngDegrees || endpoint[1] < bbox[1] - latDegrees || endpoint[1] > bbox[3] + latDegrees) continue;
+    const nearest = nearestOnParcel(endpoint, parcel);
+    if (!nearest || nearest.distance > maxDistance || (best && nearest.distance >= best.distance)) continue;
+    if (stubBearing != null) {
+      // Less than 90 degrees off the stub direction, seen from the main
+      const diff = Math.abs(((turf.bearing(stub![0], nearest.point) - stubBearing + 540) % 360) - 180);
+      if (diff >= 90) continue;
+    }
+    best = { parcel, distance: nearest.distance };
+  }
+  return best ? { parcel: best.parcel, method: 'nearest', distanceMeters: roundMeters(best.distance) } : null;
+}
+
+/**
+ * The parcel join properties present on a lateral, for exports that list their own columns
+ */
+export function parcelAttributesOf(properties: Record<string, any> | undefined): Record<string, any> {
+  return Object.fromEntries(
+    PARCEL_JOIN_PROPERTIES.filter((key) => properties?.[key] !== undefined).map((key) => [key, properties![key]])
+  );
+}
+
+/**
+ * Lateral properties for a parcel join (nulls when no parcel was found, so exports keep the columns)
+ */
+export function parcelJoinProperties(join: ParcelJoin | null) {
+  return {
+    apn: join?.parcel.apn ?? null,
+    parcelId: join?.parcel.id ?? null,
+    parcelOwner: join?.parcel.owner ?? null,
+    parcelSitusAddress: join?.parcel.situsAddress ?? null,
+    parcelLandUse: join?.parcel.landUse ?? null,
+    parcelJoin: join?.method ?? null,
+    parcelDistanceMeters: join?.distanceMeters ?? null,
+  };
+}
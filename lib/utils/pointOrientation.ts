@@ -0,0 +1,163 @@
+import { Position } from 'geojson';
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { SewerAsset } from '../types';
+import { assetPath } from './linePath';
+import { pickValue } from './fieldNames';
+
+// Attributes that always hold the pipe direction as a compass bearing, degrees clockwise from north
+const BEARING_FIELDS = ['Azimuth', 'Bearing', 'Heading', 'Pipe_Bearing', 'PipeBearing'];
+// Symbol rotation attributes. GIS layers store these either as geographic (clockwise from north) or
+// arithmetic (counter-clockwise from east) angles, so they are only read when the convention is given
+const SYMBOL_ROTATION_FIELDS = ['Rotation', 'SymbolRotation', 'Symbol_Rotation', 'Rot', 'Angle'];
+// Manhole ID attributes: a manhole joins several pipes, so it has no single pipe direction
+const MANHOLE_ID_FIELDS = ['Manhole_Number', 'ManholeNumber', 'MH_Number', 'Manhole_ID', 'ManholeID', 'MH_ID', 'MHID'];
+// A line asset this close to a point is taken to be the pipe the point sits on
+const NEAREST_LINE_METERS = 15;
+// A point this close to a line end is a node where pipes meet (a manhole), not a point along one pipe
+const LINE_END_METERS = 2;
+// Grid cell size of the line index, in degrees (about 110 m north-south)
+const CELL_DEGREES = 0.001;
+
+// Set on Point assets by orientPointAssets and read by the lateral calculator
+export const PIPE_BEARING_PROPERTY = 'pipeBearing';
+export const PIPE_BEARING_SOURCE_PROPERTY = 'pipeBearingSource';
+
+export type PointBearingSource = 'attribute' | 'nearest-line';
+
+// Convention of the symbol rotation attributes: geographic (clockwise from north) or arithmetic (counter-clockwise from east)
+export type RotationConvention = 'geographic' | 'arithmetic';
+
+export function isRotationConvention(value: unknown): value is RotationConvention {
+  return value === 'geographic' || value === 'arithmetic';
+}
+
+interface LineIndex {
+  cells: Map<string, Position[][]>; // Paths of the lines whose bounding box (plus the search radius) touches each cell
+}
+
+function normalizeBearing(bearing: number): number {
+  return ((bearing % 360) + 360) % 360;
+}
+
+/**
+ * Pipe direction of a point asset from its bearing attribute, or from its symbol rotation when the
+ * rotation convention is known. Null when it has neither.
+ */
+export function pointRotationAttribute(asset: SewerAsset, rotation?: RotationConvention | null): number | null {
+  const toDegrees = (value: any) => (value == null || value === '' || !isFinite(Number(value)) ? null : Number(value));
+
+  const bearing = toDegrees(pickValue(asset.properties, BEARING_FIELDS));
+  if (bearing != null) return normalizeBearing(bearing);
+  if (!rotation) return null;
+
+  const angle = toDegrees(pickValue(asset.properties, SYMBOL_ROTATION_FIELDS));
+  if (angle == null) return null;
+  return normalizeBearing(rotation === 'arithmetic' ? 90 - angle : angle);
+}
+
+function cellKey(x: number, y: number): string {
+  return `${x}:${y}`;
+}
+
+/**
+ * Bucket line paths into a lat/lng grid so a point only measures the lines around it
+ */
+function buildLineIndex(lines: SewerAsset[]): LineIndex {
+  const cells = new Map<string, Position[][]>();
+  for (const line of lines) {
+    const path = assetPath(line);
+    if (!path) continue;
+    const coordinates = path.coordinates;
+    const lats = coordinates.map((c) => c[1]);
+    const lngs = coordinates.map((c) => c[0]);
+    const marginLat = NEAREST_LINE_METERS / 111320;
+    const marginLng = marginLat / Math.max(Math.cos((lats[0] * Math.PI) / 180), 0.01);
+    const x0 = Math.floor((Math.min(...lngs) - marginLng) / CELL_DEGREES);
+    const x1 = Math.floor((Math.max(...lngs) + marginLng) / CELL_DEGREES);
+    const y0 = Math.floor((Math.min(...lats) - marginLat) / CELL_DEGREES);
+    const y1 = Math.floor((Math.max(...lats) + marginLat) / CELL_DEGREES);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        const key = cellKey(x, y);
+        const cell = cells.get(key);
+        if (cell) cell.push(coordinates);
+        else cells.set(key, [coordinates]);
+      }
+    }
+  }
+  return { cells };
+}
+
+/**
+ * Bearing of the nearest line asset where it passes the point, or null when no line is close enough
+ * or the point sits at a line end (a manhole or other node joining several pipes)
+ */
+function nearestLineBearing(asset: SewerAsset, index: LineIndex): number | null {
+  if (asset.geometry.type !== 'Point') return null;
+  const point = asset.geometry.coordinates;
+  const candidates = index.cells.get(cellKey(Math.floor(point[0] / CELL_DEGREES), Math.floor(point[1] / CELL_DEGREES))) || [];
+
+  let best: { distance: number; bearing: number } | null = null;
+  for (const path of candidates) {
+    const ends = [path[0], path[path.length - 1]];
+    if (ends.some((end) => turf.distance(point, end, { units: 'meters' }) <= LINE_END_METERS)) return null;
+
+    const nearest = turf.nearestPointOnLine(turf.lineString(path), point, { units: 'meters' });
+    const distance = nearest.properties.dist as number;
+    if (distance > NEAREST_LINE_METERS || (best && distance >= best.distance)) continue;
+
+    const segment = Math.min(nearest.properties.index as number, path.length - 2);
+    best = { distance, bearing: normalizeBearing(turf.bearing(path[segment], path[segment + 1])) };
+  }
+  return best ? best.bearing : null;
+}
+
+/**
+ * Give Point assets a pipe direction, so clock positions can be applied relative to the pipe
+ * instead of as compass bearings: the bearing (or symbol rotation) attribute first, then the nearest
+ * line asset. Manholes take neither from a line, since the pipes meeting there run different ways.
+ * Points without a direction keep the old behaviour (clock position used as a bearing from north).
+ * Runs once, when the asset layer is uploaded.
+ *
+ * @param options.rotation Convention of the symbol rotation attributes; without it they are ignored
+ */
+export function orientPointAssets(assets: SewerAsset[], options: { rotation?: RotationConvention | null } = {}): SewerAsset[] {
+  const index = buildLineIndex(
+    assets.filter((asset) => asset.geometry.type === 'LineString' || asset.geometry.type === 'MultiLineString')
+  );
+  let fromAttribute = 0;
+  let fromLine = 0;
+
+  const oriented = assets.map((asset) => {
+    if (asset.geometry.type !== 'Point' || asset.properties?.[PIPE_BEARING_PROPERTY] != null) return asset;
+
+    let bearing = pointRotationAttribute(asset, options.rotation);
+    let source: PointBearingSource = 'attribute';
+    if (bearing == null && pickValue(asset.properties, MANHOLE_ID_FIELDS) == null) {
+      bearing = nearestLineBearing(asset, index);
+      source = 'nearest-line';
+    }
+    if (bearing == null) return asset;
+
+    if (source === 'attribute') fromAttribute++;
+    else fromLine++;
+    return {
+      ...asset,
+      properties: { ...asset.properties, [PIPE_BEARING_PROPERTY]: bearing, [PIPE_BEARING_SOURCE_PROPERTY]: source },
+    };
+  });
+
+  if (fromAttribute + fromLine > 0) {
+    console.log(`Oriented ${fromAttribute + fromLine} point assets (${fromAttribute} from rotation attribute, ${fromLine} from nearest line)`);
+  }
+  return oriented;
+}
+
+/**
+ * Pipe direction stored on a point asset by orientPointAssets, or null
+ */
+export function pointPipeBearing(asset: SewerAsset): number | null {
+  const value = asset.properties?.[PIPE_BEARING_PROPERTY];
+  return value != null && isFinite(Number(value)) ? Number(value) : null;
+}
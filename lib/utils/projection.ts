@@ -0,0 +1,268 @@
+import proj4 from 'proj4';
+import { Feature, Geometry, Position } from 'geojson';
+import { SewerAsset } from '../types';
+import { findCRS, normalizeCrsCode, NAD27_TOWGS84, NAD83_HARN_TOWGS84 } from './crsRegistry';
+
+export interface SourceCRS {
+  source: 'epsg' | 'geojson' | 'prj';
+  code?: string; // EPSG code when known, e.g. "EPSG:2227"
+  name?: string;
+  definition: string; // proj4 string or WKT
+}
+
+const WGS84 = 'EPSG:4326';
+
+/**
+ * Read the (pre-RFC 7946) `crs` member of a GeoJSON object.
+ * Returns the EPSG code it names, or null when absent or unrecognised.
+ */
+export function getGeoJSONCrsCode(geojson: any): string | null {
+  const crs = geojson?.crs;
+  if (!crs || typeof crs !== 'object') return null;
+
+  if (crs.type === 'name') {
+    return normalizeCrsCode(crs.properties?.name);
+  }
+  if (crs.type === 'EPSG') {
+    return normalizeCrsCode(crs.properties?.code);
+  }
+  if (crs.type === 'link') {
+    return normalizeCrsCode(crs.properties?.href);
+  }
+  return null;
+}
+
+/**
+ * .prj files carry no TOWGS84 for NAD27/HARN, which leaves proj4 treating them as WGS84
+ * (NAD27 is 50-100 m off in CONUS). Insert the same datum shifts the EPSG registry uses.
+ */
+function addDatumShift(wkt: string): string {
+  if (/TOWGS84/i.test(wkt)) return wkt;
+
+  const datumMatch = wkt.match(/DATUM\s*\[\s*"([^"]+)"/i);
+  if (!datumMatch) return wkt;
+  const datumName = datumMatch[1].toUpperCase().replace(/[\s()]/g, '_');
+
+  let towgs84: string | null = null;
+  if (datumName.includes('1927')) {
+    towgs84 = NAD27_TOWGS84;
+  } else if (datumName.includes('HARN') || datumName.includes('HPGN')) {
+    towgs84 = NAD83_HARN_TOWGS84;
+  }
+  if (!towgs84) return wkt;
+
+  // DATUM["name",SPHEROID[...]] -> DATUM["name",SPHEROID[...],TOWGS84[...]]
+  const spheroidStart = wkt.search(/SPHEROID\s*\[/i);
+  if (spheroidStart === -1) return wkt;
+  let depth = 0;
+  for (let i = wkt.indexOf('[', spheroidStart); i < wkt.length; i++) {
+    if (wkt[i] === '[') depth++;
+    if (wkt[i] === ']') depth--;
+    if (depth === 0) {
+      return `${wkt.slice(0, i + 1)},TOWGS84[${towgs84}]${wkt.slice(i + 1)}`;
+    }
+  }
+  return wkt;
+}
+
+/**
+ * Work out the source CRS of an asset layer.
+ * Priority: user-selected EPSG code, then the .prj file, then the GeoJSON `crs` member.
+ * Returns null when the data should already be WGS84.
+ */
+export function detectSourceCRS(options: {
+  epsg?: string | null;
+  prj?: string | null;
+  geojson?: any;
+}): SourceCRS | null {
+  if (options.epsg) {
+    const crs = findCRS(options.epsg);
+    if (!crs) {
+      throw new Error(`Unsupported EPSG code "${options.epsg}". Upload a .prj file or choose one of the listed coordinate systems.`);
+    }
+    return { source: 'epsg', code: crs.code, name: crs.name, definition: crs.proj4 };
+  }
+
+  if (options.prj && options.prj.trim()) {
+    const wkt = options.prj.trim();
+    // Prefer the registry definition when the WKT carries an EPSG authority for the CRS itself
+    const authority = wkt.match(/AUTHORITY\s*\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]\s*$/i);
+    const known = authority ? findCRS(authority[1]) : null;
+    if (known) {
+      return { source: 'prj', code: known.code, name: known.name, definition: known.proj4 };
+    }
+    const name = wkt.match(/^\s*\w+\s*\[\s*"([^"]+)"/)?.[1];
+    return { source: 'prj', name, definition: addDatumShift(wkt) };
+  }
+
+  const geojsonCode = getGeoJSONCrsCode(options.geojson);
+  if (geojsonCode) {
+    const crs = findCRS(geojsonCode);
+    if (!crs) {
+      throw new Error(`GeoJSON declares unsupported CRS "${geojsonCode}". Choose the coordinate system manually.`);
+    }
+    return { source: 'geojson', code: crs.code, name: crs.name, definition: crs.proj4 };
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a CRS is WGS84 longitude/latitude (no reprojection needed)
+ */
+export function isWGS84(crs: SourceCRS | null): boolean {
+  if (!crs) return true;
+  if (crs.code === WGS84) return true;
+  return /^GEOGCS\s*\[\s*"(GCS_)?WGS[\s_]?(19)?84"/i.test(crs.definition.trim());
+}
+
+/**
+ * Heuristic used when no CRS is declared: projected coordinates (feet/metres)
+ * fall far outside the longitude/latitude ranges.
+ */
+export function looksProjected(assets: SewerAsset[]): boolean {
+  for (const asset of assets) {
+    const first = firstPosition(asset);
+    if (first && (Math.abs(first[0]) > 180 || Math.abs(first[1]) > 90)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function firstPosition(asset: SewerAsset): Position | null {
+  const geometry = asset.geometry;
+  if (!geometry) return null;
+  if (geometry.type === 'Point') return geometry.coordinates;
+  if (geometry.type === 'LineString') return geometry.coordinates[0] ?? null;
+  if (geometry.type === 'MultiLineString') return geometry.coordinates[0]?.[0] ?? null;
+  return null;
+}
+
+/**
+ * Reproject asset geometries from the source CRS to WGS84 [lng, lat].
+ * Runs before any Turf distance math, which assumes geographic coordinates.
+ */
+export function reprojectAssets(assets: SewerAsset[], crs: SourceCRS | null): SewerAsset[] {
+  if (isWGS84(crs)) return assets;
+
+  let converter: proj4.Converter;
+  try {
+    converter = proj4(crs!.definition, WGS84);
+  } catch (error) {
+    throw new Error(`Could not interpret coordinate system ${crs!.code || crs!.name || ''}: ${(error as Error).message}`);
+  }
+
+  const toWGS84 = (position: Position): Position => {
+    const [x, y] = converter.forward([position[0], position[1]]);
+    return [x, y];
+  };
+
+  console.log(`Reprojecting ${assets.length} assets from ${crs!.code || crs!.name || 'custom CRS'} to WGS84`);
+
+  return assets.map((asset) => {
+    const geometry = asset.geometry;
+    let coordinates: any;
+    if (geometry.type === 'Point') {
+      coordinates = toWGS84(geometry.coordinates);
+    } else if (geometry.type === 'LineString') {
+      coordinates = geometry.coordinates.map(toWGS84);
+    } else {
+      coordinates = geometry.coordinates.map((part) => part.map(toWGS84));
+    }
+    return {
+      ...asset,
+      geometry: { ...geometry, coordinates },
+    } as SewerAsset;
+  });
+}
+
+/**
+ * Reproject assets to WGS84, refusing projected coordinates whose CRS is unknown
+ * (they would otherwise be dropped or land in the ocean in validateCoordinates)
+ */
+export function assetsToWGS84(assets: SewerAsset[], sourceCrs: SourceCRS | null): SewerAsset[] {
+  if (!sourceCrs && looksProjected(assets)) {
+    throw new Error(
+      'Coordinates look projected (e.g. State Plane feet) but no coordinate system was found in the file. ' +
+      'Select the EPSG code of the layer and upload again.'
+    );
+  }
+  return reprojectAssets(assets, sourceCrs);
+}
+
+/**
+ * Copy of a geometry with every position passed through `fn`; the geometry type is unchanged
+ */
+function mapGeometry(geometry: Geometry, fn: (position: Position) => Position): Geometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: fn(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(fn) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map((part) => part.map(fn)) };
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: geometry.coordinates.map((polygon) => polygon.map((ring) => ring.map(fn))) };
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map((member) => mapGeometry(member, fn)) };
+  }
+}
+
+function firstGeometryPosition(geometry: Geometry): Position | null {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates;
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates[0] ?? null;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates[0]?.[0] ?? null;
+    case 'MultiPolygon':
+      return geometry.coordinates[0]?.[0]?.[0] ?? null;
+    case 'GeometryCollection':
+      return geometry.geometries.length > 0 ? firstGeometryPosition(geometry.geometries[0]) : null;
+  }
+}
+
+/**
+ * Reproject any features (e.g. parcel polygons or address points) to WGS84, with the same
+ * refusal as assetsToWGS84 for projected coordinates without a known CRS
+ */
+export function featuresToWGS84<T extends Feature<Geometry>>(features: T[], sourceCrs: SourceCRS | null): T[] {
+  if (isWGS84(sourceCrs)) {
+    const projected = features.some((feature) => {
+      const first = feature.geometry ? firstGeometryPosition(feature.geometry) : null;
+      return first != null && (Math.abs(first[0]) > 180 || Math.abs(first[1]) > 90);
+    });
+    if (!sourceCrs && projected) {
+      throw new Error(
+        'Coordinates look projected (e.g. State Plane feet) but no coordinate system was found in the file. ' +
+        'Select the EPSG code of the layer and upload again.'
+      );
+    }
+    return features;
+  }
+
+  let converter: proj4.Converter;
+  try {
+    converter = proj4(sourceCrs!.definition, WGS84);
+  } catch (error) {
+    throw new Error(`Could not interpret coordinate system ${sourceCrs!.code || sourceCrs!.name || ''}: ${(error as Error).message}`);
+  }
+  const toWGS84 = (position: Position): Position => {
+    const [x, y] = converter.forward([position[0], position[1]]);
+    return [x, y];
+  };
+
+  console.log(`Reprojecting ${features.length} features from ${sourceCrs!.code || sourceCrs!.name || 'custom CRS'} to WGS84`);
+
+  return features.map((feature) => {
+    if (!feature.geometry) return feature;
+    // Same geometry type as the input, so the feature keeps its type
+    return { ...feature, geometry: mapGeometry(feature.geometry, toWGS84) } as T;
+  });
+}
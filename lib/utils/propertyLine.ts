@@ -0,0 +1,134 @@
+import { Position } from 'geojson';
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { Parcel } from '../types';
+
+// How far from the main a lateral is extended while looking for the property line
+export const PROPERTY_LINE_SEARCH_METERS = 60;
+// Step past a boundary crossing used to tell which parcel the lateral enters
+const ENTRY_PROBE_METERS = 0.05;
+
+export interface ParcelIndex {
+  entries: Array<{ parcel: Parcel; bbox: [number, number, number, number] }>;
+}
+
+export interface PropertyLineSplit {
+  parcel: Parcel | null;
+  propertyLinePoint: Position | null;
+  publicLine: Position[]; // Main to property line; empty when the main itself is inside the parcel
+  privateLine: Position[]; // Property line into the parcel
+  insideParcel: boolean; // The connection point is already inside a parcel (main in an easement)
+  publicLengthMeters: number;
+}
+
+/**
+ * Precompute parcel bounding boxes so each lateral only tests nearby parcels
+ */
+export function buildParcelIndex(parcels: Parcel[]): ParcelIndex {
+  return {
+    entries: parcels
+      .filter((parcel) => parcel.geometry?.type === 'Polygon' || parcel.geometry?.type === 'MultiPolygon')
+      .map((parcel) => ({ parcel, bbox: turf.bbox(parcel) as [number, number, number, number] })),
+  };
+}
+
+function bboxContains(bbox: [number, number, number, number], point: Position): boolean {
+  return point[0] >= bbox[0] && point[0] <= bbox[2] && point[1] >= bbox[1] && point[1] <= bbox[3];
+}
+
+function bboxOverlaps(a: [number, number, number, number], b: [number, number, number, number]): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+/**
+ * Parcel containing a point, or null (e.g. the point is in the street right-of-way)
+ */
+export function findParcelAt(point: Position, index: ParcelIndex): Parcel | null {
+  for (const { parcel, bbox } of index.entries) {
+    if (bboxContains(bbox, point) && turf.booleanPointInPolygon(point, parcel)) {
+      return parcel;
+    }
+  }
+  return null;
+}
+
+/**
+ * Split a lateral path where it first crosses into a parcel.
+ * The part before the crossing is in the public right-of-way, the rest is private.
+ * Returns null when the path never reaches a parcel.
+ */
+export function splitAtPropertyLine(path: Position[], index: ParcelIndex): PropertyLineSplit | null {
+  if (path.length < 2 || index.entries.length === 0) return null;
+
+  const startParcel = findParcelAt(path[0], index);
+  if (startParcel) {
+    return {
+      parcel: startParcel,
+      propertyLinePoint: null,
+      publicLine: [],
+      privateLine: path,
+      insideParcel: true,
+      publicLengthMeters: 0,
+    };
+  }
+
+  let travelled = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const segment = turf.lineString([path[i], path[i + 1]]);
+    const segmentBbox = turf.bbox(segment) as [number, number, number, number];
+    const segmentLength = turf.distance(path[i], path[i + 1], { units: 'meters' });
+
+    // Nearest boundary crossing along this segment
+    let crossing: { point: Position; distance: number } | null = null;
+    for (const { parcel, bbox } of index.entries) {
+      if (!bboxOverlaps(bbox, segmentBbox)) continue;
+      for (const hit of turf.lineIntersect(segment, parcel).features) {
+        const point = hit.geometry.coordinates;
+        const distance = turf.distance(path[i], point, { units: 'meters' });
+        if (!crossing || distance < crossing.distance) {
+          crossing = { point, distance };
+        }
+      }
+    }
+
+    if (crossing) {
+      // Which parcel the lateral enters (a shared boundary touches two)
+      const bearing = turf.bearing(path[i], path[i + 1]);
+      const probe = turf.destination(crossing.point, ENTRY_PROBE_METERS, bearing, { units: 'meters' }).geometry.coordinates;
+      const parcel = findParcelAt(probe, index);
+      return {
+        parcel,
+        propertyLinePoint: crossing.point,
+        publicLine: [...path.slice(0, i + 1), crossing.point],
+        privateLine: [crossing.point, ...path.slice(i + 1)],
+        insideParcel: false,
+        publicLengthMeters: travelled + crossing.distance,
+      };
+    }
+    travelled += segmentLength;
+  }
+
+  return null;
+}
+
+/**
+ * Extend a stub from the main (perpendicular, on the side the clock position gave it) until it
+ * crosses the property line, then continue `privateLength` meters into the parcel.
+ * Returns null when no parcel boundary lies within `maxDistance` of the main.
+ */
+export function extendStubToPropertyLine(
+  stubLine: [Position, Position],
+  index: ParcelIndex,
+  privateLength: number,
+  maxDistance: number = PROPERTY_LINE_SEARCH_METERS
+): PropertyLineSplit | null {
+  const [connectionPoint, stubEnd] = stubLine;
+  const bearing = turf.bearing(connectionPoint, stubEnd);
+  const searchEnd = turf.destination(connectionPoint, maxDistance, bearing, { units: 'meters' }).geometry.coordinates;
+  const split = splitAtPropertyLine([connectionPoint, searchEnd], index);
+  if (!split) return null;
+
+  const privateStart = split.propertyLinePoint ?? connectionPoint;
+  const privateEnd = turf.destination(privateStart, privateLength, bearing, { units: 'meters' }).geometry.coordinates;
+  return { ...split, privateLine: [privateStart, privateEnd] };
+}
@@ -0,0 +1,184 @@
+import { Position } from 'geojson';
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { InspectionRecord, SewerAsset } from '../types';
+import { assetPath, assetPathEnds } from './linePath';
+import { pickValue } from './fieldNames';
+
+// Manhole ID attributes on point assets (same candidates locateManholes uses)
+const MANHOLE_ID_FIELDS = ['Manhole_Number', 'ManholeNumber', 'MH_Number', 'Manhole_ID', 'ManholeID', 'MH_ID', 'MHID', 'FACILITYID', 'FacilityID'];
+// Pipe attributes naming the manhole at the first / last vertex (digitizing order, not flow)
+const PIPE_FROM_NODE_FIELDS = ['From_MH', 'FromMH', 'FROM_NODE', 'FromNode', 'Start_MH', 'StartMH', 'Start_Node'];
+const PIPE_TO_NODE_FIELDS = ['To_MH', 'ToMH', 'TO_NODE', 'ToNode', 'End_MH', 'EndMH', 'End_Node'];
+
+// A manhole point this close to a line end is taken to be that end's manhole
+const MANHOLE_SNAP_METERS = 2;
+
+export type OrientationSource = 'manhole-point' | 'pipe-nodes' | 'direction' | 'default';
+
+export interface SurveyOrientation {
+  reversed: boolean; // Survey ran from the last vertex of the GIS line towards the first
+  orientedBy: OrientationSource;
+  startMH?: string | null; // Manhole the camera was set up at, when known
+}
+
+export interface ManholePoint {
+  key: string;
+  coordinates: Position;
+}
+
+/**
+ * Manhole numbers are compared case-insensitively and without surrounding whitespace
+ */
+function manholeKey(value: any): string | null {
+  if (value == null || value === '') return null;
+  return String(value).trim().toUpperCase();
+}
+
+/**
+ * Read PACP Direction: "D"/"Downstream" or "U"/"Upstream".
+ * Without a direction, a reverse setup means the camera ran against the usual (downstream) direction.
+ *
+ * @returns 'upstream' or 'downstream' (direction of camera travel), or null when unknown
+ */
+export function surveyDirection(inspection: InspectionRecord): 'upstream' | 'downstream' | null {
+  const direction = String(inspection.direction ?? '').trim().toUpperCase();
+  if (direction.startsWith('U')) return 'upstream';
+  if (direction.startsWith('D')) return 'downstream';
+
+  if (isReverseSetup(inspection.reverseSetup)) return 'upstream';
+  return null;
+}
+
+/**
+ * Reverse_Setup is a Yes/No flag in some exports and the ID of the original inspection in others
+ */
+function isReverseSetup(value: unknown): boolean {
+  if (value == null || value === false || value === 0) return false;
+  if (value === true || value === 1 || value === -1) return true;
+  const v = String(value).trim().toLowerCase();
+  return v !== '' && v !== '0' && v !== 'n' && v !== 'no' && v !== 'false';
+}
+
+/**
+ * Manhole the camera was set up at: Upstream_MH for downstream surveys, Downstream_MH for upstream surveys
+ */
+export function surveyStartManhole(inspection: InspectionRecord): string | null {
+  const direction = surveyDirection(inspection);
+  if (direction === 'downstream') return manholeKey(inspection.upstreamMH);
+  if (direction === 'upstream') return manholeKey(inspection.downstreamMH);
+  return null;
+}
+
+/**
+ * Collect point assets that carry a manhole ID, for matching against line ends
+ */
+export function buildManholeIndex(assets: SewerAsset[]): ManholePoint[] {
+  const points: ManholePoint[] = [];
+  for (const asset of assets) {
+    if (asset.geometry?.type !== 'Point') continue;
+    const key = manholeKey(pickValue(asset.properties, MANHOLE_ID_FIELDS));
+    if (key) {
+      points.push({ key, coordinates: asset.geometry.coordinates });
+    }
+  }
+  return points;
+}
+
+function nearestManhole(point: Position, manholes: ManholePoint[]): string | null {
+  let best: string | null = null;
+  let bestDistance = MANHOLE_SNAP_METERS;
+  for (const manhole of manholes) {
+    const distance = turf.distance(point, manhole.coordinates, { units: 'meters' });
+    if (distance <= bestDistance) {
+      best = manhole.key;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Work out whether an inspection ran along or against the vertex order of its GIS line,
+ * so tap distances can be measured from the manhole the camera started at.
+ *
+ * In order of preference:
+ *   1. The start (or finish) manhole matched to a manhole point at one end of the line
+ *   2. The start (or finish) manhole matched to the pipe's from/to node attributes
+ *   3. Survey direction alone, assuming the line is digitized upstream to downstream
+ * Lines that cannot be oriented keep their vertex order (the previous behaviour).
+ */
+export function orientInspection(
+  inspection: InspectionRecord,
+  asset: SewerAsset,
+  manholes: ManholePoint[] = []
+): SurveyOrientation {
+  const direction = surveyDirection(inspection);
+  const ends = assetPathEnds(asset);
+  if (!ends || !direction) {
+    return { reversed: false, orientedBy: 'default' };
+  }
+
+  const startMH = surveyStartManhole(inspection);
+  const finishMH = manholeKey(direction === 'downstream' ? inspection.downstreamMH : inspection.upstreamMH);
+
+  const matchEnds = (fromNode: string | null, toNode: string | null): boolean | null => {
+    if (startMH && startMH === fromNode) return false;
+    if (startMH && startMH === toNode) return true;
+    if (finishMH && finishMH === toNode) return false;
+    if (finishMH && finishMH === fromNode) return true;
+    return null;
+  };
+
+  if (manholes.length > 0) {
+    const reversed = matchEnds(nearestManhole(ends.start, manholes), nearestManhole(ends.end, manholes));
+    if (reversed !== null) {
+      return { reversed, orientedBy: 'manhole-point', startMH };
+    }
+  }
+
+  const reversed = matchEnds(
+    manholeKey(pickValue(asset.properties, PIPE_FROM_NODE_FIELDS)),
+    manholeKey(pickValue(asset.properties, PIPE_TO_NODE_FIELDS))
+  );
+  if (reversed !== null) {
+    return { reversed, orientedBy: 'pipe-nodes', startMH };
+  }
+
+  return { reversed: direction === 'upstream', orientedBy: 'direction', startMH };
+}
+
+/**
+ * Return the asset with its line reversed when the survey ran against the vertex order.
+ * Distances are then measured from the start manhole, and left/right follow the camera's view.
+ * A MultiLineString comes back as its merged path, reversed.
+ */
+export function orientAsset(asset: SewerAsset, orientation: SurveyOrientation): SewerAsset {
+  if (!orientation.reversed) return asset;
+  const geometry = asset.geometry;
+  if (geometry.type === 'LineString') {
+    return { ...asset, geometry: { ...geometry, coordinates: [...geometry.coordinates].reverse() } };
+  }
+  if (geometry.type === 'MultiLineString') {
+    const path = assetPath(asset);
+    return path ? { ...asset, geometry: { type: 'LineString', coordinates: [...path.coordinates].reverse() } } : asset;
+  }
+  return asset;
+}
+
+/**
+ * Did the camera get all the way to the far manhole?
+ * A survey abandoned observation (MSA) or an abandoned inspection status means it stopped short,
+ * so Length_Surveyed is not the length of the pipe.
+ */
+export function surveyReachedFarManhole(inspection: InspectionRecord, conditionCodes: Array<string | undefined>): boolean {
+  if (conditionCodes.some((code) => String(code ?? '').trim().toUpperCase() === 'MSA')) {
+    return false;
+  }
+  const status = String(
+    pickValue(inspection.raw, ['Inspection_Status', 'InspectionStatus', 'Survey_Status']) ??
+      pickValue(inspection.properties, ['Inspection_Status', 'InspectionStatus', 'Survey_Status']) ??
+      ''
+  ).trim().toUpperCase();
+  return status !== 'SA' && !status.includes('ABANDON');
+}
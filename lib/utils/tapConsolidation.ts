@@ -0,0 +1,152 @@
+// @ts-ignore - turf types issue with package.json exports
+import * as turf from '@turf/turf';
+import { SewerAsset } from '../types';
+import { assetPath } from './linePath';
+
+// Repeat inspections of a pipe put the same tap within about a meter and an hour of clock
+export const DEFAULT_TAP_DISTANCE_TOLERANCE_METERS = 1;
+export const DEFAULT_TAP_CLOCK_TOLERANCE_HOURS = 1;
+
+export interface TapTolerance {
+  distanceMeters: number;
+  clockHours: number;
+}
+
+export interface TapCandidate<T> {
+  item: T;
+  assetId: string;
+  positionMeters: number; // Distance from the first vertex of the GIS line, whichever way the camera ran
+  clockPosition: number | null; // Clock position seen looking along the GIS line
+  inspectionId?: string;
+  inspectionDate?: string;
+}
+
+export interface TapGroup<T> {
+  kept: TapCandidate<T>; // Most recent observation of the tap, which the group is matched against
+  members: TapCandidate<T>[]; // Every observation, most recent first; the order laterals are tried in
+  inspectionIds: string[]; // Contributing inspections, most recent first
+}
+
+/**
+ * Put a tap observed during one inspection into the GIS line's frame, so taps seen by surveys
+ * run in opposite directions can be compared: the distance is measured from the first vertex
+ * and the clock is mirrored (3 <-> 9) for surveys that ran against the vertex order.
+ *
+ * @param distanceMeters Tap distance from the start manhole, already converted (and scaled) to meters
+ */
+export function tapLinePosition(
+  asset: SewerAsset,
+  reversed: boolean,
+  distanceMeters: number,
+  clockPosition: number | null | undefined
+): { positionMeters: number; clockPosition: number | null } {
+  const clock = clockPosition == null ? null : ((clockPosition % 12) + 12) % 12;
+  if (!reversed) {
+    return { positionMeters: distanceMeters, clockPosition: clock };
+  }
+  const path = assetPath(asset);
+  const lineLength = path ? turf.length(turf.lineString(path.coordinates), { units: 'kilometers' }) * 1000 : distanceMeters;
+  return {
+    positionMeters: Math.max(lineLength - distanceMeters, 0),
+    clockPosition: clock == null ? null : (12 - clock) % 12,
+  };
+}
+
+function clockDifference(a: number | null, b: number | null): number {
+  if (a == null || b == null) return 0;
+  const d = Math.abs(a - b) % 12;
+  return Math.min(d, 12 - d);
+}
+
+function dateValue(date: string | undefined): number {
+  const time = date ? Date.parse(date) : NaN;
+  return isNaN(time) ? -Infinity : time;
+}
+
+/**
+ * Group observations of the same tap across repeat inspections of a pipe.
+ *
+ * Observations are taken most recent first; each joins the nearest group on the same asset whose
+ * kept (most recent) observation is within the distance and clock tolerance, unless that group
+ * already has a tap from the same inspection. Two laterals seen in one survey are never merged.
+ * Undated observations count as the oldest; ties keep input order.
+ */
+export function consolidateTaps<T>(candidates: TapCandidate<T>[], tolerance: TapTolerance): TapGroup<T>[] {
+  const ordered = candidates
+    .map((candidate, index) => ({ candidate, index, time: dateValue(candidate.inspectionDate) }))
+    .sort((a, b) => b.time - a.time || a.index - b.index)
+    .map(({ candidate }) => candidate);
+
+  const groups: TapGroup<T>[] = [];
+  for (const candidate of ordered) {
+    let best: { group: TapGroup<T>; distance: number } | null = null;
+    for (const group of groups) {
+      if (group.kept.assetId !== candidate.assetId) continue;
+      if (candidate.inspectionId && group.members.some((m) => m.inspectionId === candidate.inspectionId)) continue;
+
+      const distance = Math.abs(group.kept.positionMeters - candidate.positionMeters);
+      if (distance > tolerance.distanceMeters) continue;
+      if (clockDifference(group.kept.clockPosition, candidate.clockPosition) > tolerance.clockHours) continue;
+      if (!best || distance < best.distance) {
+        best = { group, distance };
+      }
+    }
+
+    if (best) {
+      best.group.members.push(candidate);
+      if (candidate.inspectionId && !best.group.inspectionIds.includes(candidate.inspectionId)) {
+        best.group.inspectionIds.push(candidate.inspectionId);
+      }
+    } else {
+      groups.push({ kept: candidate, members: [candidate], inspectionIds: candidate.inspectionId ? [candidate.inspectionId] : [] });
+    }
+  }
+
+  const merged = candidates.length - groups.length;
+  if (merged > 0) {
+    console.log(`Consolidated ${candidates.length} tap observations into ${groups.length} taps (${merged} repeat observations merged)`);
+  }
+  return groups;
+}
+
+/**
+ * Map every observation to its group, so each can be looked up while drawing laterals
+ */
+export function tapGroupsByItem<T>(groups: TapGroup<T>[]): Map<T, TapGroup<T>> {
+  const byItem = new Map<T, TapGroup<T>>();
+  for (const group of groups) {
+    group.members.forEach((member) => byItem.set(member.item, group));
+  }
+  return byItem;
+}
+
+/**
+ * Order items so a group's observations are tried most recent first: they are moved together to
+ * where the group's first item was. Items outside any group keep their place.
+ * The first observation that places draws the tap; an older one is only used when it fails.
+ */
+export function tapGroupOrder<T>(items: T[], groupByItem: Map<T, TapGroup<T>>): T[] {
+  const ordered: T[] = [];
+  const seen = new Set<TapGroup<T>>();
+  for (const item of items) {
+    const group = groupByItem.get(item);
+    if (!group) {
+      ordered.push(item);
+    } else if (!seen.has(group)) {
+      seen.add(group);
+      group.members.forEach((member) => ordered.push(member.item));
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Lateral properties recording which inspections saw a consolidated tap
+ */
+export function tapGroupProperties<T>(group: TapGroup<T>) {
+  return {
+    contributingInspectionIds: group.inspectionIds.join(', '),
+    tapObservationCount: group.members.length,
+    tapConsolidated: group.members.length > 1,
+  };
+}
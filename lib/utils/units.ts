@@ -0,0 +1,65 @@
+export const FEET_TO_METERS = 0.3048;
+
+/**
+ * Interpret an IsImperial header value (1/0, true/false, "Y"/"N", "Yes"/"No")
+ */
+export function isImperialFlag(value: unknown): boolean {
+  if (value === true || value === 1) return true;
+  if (typeof value === 'string') {
+    const v = value.trim().toLowerCase();
+    return v === '1' || v === 'true' || v === 'y' || v === 'yes' || v === '-1';
+  }
+  // Access stores Yes/No as -1/0
+  return value === -1;
+}
+
+/**
+ * Convert a distance recorded in survey units to meters
+ */
+export function toMeters(value: number, isImperial: unknown): number {
+  return isImperialFlag(isImperial) ? value * FEET_TO_METERS : value;
+}
+
+export type DistanceUnit = 'feet' | 'meters';
+// 'auto' reads each inspection's IsImperial header; 'feet'/'meters' force the unit for every inspection
+export type UnitOverride = 'auto' | DistanceUnit;
+
+export function isUnitOverride(value: unknown): value is UnitOverride {
+  return value === 'auto' || value === 'feet' || value === 'meters';
+}
+
+/**
+ * Convert a distance in the given unit to meters
+ */
+export function distanceToMeters(value: number, unit: DistanceUnit = 'meters'): number {
+  return unit === 'feet' ? value * FEET_TO_METERS : value;
+}
+
+/**
+ * Work out the distance unit of one inspection: the manual override, then the IsImperial header.
+ * Inspections without the header are taken to be metric.
+ */
+export function resolveInspectionUnits(
+  inspection: { isImperial?: unknown; raw?: Record<string, any>; properties?: Record<string, any> } | null | undefined,
+  override: UnitOverride = 'auto'
+): { unit: DistanceUnit; source: 'override' | 'header' | 'default' } {
+  if (override !== 'auto') {
+    return { unit: override, source: 'override' };
+  }
+  const header = inspection?.isImperial ?? inspection?.raw?.IsImperial ?? inspection?.properties?.IsImperial;
+  if (header == null || header === '' || (typeof header === 'number' && isNaN(header))) {
+    return { unit: 'meters', source: 'default' };
+  }
+  return { unit: isImperialFlag(header) ? 'feet' : 'meters', source: 'header' };
+}
+
+/**
+ * A distance recorded in `unit`, expressed in both feet and meters (rounded to the millimetre / hundredth of a foot)
+ */
+export function distanceInBothUnits(value: number, unit: DistanceUnit): { feet: number; meters: number } {
+  const meters = distanceToMeters(value, unit);
+  return {
+    feet: Math.round((meters / FEET_TO_METERS) * 100) / 100,
+    meters: Math.round(meters * 1000) / 1000,
+  };
+}
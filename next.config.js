@@ -1,6 +1,14 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // sql.js loads its WebAssembly binary from node_modules at runtime (GeoPackage and bundle import)
+    serverComponentsExternalPackages: ['sql.js'],
+    outputFileTracingIncludes: {
+      '/api/upload/geojson': ['./node_modules/sql.js/dist/sql-wasm.wasm'],
+      '/api/upload/bundle': ['./node_modules/sql.js/dist/sql-wasm.wasm'],
+    },
+  },
   webpack: (config) => {
     config.resolve.alias.canvas = false;
     return config;
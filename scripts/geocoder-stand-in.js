@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the reverse geocoding APIs (Mapbox Places v5, Nominatim, Pelias),
+ * so the provider contract can be exercised offline:
+ *
+ *   node scripts/geocoder-stand-in.js [port] [--status=429]
+ *   GEOCODER_PROVIDER=nominatim GEOCODER_URL=http://localhost:4010 npm run dev
+ *   curl "http://localhost:3000/api/geocode?lng=-122.4&lat=37.8"
+ *
+ * Every point gets a made-up address whose house number follows from the coordinates.
+ * Points with a latitude of exactly 0 get an empty answer (no address), and --status makes every
+ * request fail with that HTTP status, so "not found" and error handling can be checked too.
+ */
+const http = require('http');
+
+const args = process.argv.slice(2);
+const port = Number(args.find((arg) => /^\d+$/.test(arg)) || process.env.PORT || 4010);
+const failStatus = Number((args.find((arg) => arg.startsWith('--status=')) || '').split('=')[1]) || null;
+
+function fakeAddress(lng, lat) {
+  return {
+    houseNumber: String(100 + (Math.abs(Math.round(lng * 1e5) + Math.round(lat * 1e5)) % 900)),
+    street: 'Main St',
+    city: 'Springfield',
+    state: 'California',
+    stateCode: 'CA',
+    zip: '95000',
+  };
+}
+
+function mapbox(lng, lat) {
+  if (lat === 0) return { type: 'FeatureCollection', features: [] };
+  const a = fakeAddress(lng, lat);
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        id: 'address.1',
+        type: 'Feature',
+        place_type: ['address'],
+        text: a.street,
+        address: a.houseNumber,
+        place_name: `${a.houseNumber} ${a.street}, ${a.city}, ${a.state} ${a.zip}, United States`,
+        properties: { address: `${a.houseNumber} ${a.street}` },
+        center: [lng, lat],
+        geometry: { type: 'Point', coordinates: [lng, lat] },
+        context: [
+          { id: 'postcode.1', text: a.zip },
+          { id: 'place.1', text: a.city },
+          { id: 'region.1', text: a.state, short_code: `US-${a.stateCode}` },
+          { id: 'country.1', text: 'United States' },
+        ],
+      },
+    ],
+  };
+}
+
+function nominatim(lng, lat) {
+  if (lat === 0) return { error: 'Unable to geocode' };
+  const a = fakeAddress(lng, lat);
+  return {
+    place_id: 1,
+    lat: String(lat),
+    lon: String(lng),
+    display_name: `${a.houseNumber}, ${a.street}, ${a.city}, ${a.state}, ${a.zip}, United States`,
+    address: {
+      house_number: a.houseNumber,
+      road: a.street,
+      city: a.city,
+      state: a.state,
+      postcode: a.zip,
+      country: 'United States',
+      country_code: 'us',
+    },
+  };
+}
+
+function pelias(lng, lat) {
+  if (lat === 0) return { type: 'FeatureCollection', features: [] };
+  const a = fakeAddress(lng, lat);
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [lng, lat] },
+        properties: {
+          layer: 'address',
+          name: `${a.houseNumber} ${a.street}`,
+          housenumber: a.houseNumber,
+          street: a.street,
+          postalcode: a.zip,
+          locality: a.city,
+          region: a.state,
+          region_a: a.stateCode,
+          label: `${a.houseNumber} ${a.street}, ${a.city}, ${a.stateCode}, USA`,
+        },
+      },
+    ],
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  let lng;
+  let lat;
+  let respond;
+
+  const mapboxMatch = url.pathname.match(/^\/geocoding\/v5\/mapbox\.places\/(-?[\d.]+),(-?[\d.]+)\.json$/);
+  if (mapboxMatch) {
+    if (!url.searchParams.get('access_token')) return send(res, 401, { message: 'Not Authorized - No Token' });
+    lng = Number(mapboxMatch[1]);
+    lat = Number(mapboxMatch[2]);
+    respond = mapbox;
+  } else if (url.pathname === '/reverse') {
+    lng = Number(url.searchParams.get('lon'));
+    lat = Number(url.searchParams.get('lat'));
+    respond = nominatim;
+  } else if (url.pathname === '/v1/reverse') {
+    lng = Number(url.searchParams.get('point.lon'));
+    lat = Number(url.searchParams.get('point.lat'));
+    respond = pelias;
+  } else {
+    return send(res, 404, { error: `No stand-in for ${url.pathname}` });
+  }
+
+  if (!isFinite(lng) || !isFinite(lat)) return send(res, 400, { error: 'Invalid coordinates' });
+  if (failStatus) return send(res, failStatus, { error: `Simulated ${failStatus}` });
+  console.log(`${req.method} ${url.pathname} ${lng},${lat}`);
+  send(res, 200, respond(lng, lat));
+});
+
+server.listen(port, () => {
+  console.log(`Geocoder stand-in listening on http://localhost:${port} (Mapbox, Nominatim and Pelias reverse endpoints)${failStatus ? `, answering ${failStatus} to everything` : ''}`);
+});